@@ -0,0 +1,95 @@
+import type { CliConfig } from "./config";
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public body?: any) {
+    super(message);
+  }
+}
+
+export interface RequestOptions {
+  query?: Record<string, string | undefined>;
+  json?: unknown;
+  form?: FormData;
+}
+
+// Must match server/csrf.ts
+const CSRF_COOKIE = "XSRF-TOKEN";
+const CSRF_HEADER = "X-CSRF-Token";
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * Talks to the REST API either with a personal API token or, after `0xctf login`,
+ * with the same session cookie and CSRF token the browser would use.
+ */
+export class ApiClient {
+  readonly cookies: Record<string, string>;
+
+  constructor(private config: CliConfig) {
+    this.cookies = { ...config.cookies };
+  }
+
+  get usesToken(): boolean {
+    return !!this.config.token;
+  }
+
+  url(pathname: string, query: Record<string, string | undefined> = {}): URL {
+    const url = new URL(pathname, this.config.url);
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    return url;
+  }
+
+  async request(method: string, pathname: string, options: RequestOptions = {}): Promise<Response> {
+    const headers: Record<string, string> = {};
+    let body: string | FormData | undefined;
+    if (options.json !== undefined) {
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify(options.json);
+    } else if (options.form) {
+      body = options.form;
+    }
+
+    if (this.config.token) {
+      headers["Authorization"] = `Bearer ${this.config.token}`;
+    } else {
+      if (!SAFE_METHODS.includes(method) && !this.cookies[CSRF_COOKIE]) {
+        // Any API response hands out the CSRF cookie
+        await this.request("GET", "/api/user");
+      }
+      if (this.cookies[CSRF_COOKIE]) headers[CSRF_HEADER] = this.cookies[CSRF_COOKIE];
+      const cookie = Object.entries(this.cookies).map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join("; ");
+      if (cookie) headers["Cookie"] = cookie;
+    }
+
+    const res = await fetch(this.url(pathname, options.query), { method, headers, body, redirect: "manual" });
+    this.storeCookies(res);
+    return res;
+  }
+
+  async call<T = any>(method: string, pathname: string, options: RequestOptions = {}): Promise<T> {
+    const res = await this.request(method, pathname, options);
+    const text = await res.text();
+    let data: any = text;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Not JSON, keep the text
+    }
+
+    if (!res.ok) {
+      const message = data?.message ?? (res.status === 401 ? "Not logged in. Run `0xctf login` or set a token." : res.statusText);
+      const retry = res.headers.get("Retry-After");
+      throw new ApiError(res.status, retry ? `${message} (retry in ${retry}s)` : message, data);
+    }
+    return data as T;
+  }
+
+  private storeCookies(res: Response) {
+    for (const header of res.headers.getSetCookie()) {
+      const [pair] = header.split(";");
+      const index = pair.indexOf("=");
+      if (index > 0) this.cookies[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+}
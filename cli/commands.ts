@@ -0,0 +1,306 @@
+import { mkdir, readFile, stat, writeFile } from "fs/promises";
+import path from "path";
+import readline from "readline";
+import { Writable } from "stream";
+import * as tar from "tar";
+import type { Challenge, FlagDefinition } from "@shared/schema";
+import { ApiClient, ApiError } from "./api";
+import { saveConfig, clearConfig, type CliConfig } from "./config";
+
+export interface CommandContext {
+  config: CliConfig;
+  api: ApiClient;
+  options: Record<string, string | boolean | undefined>;
+  json: boolean;
+}
+
+type ChallengeSummary = Omit<Challenge, "flagHash" | "flagSalt"> & { solveCount: number; hasSolved: boolean };
+type ChallengeDetail = Omit<ChallengeSummary, "solveCount">;
+
+function print(ctx: CommandContext, data: unknown, human: () => void) {
+  if (ctx.json) {
+    console.log(JSON.stringify(data, null, 2));
+  } else {
+    human();
+  }
+}
+
+function table(rows: Array<Array<string | number>>, header: string[]) {
+  const cells = [header, ...rows].map(row => row.map(String));
+  const widths = header.map((_, column) => Math.max(...cells.map(row => row[column].length)));
+  for (const row of cells) {
+    console.log(row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd());
+  }
+}
+
+// Swallows readline's echo of hidden input
+const mutedOutput = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+
+export async function prompt(question: string, hidden = false): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: hidden ? mutedOutput : process.stdout, terminal: true });
+  try {
+    // Hidden prompts write the question themselves, since readline's output goes nowhere
+    if (hidden) process.stdout.write(question);
+    return await new Promise<string>(resolve => rl.question(hidden ? "" : question, resolve));
+  } finally {
+    rl.close();
+    if (hidden) process.stdout.write("\n");
+  }
+}
+
+// Account
+
+export async function login(ctx: CommandContext) {
+  const email = typeof ctx.options.email === "string" ? ctx.options.email : await prompt("Email: ");
+  const password = await prompt("Password: ", true);
+
+  // A session replaces any saved token
+  const api = new ApiClient({ url: ctx.config.url });
+  let user = await api.call("POST", "/api/login", { json: { email, password } });
+  if (user?.twoFactorRequired) {
+    const code = await prompt("Authentication code: ");
+    user = await api.call("POST", "/api/login/2fa", { json: { code } });
+  }
+
+  await saveConfig({ url: ctx.config.url, cookies: api.cookies });
+  console.log(`Logged in to ${ctx.config.url} as ${user.username}`);
+}
+
+export async function logout(ctx: CommandContext) {
+  if (!ctx.api.usesToken && ctx.config.cookies) {
+    try {
+      await ctx.api.call("POST", "/api/logout");
+    } catch (error) {
+      // The session may already have expired or been revoked
+      if (!(error instanceof ApiError)) throw error;
+    }
+  }
+  await clearConfig();
+  console.log("Logged out");
+}
+
+export async function useToken(ctx: CommandContext, token: string | undefined) {
+  if (!token) throw new Error("Usage: 0xctf token <api-token>");
+
+  const api = new ApiClient({ url: ctx.config.url, token });
+  const user = await api.call("GET", "/api/user");
+  await saveConfig({ url: ctx.config.url, token });
+  console.log(`Saved token for ${user.username} (${ctx.config.url})`);
+}
+
+export async function whoami(ctx: CommandContext) {
+  const user = await ctx.api.call("GET", "/api/user");
+  print(ctx, user, () => {
+    console.log(`${user.username} <${user.email}>${user.isAdmin ? " (admin)" : ""}`);
+    console.log(`Score: ${user.score}`);
+  });
+}
+
+// Playing
+
+export async function listChallenges(ctx: CommandContext) {
+  const { category, difficulty, search, event, published } = ctx.options;
+  const challenges = await ctx.api.call<ChallengeSummary[]>("GET", "/api/challenges", {
+    query: {
+      category: category as string | undefined,
+      difficulty: difficulty as string | undefined,
+      search: search as string | undefined,
+      eventId: event as string | undefined,
+      published: published === undefined ? undefined : String(published !== "false"),
+    },
+  });
+
+  print(ctx, challenges, () => {
+    if (challenges.length === 0) return console.log("No challenges found");
+    table(
+      challenges.map(challenge => [challenge.id, challenge.title, challenge.category, challenge.difficulty, challenge.points, challenge.solveCount, challenge.hasSolved ? "yes" : ""]),
+      ["ID", "TITLE", "CATEGORY", "DIFFICULTY", "POINTS", "SOLVES", "SOLVED"],
+    );
+  });
+}
+
+export async function showChallenge(ctx: CommandContext, id: string | undefined) {
+  if (!id) throw new Error("Usage: 0xctf show <challenge-id>");
+
+  const challenge = await ctx.api.call<ChallengeDetail>("GET", `/api/challenges/${encodeURIComponent(id)}`);
+  print(ctx, challenge, () => {
+    console.log(`${challenge.title} [${challenge.category}, ${challenge.difficulty}, ${challenge.points} points]${challenge.hasSolved ? " (solved)" : ""}`);
+    console.log("");
+    console.log(challenge.description);
+    if (challenge.artifacts?.length) {
+      console.log("");
+      console.log("Files:");
+      for (const artifact of challenge.artifacts) console.log(`  ${artifact.name} (${artifact.size} bytes)`);
+    }
+  });
+}
+
+export async function download(ctx: CommandContext, id: string | undefined) {
+  if (!id) throw new Error("Usage: 0xctf download <challenge-id> [--out <dir>]");
+
+  const challenge = await ctx.api.call<ChallengeDetail>("GET", `/api/challenges/${encodeURIComponent(id)}`);
+  const artifacts = challenge.artifacts ?? [];
+  if (artifacts.length === 0) return console.log(`${challenge.title} has no files`);
+
+  const directory = typeof ctx.options.out === "string" ? ctx.options.out : challenge.slug || challenge.id;
+  await mkdir(directory, { recursive: true });
+
+  for (const artifact of artifacts) {
+    // Artifact URLs point at the tracked download route, which needs a login or API token
+    const res = await ctx.api.request("GET", artifact.url);
+    if (!res.ok) throw new ApiError(res.status, `Failed to download ${artifact.name}: ${res.status} ${res.statusText}`);
+
+    // Never let a file name from the server escape the target directory
+    const file = path.join(directory, path.basename(artifact.name));
+    await writeFile(file, Buffer.from(await res.arrayBuffer()));
+    console.log(`Saved ${file}`);
+  }
+}
+
+export async function submit(ctx: CommandContext, id: string | undefined, flag: string | undefined) {
+  if (!id || !flag) throw new Error("Usage: 0xctf submit <challenge-id> <flag>");
+
+  const result = await ctx.api.call("POST", `/api/challenges/${encodeURIComponent(id)}/submit`, { json: { flag } });
+  print(ctx, result, () => {
+    console.log(result.message);
+    if (result.correct) console.log(`+${result.points} points${result.firstBlood ? " (first blood)" : ""}`);
+  });
+  if (!result.correct) process.exitCode = 2;
+}
+
+export async function leaderboard(ctx: CommandContext) {
+  const teams = !!ctx.options.teams;
+  const base = typeof ctx.options.event === "string" ? `/api/events/${encodeURIComponent(ctx.options.event)}/leaderboard` : "/api/leaderboard";
+  const entries = await ctx.api.call<any[]>("GET", teams ? `${base}/teams` : base, {
+    query: { limit: ctx.options.limit as string | undefined },
+  });
+
+  print(ctx, entries, () => {
+    if (entries.length === 0) return console.log("No scores yet");
+    table(
+      entries.map(entry => [entry.rank, teams ? entry.name : entry.username, entry.score, entry.solveCount]),
+      ["RANK", teams ? "TEAM" : "PLAYER", "SCORE", "SOLVES"],
+    );
+  });
+}
+
+// Admin
+
+export async function setPublished(ctx: CommandContext, id: string | undefined, published: boolean) {
+  if (!id) throw new Error(`Usage: 0xctf admin ${published ? "publish" : "unpublish"} <challenge-id>`);
+
+  const result = await ctx.api.call("POST", `/api/admin/challenges/${encodeURIComponent(id)}/${published ? "publish" : "unpublish"}`);
+  print(ctx, result, () => console.log(`${published ? "Published" : "Unpublished"} ${id}`));
+}
+
+interface ChallengeImport {
+  title: string;
+  description: string;
+  category: string;
+  difficulty: string;
+  points: number;
+  flag?: string;
+  flags?: FlagDefinition[];
+  hints?: Array<{ text: string; cost: number }>;
+  // Paths relative to the import file
+  files?: string[];
+  published?: boolean;
+  [field: string]: unknown;
+}
+
+/**
+ * Creates every challenge in a JSON file (an array, or `{ "challenges": [...] }`)
+ * through the same multipart endpoint as the create page.
+ */
+export async function importChallenges(ctx: CommandContext, file: string | undefined) {
+  if (!file) throw new Error("Usage: 0xctf admin import <challenges.json>");
+
+  const parsed = JSON.parse(await readFile(file, "utf8"));
+  const challenges: ChallengeImport[] = Array.isArray(parsed) ? parsed : parsed.challenges;
+  if (!Array.isArray(challenges)) throw new Error(`${file} must contain an array of challenges`);
+
+  let failed = 0;
+  for (const { files, hints, flags, ...fields } of challenges) {
+    const form = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined && value !== null) form.append(key, String(value));
+    }
+    form.append("hints", JSON.stringify(hints ?? []));
+    if (flags) form.append("flags", JSON.stringify(flags));
+    for (const attachment of files ?? []) {
+      const content = await readFile(path.resolve(path.dirname(file), attachment));
+      form.append("files", new Blob([content]), path.basename(attachment));
+    }
+
+    try {
+      const created = await ctx.api.call("POST", "/api/challenges", { form });
+      console.log(`Imported ${created.title} (${created.id})`);
+    } catch (error) {
+      failed++;
+      console.error(`Failed to import ${fields.title}: ${(error as Error).message}`);
+    }
+  }
+
+  if (failed > 0) {
+    process.exitCode = 1;
+    console.error(`${failed} of ${challenges.length} challenges failed to import`);
+  }
+}
+
+interface ImportEntry {
+  file: string;
+  externalId?: string;
+  title?: string;
+  action: "create" | "update" | "unchanged" | "invalid";
+  changes: Array<{ field: string; from: string; to: string }>;
+  errors: string[];
+  outcome?: "applied" | "failed";
+}
+
+/**
+ * Syncs challenge.yml directories (see server/challenge-import.ts) from a local
+ * directory or archive. Prints the diff, and only applies it with --apply.
+ */
+export async function syncChallenges(ctx: CommandContext, source: string | undefined) {
+  if (!source) throw new Error("Usage: 0xctf admin sync <directory|archive.tar.gz> [--apply]");
+
+  const isDirectory = (await stat(source)).isDirectory();
+  const archive = isDirectory ? await tarDirectory(source) : await readFile(source);
+  const form = new FormData();
+  form.append("archive", new Blob([archive]), isDirectory ? "challenges.tar.gz" : path.basename(source));
+  form.append("apply", String(!!ctx.options.apply));
+
+  let result: { applied: boolean; challenges: ImportEntry[] };
+  try {
+    result = await ctx.api.call("POST", "/api/admin/challenges/import", { form });
+  } catch (error) {
+    // Refused imports still come with the plan showing what is wrong
+    if (!(error instanceof ApiError) || !error.body?.challenges) throw error;
+    result = error.body;
+    process.exitCode = 1;
+  }
+
+  print(ctx, result, () => {
+    for (const entry of result.challenges) {
+      console.log(`${entry.action.padEnd(9)} ${entry.externalId ?? "?"}  ${entry.title ?? ""}  (${entry.file})${entry.outcome === "failed" ? "  FAILED" : ""}`);
+      for (const error of entry.errors) console.log(`            error: ${error}`);
+      for (const change of entry.changes) console.log(`            ${change.field}: ${change.from} -> ${change.to}`);
+    }
+    const pending = result.challenges.filter(entry => entry.action === "create" || entry.action === "update").length;
+    const failed = result.challenges.filter(entry => entry.outcome === "failed").length;
+    if (result.applied) {
+      console.log(`Applied ${pending - failed} change${pending - failed === 1 ? "" : "s"}${failed > 0 ? `, ${failed} failed` : ""}`);
+    } else if (pending > 0) {
+      console.log(`${pending} change${pending === 1 ? "" : "s"} pending. Run again with --apply to import.`);
+    }
+  });
+  if (result.challenges.some(entry => entry.action === "invalid" || entry.outcome === "failed")) process.exitCode = 1;
+}
+
+async function tarDirectory(directory: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of tar.c({ gzip: true, cwd: directory, portable: true }, ["."])) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
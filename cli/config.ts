@@ -0,0 +1,38 @@
+import { mkdir, readFile, writeFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+
+export interface CliConfig {
+  url: string;
+  // Personal API token (see server/api-tokens.ts), used instead of a session when set
+  token?: string;
+  // Cookies from `0xctf login`, by name
+  cookies?: Record<string, string>;
+}
+
+export const DEFAULT_URL = "http://localhost:5000";
+
+export function getConfigPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(base, "0xctf", "config.json");
+}
+
+export async function loadConfig(): Promise<CliConfig> {
+  try {
+    return { url: DEFAULT_URL, ...JSON.parse(await readFile(getConfigPath(), "utf8")) };
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return { url: DEFAULT_URL };
+    throw new Error(`Can't read ${getConfigPath()}: ${error?.message ?? error}`);
+  }
+}
+
+// The file holds credentials, so only the current user may read it
+export async function saveConfig(config: CliConfig): Promise<void> {
+  const file = getConfigPath();
+  await mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+  await writeFile(file, JSON.stringify(config, null, 2) + "\n", { mode: 0o600 });
+}
+
+export async function clearConfig(): Promise<void> {
+  await rm(getConfigPath(), { force: true });
+}
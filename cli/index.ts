@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+import { parseArgs } from "util";
+import { ApiClient, ApiError } from "./api";
+import { loadConfig, getConfigPath } from "./config";
+import * as commands from "./commands";
+
+const USAGE = `Usage: 0xctf <command> [options]
+
+Account:
+  login [--email <email>]         Log in with your password (and 2FA code)
+  token <api-token>               Use a personal API token from your profile page
+  logout                          Forget the saved session or token
+  whoami                          Show the current account
+
+Playing:
+  challenges                      List challenges
+      [--category <c>] [--difficulty <d>] [--search <text>] [--event <id>] [--published <true|false>]
+  show <id>                       Show a challenge
+  download <id> [--out <dir>]     Download all files of a challenge
+  submit <id> <flag>              Submit a flag (exits with 2 when it is wrong)
+  leaderboard [--teams] [--event <id>] [--limit <n>]
+
+Admin (needs \`0xctf login\`, API tokens can't use admin routes):
+  admin publish <id>
+  admin unpublish <id>
+  admin import <challenges.json>  Create challenges from a JSON file
+  admin sync <dir|archive> [--apply]
+                                  Create or update challenges from challenge.yml files,
+                                  showing the changes first and applying them with --apply
+
+Global options:
+  --url <url>      Server to talk to (saved by login and token, default http://localhost:5000)
+  --token <token>  API token for this command only (or set OXCTF_TOKEN)
+  --json           Print raw JSON
+  -h, --help       Show this help
+
+Credentials are saved in ${getConfigPath()}`;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: "string" },
+      token: { type: "string" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+      email: { type: "string" },
+      category: { type: "string" },
+      difficulty: { type: "string" },
+      search: { type: "string" },
+      event: { type: "string" },
+      published: { type: "string" },
+      out: { type: "string" },
+      teams: { type: "boolean" },
+      limit: { type: "string" },
+      apply: { type: "boolean" },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const saved = await loadConfig();
+  const config = {
+    ...saved,
+    url: values.url || saved.url,
+    token: values.token || process.env.OXCTF_TOKEN || saved.token,
+  };
+  const ctx: commands.CommandContext = { config, api: new ApiClient(config), options: values, json: !!values.json };
+
+  switch (command) {
+    case "login": return commands.login(ctx);
+    case "token": return commands.useToken(ctx, args[0]);
+    case "logout": return commands.logout(ctx);
+    case "whoami": return commands.whoami(ctx);
+    case "challenges": return commands.listChallenges(ctx);
+    case "show": return commands.showChallenge(ctx, args[0]);
+    case "download": return commands.download(ctx, args[0]);
+    case "submit": return commands.submit(ctx, args[0], args[1]);
+    case "leaderboard": return commands.leaderboard(ctx);
+    case "admin":
+      switch (args[0]) {
+        case "publish": return commands.setPublished(ctx, args[1], true);
+        case "unpublish": return commands.setPublished(ctx, args[1], false);
+        case "import": return commands.importChallenges(ctx, args[1]);
+        case "sync": return commands.syncChallenges(ctx, args[1]);
+      }
+      throw new Error(`Unknown admin command: ${args[0] ?? ""}\n\n${USAGE}`);
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main().catch(error => {
+  if (error instanceof ApiError) {
+    console.error(`Error (${error.status}): ${error.message}`);
+  } else {
+    console.error(`Error: ${error?.message ?? error}`);
+  }
+  process.exitCode = 1;
+});
@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import { ProtectedRoute } from "./lib/protected-route";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
@@ -12,8 +13,15 @@ import LeaderboardPage from "@/pages/leaderboard-page";
 import CreateChallengePage from "@/pages/create-challenge-page";
 import EditChallengePage from "@/pages/edit-challenge-page";
 import AdminPage from "@/pages/admin-page";
+import AntiCheatPage from "@/pages/anticheat-page";
+import ChallengeImportPage from "@/pages/challenge-import-page";
+import ModerationPage from "@/pages/moderation-page";
 import { AdminProtectedRoute } from "./lib/admin-protected-route";
 import ProfilePage from "@/pages/profile-page";
+import TeamPage from "@/pages/team-page";
+import ForgotPasswordPage from "@/pages/forgot-password-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -25,19 +33,32 @@ function Router() {
       <AdminProtectedRoute path="/create" component={CreateChallengePage} />
       <ProtectedRoute path="/challenge/:id/edit" component={EditChallengePage} />
       <ProtectedRoute path="/profile" component={ProfilePage} />
+      <ProtectedRoute path="/team/:id" component={TeamPage} />
       <AdminProtectedRoute path="/admin" component={AdminPage} />
+      <AdminProtectedRoute path="/admin/anticheat" component={AntiCheatPage} />
+      <AdminProtectedRoute path="/admin/import" component={ChallengeImportPage} />
+      <AdminProtectedRoute path="/admin/moderation" component={ModerationPage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+function LiveUpdates() {
+  useLiveUpdates();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
         <TooltipProvider>
           <Toaster />
+          <LiveUpdates />
           <Router />
         </TooltipProvider>
       </AuthProvider>
@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { csrfHeaders } from "@/lib/queryClient";
+import type { AnnouncementAudience } from "@shared/schema";
+
+interface AdminAnnouncement {
+  id: string;
+  title: string;
+  body: string;
+  audience: AnnouncementAudience;
+  challengeId: string | null;
+  teamId: string | null;
+  createdAt: string;
+}
+
+interface AnnouncementManagerProps {
+  challenges: Array<{ id: string; title: string }>;
+}
+
+const emptyForm = {
+  title: '',
+  body: '',
+  audience: 'all' as AnnouncementAudience,
+  challengeId: '',
+  teamId: '',
+};
+
+export function AnnouncementManager({ challenges }: AnnouncementManagerProps) {
+  const { toast } = useToast();
+  const [announcements, setAnnouncements] = useState<AdminAnnouncement[]>([]);
+  const [teams, setTeams] = useState<Array<{ id: string; name: string }>>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAnnouncements = async () => {
+    try {
+      const res = await fetch('/api/admin/announcements', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch announcements');
+      setAnnouncements(await res.json());
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  // The team leaderboard is the only list of every team
+  const fetchTeams = async () => {
+    try {
+      const res = await fetch('/api/leaderboard/teams?limit=1000', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch teams');
+      setTeams(await res.json());
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  useEffect(() => { fetchAnnouncements(); fetchTeams(); }, []);
+
+  const describeAudience = (announcement: AdminAnnouncement) => {
+    if (announcement.audience === 'challenge-solvers') {
+      return `Solvers of ${challenges.find(c => c.id === announcement.challengeId)?.title ?? 'a deleted challenge'}`;
+    }
+    if (announcement.audience === 'team') {
+      return `Team ${teams.find(t => t.id === announcement.teamId)?.name ?? '(disbanded)'}`;
+    }
+    return 'All players';
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await fetch(editingId ? `/api/admin/announcements/${editingId}` : '/api/admin/announcements', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+        credentials: 'include',
+        body: JSON.stringify({
+          title: form.title,
+          body: form.body,
+          audience: form.audience,
+          challengeId: form.challengeId || null,
+          teamId: form.teamId || null,
+        }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.errors?.[0]?.message || error.message || 'Failed to save announcement');
+      }
+      toast({ title: editingId ? 'Announcement Updated' : 'Announcement Posted', description: form.title });
+      setForm(emptyForm);
+      setEditingId(null);
+      fetchAnnouncements();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const edit = (announcement: AdminAnnouncement) => {
+    setEditingId(announcement.id);
+    setForm({
+      title: announcement.title,
+      body: announcement.body,
+      audience: announcement.audience,
+      challengeId: announcement.challengeId ?? '',
+      teamId: announcement.teamId ?? '',
+    });
+  };
+
+  const remove = async (id: string) => {
+    try {
+      const res = await fetch(`/api/admin/announcements/${id}`, { method: 'DELETE', headers: csrfHeaders(), credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to delete announcement');
+      toast({ title: 'Announcement Deleted' });
+      if (editingId === id) {
+        setEditingId(null);
+        setForm(emptyForm);
+      }
+      fetchAnnouncements();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="neon-border mb-8" data-testid="admin-announcements">
+      <CardHeader>
+        <CardTitle>Announcements</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {announcements.length > 0 && (
+          <div className="space-y-3">
+            {announcements.map((announcement) => (
+              <div key={announcement.id} className="flex items-start justify-between gap-4 text-sm" data-testid={`row-announcement-${announcement.id}`}>
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {announcement.title}
+                    <Badge variant="secondary" className="ml-2">{describeAudience(announcement)}</Badge>
+                  </p>
+                  <p className="text-muted-foreground whitespace-pre-wrap">{announcement.body}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(announcement.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => edit(announcement)} data-testid={`button-edit-announcement-${announcement.id}`}>Edit</Button>
+                  <Button variant="ghost" size="sm" onClick={() => remove(announcement.id)} data-testid={`button-delete-announcement-${announcement.id}`}>Delete</Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <form onSubmit={save} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <Label htmlFor="announcement-title">Title</Label>
+            <Input
+              id="announcement-title"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              maxLength={200}
+              required
+              data-testid="input-announcement-title"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="announcement-body">Message</Label>
+            <Textarea
+              id="announcement-body"
+              value={form.body}
+              onChange={(e) => setForm({ ...form, body: e.target.value })}
+              required
+              data-testid="input-announcement-body"
+            />
+          </div>
+          <div>
+            <Label>Audience</Label>
+            <Select value={form.audience} onValueChange={(audience) => setForm({ ...form, audience: audience as AnnouncementAudience })}>
+              <SelectTrigger className="mt-1" data-testid="select-announcement-audience">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All players</SelectItem>
+                <SelectItem value="challenge-solvers">Solvers of a challenge</SelectItem>
+                <SelectItem value="team">A team</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {form.audience === 'challenge-solvers' && (
+            <div>
+              <Label>Challenge</Label>
+              <Select value={form.challengeId} onValueChange={(challengeId) => setForm({ ...form, challengeId })}>
+                <SelectTrigger className="mt-1" data-testid="select-announcement-challenge">
+                  <SelectValue placeholder="Pick a challenge" />
+                </SelectTrigger>
+                <SelectContent>
+                  {challenges.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {form.audience === 'team' && (
+            <div>
+              <Label>Team</Label>
+              <Select value={form.teamId} onValueChange={(teamId) => setForm({ ...form, teamId })}>
+                <SelectTrigger className="mt-1" data-testid="select-announcement-team">
+                  <SelectValue placeholder="Pick a team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="md:col-span-2 flex gap-2">
+            <Button type="submit" disabled={saving} data-testid="button-save-announcement">
+              {editingId ? 'Save Changes' : 'Post Announcement'}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={() => { setEditingId(null); setForm(emptyForm); }}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
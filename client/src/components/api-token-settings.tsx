@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, Copy } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { apiTokenScopes, type ApiToken, type ApiTokenScope } from "@shared/schema";
+
+type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  "challenges:read": "List challenges and download their files",
+  "flags:submit": "Submit flags",
+  "profile:read": "Read your profile",
+};
+
+const EXPIRY_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+export function ApiTokenSettings() {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["challenges:read", "flags:submit"]);
+  const [expiry, setExpiry] = useState("30");
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "API Token Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/tokens", {
+        label,
+        scopes,
+        expiresInDays: expiry === "never" ? null : parseInt(expiry, 10),
+      });
+      return res.json();
+    },
+    onSuccess: (data: PublicApiToken & { token: string }) => {
+      setNewToken(data.token);
+      setLabel("");
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Token Revoked", description: "Scripts using it will stop working." });
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError,
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => (checked ? [...current, scope] : current.filter(s => s !== scope)));
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast({ title: "Copied", description: "The token is on your clipboard." });
+  };
+
+  const isExpired = (token: PublicApiToken) => !!token.expiresAt && new Date(token.expiresAt) < new Date();
+
+  return (
+    <Card className="neon-border mb-8" data-testid="profile-api-tokens">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-primary flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          API Tokens
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Let scripts act as you by sending <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>.
+          A token can only do what its scopes allow.
+        </p>
+
+        {newToken && (
+          <div className="bg-muted p-4 rounded-md" data-testid="new-api-token">
+            <p className="text-sm mb-2">Copy your new token now. It won't be shown again.</p>
+            <div className="flex gap-2 items-center">
+              <span className="font-mono text-sm break-all flex-1" data-testid="text-new-api-token">{newToken}</span>
+              <Button size="sm" variant="outline" onClick={copyToken} data-testid="button-copy-api-token">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex flex-col md:flex-row gap-2">
+            <div className="flex-1">
+              <Label htmlFor="token-label">Label</Label>
+              <Input
+                id="token-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="solver script"
+                maxLength={100}
+                className="mt-1"
+                data-testid="input-token-label"
+              />
+            </div>
+            <div>
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="w-40 mt-1" data-testid="select-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {apiTokenScopes.map(scope => (
+              <div key={scope} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, !!checked)}
+                  data-testid={`checkbox-scope-${scope}`}
+                />
+                <Label htmlFor={`scope-${scope}`} className="text-sm">
+                  <span className="font-mono">{scope}</span>
+                  <span className="text-muted-foreground"> · {SCOPE_DESCRIPTIONS[scope]}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!label.trim() || scopes.length === 0 || createMutation.isPending}
+            data-testid="button-create-api-token"
+          >
+            Create Token
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : tokens && tokens.length > 0 && (
+          <div className="divide-y divide-border border-t border-border">
+            {tokens.map((token) => (
+              <div key={token.id} className="py-3 flex items-center justify-between gap-4" data-testid={`api-token-${token.id}`}>
+                <div className="min-w-0">
+                  <p className="text-sm truncate">
+                    {token.label}
+                    <span className="ml-2 font-mono text-muted-foreground">{token.tokenPrefix}…</span>
+                    {isExpired(token) && <Badge variant="destructive" className="ml-2">Expired</Badge>}
+                  </p>
+                  <div className="flex flex-wrap gap-1 my-1">
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {token.lastUsedAt ? `last used ${new Date(token.lastUsedAt).toLocaleString()}` : "never used"}
+                    {" · "}
+                    {token.expiresAt ? `expires ${new Date(token.expiresAt).toLocaleString()}` : "no expiry"}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => revokeMutation.mutate(token.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-api-token-${token.id}`}
+                >
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
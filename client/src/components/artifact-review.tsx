@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { csrfHeaders } from "@/lib/queryClient";
+import type { ScanVerdict } from "@shared/schema";
+
+interface QuarantinedUpload {
+  id: string;
+  filename: string;
+  originalName: string;
+  size: number;
+  sha256: string;
+  challengeTitle: string | null;
+  uploaderName: string;
+  scanResults: Array<{ scanner: string; verdict: ScanVerdict; detail: string | null }>;
+  // null until the background scan has finished
+  scannedAt: string | null;
+  createdAt: string;
+}
+
+const VERDICT_STYLES: Record<ScanVerdict, string> = {
+  clean: "bg-green-500/20 text-green-400",
+  infected: "bg-red-500/20 text-red-400",
+  error: "bg-yellow-500/20 text-yellow-400",
+};
+
+/** Uploaded files held in quarantine, with scanner verdicts, until an admin approves or rejects them. */
+export function ArtifactReview() {
+  const { toast } = useToast();
+  const [uploads, setUploads] = useState<QuarantinedUpload[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchUploads = async () => {
+    try {
+      const res = await fetch('/api/admin/artifacts', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch uploads');
+      setUploads(await res.json());
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  useEffect(() => { fetchUploads(); }, []);
+
+  const act = async (upload: QuarantinedUpload, action: 'approve' | 'reject' | 'rescan') => {
+    const infected = upload.scanResults.some(result => result.verdict === 'infected');
+    if (action === 'approve' && infected && !window.confirm(`A scanner flagged "${upload.originalName}". Approve it anyway?`)) {
+      return;
+    }
+
+    setBusyId(upload.id);
+    try {
+      const res = await fetch(`/api/admin/artifacts/${upload.id}/${action}`, { method: 'POST', headers: csrfHeaders(), credentials: 'include' });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || `Failed to ${action} upload`);
+      }
+      if (action !== 'rescan') {
+        toast({ title: action === 'approve' ? 'File Approved' : 'File Rejected', description: upload.originalName });
+      }
+      fetchUploads();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="neon-border mb-8" data-testid="artifact-review">
+      <CardHeader>
+        <CardTitle>Files Awaiting Review</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {uploads.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No uploads waiting for review.</p>
+        ) : (
+          <div className="space-y-4">
+            {uploads.map((upload) => (
+              <div key={upload.id} className="flex items-start justify-between gap-4 text-sm" data-testid={`row-upload-${upload.id}`}>
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">
+                    <a href={`/uploads/${upload.filename}`} download={upload.originalName} className="hover:text-primary">{upload.originalName}</a>
+                    <span className="text-muted-foreground ml-2">{(upload.size / 1024).toFixed(1)} KB</span>
+                  </p>
+                  <p className="text-muted-foreground">
+                    {upload.challengeTitle ?? 'Deleted challenge'} • uploaded by {upload.uploaderName} on {new Date(upload.createdAt).toLocaleString()}
+                  </p>
+                  <p className="font-mono text-xs text-muted-foreground break-all">SHA-256 {upload.sha256}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {!upload.scannedAt ? (
+                      <Badge variant="secondary">scanning…</Badge>
+                    ) : upload.scanResults.map((result) => (
+                      <Badge key={result.scanner} className={VERDICT_STYLES[result.verdict]} title={result.detail ?? undefined}>
+                        {result.scanner}: {result.verdict}{result.verdict !== 'clean' && result.detail ? ` (${result.detail})` : ''}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button size="sm" onClick={() => act(upload, 'approve')} disabled={busyId === upload.id} data-testid={`button-approve-upload-${upload.id}`}>Approve</Button>
+                  <Button size="sm" variant="destructive" onClick={() => act(upload, 'reject')} disabled={busyId === upload.id} data-testid={`button-reject-upload-${upload.id}`}>Reject</Button>
+                  <Button size="sm" variant="ghost" onClick={() => act(upload, 'rescan')} disabled={busyId === upload.id} data-testid={`button-rescan-upload-${upload.id}`}>Rescan</Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
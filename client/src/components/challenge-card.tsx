@@ -1,7 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { User, Download, Play, Check } from "lucide-react";
+import { User, Download, Play, Check, Droplet, Lock } from "lucide-react";
 import { Link } from "wouter";
 
 interface Challenge {
@@ -16,7 +16,9 @@ interface Challenge {
   };
   solveCount: number;
   artifacts: Array<{ name: string; url: string; size: number }>;
-  globalSolved?: boolean;
+  hasSolved?: boolean;
+  firstBlood?: { userId: string; username: string; solvedAt: string | null } | null;
+  effectiveSolveMode?: "first-blood-lock" | "open" | "first-blood-bonus";
 }
 
 interface ChallengeCardProps {
@@ -31,19 +33,28 @@ export function ChallengeCard({ challenge }: ChallengeCardProps) {
     Insane: "bg-purple-500/20 text-purple-400",
   };
 
+  // Locked challenges can no longer be solved by anyone who hasn't already
+  const isLocked = challenge.effectiveSolveMode === "first-blood-lock" && !!challenge.firstBlood && !challenge.hasSolved;
+
   return (
     <Card 
       className={`neon-border hover-glow transition-all duration-200 overflow-hidden relative ${
-        challenge.globalSolved ? 'border-green-500/50' : ''
+        challenge.hasSolved ? 'border-green-500/50' : isLocked ? 'opacity-75' : ''
       }`}
       data-testid={`card-challenge-${challenge.id}`}
     >
-      {challenge.globalSolved && (
+      {challenge.hasSolved && (
         <div className="absolute top-2 right-2 bg-green-500 text-black px-2 py-1 rounded text-xs font-bold">
           <Check className="w-3 h-3 mr-1 inline" />
           SOLVED
         </div>
       )}
+      {isLocked && (
+        <div className="absolute top-2 right-2 bg-muted text-muted-foreground px-2 py-1 rounded text-xs font-bold" data-testid={`badge-locked-${challenge.id}`}>
+          <Lock className="w-3 h-3 mr-1 inline" />
+          LOCKED
+        </div>
+      )}
       
       <CardContent className="p-6">
         <div className="flex items-start justify-between mb-4">
@@ -85,6 +96,12 @@ export function ChallengeCard({ challenge }: ChallengeCardProps) {
             <User className="w-3 h-3" />
             <span data-testid={`text-author-${challenge.id}`}>{challenge.creator.username}</span>
           </div>
+          {challenge.firstBlood && (
+            <div className="flex items-center gap-1 text-red-400 text-xs" title="First blood">
+              <Droplet className="w-3 h-3" />
+              <span data-testid={`text-first-blood-${challenge.id}`}>{challenge.firstBlood.username}</span>
+            </div>
+          )}
           {challenge.artifacts?.length > 0 && (
             <div className="flex items-center gap-2">
               <Download className="w-3 h-3 text-muted-foreground" />
@@ -100,7 +117,7 @@ export function ChallengeCard({ challenge }: ChallengeCardProps) {
         <Link href={`/challenge/${challenge.id}`} data-testid={`link-challenge-${challenge.id}`}>
           <Button className="w-full hover-glow">
             <Play className="mr-2 h-4 w-4" />
-            {challenge.globalSolved ? 'View Challenge' : 'Start Challenge'}
+            {challenge.hasSolved || isLocked ? 'View Challenge' : 'Start Challenge'}
           </Button>
         </Link>
       </div>
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Megaphone, MessageSquare, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { TicketStatus } from "@shared/schema";
+
+interface Clarification {
+  id: string;
+  question: string;
+  answer: string;
+  createdAt: string;
+}
+
+interface TicketThread {
+  id: string;
+  userId: string;
+  username: string;
+  status: TicketStatus;
+  createdAt: string;
+  messages: Array<{ id: string; authorId: string; authorName: string; body: string; createdAt: string }>;
+}
+
+const STATUS_STYLES: Record<TicketStatus, string> = {
+  open: "bg-yellow-500/20 text-yellow-400",
+  answered: "bg-green-500/20 text-green-400",
+  closed: "bg-muted text-muted-foreground",
+};
+
+interface ClarificationListProps {
+  challengeId: string;
+  // Authors and admins can take clarifications down again
+  canModerate?: boolean;
+}
+
+/** Public questions and answers about a challenge, shown to every player. */
+export function ClarificationList({ challengeId, canModerate = false }: ClarificationListProps) {
+  const { toast } = useToast();
+  const { data: clarifications = [] } = useQuery<Clarification[]>({
+    queryKey: ["/api/challenges", challengeId, "clarifications"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/clarifications/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges", challengeId, "clarifications"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove clarification", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (clarifications.length === 0) return null;
+
+  return (
+    <div className="space-y-3" data-testid="clarifications">
+      <h3 className="text-lg font-semibold text-primary">Clarifications</h3>
+      {clarifications.map((clarification) => (
+        <div key={clarification.id} className="bg-muted p-4 rounded-md border border-border text-sm" data-testid={`clarification-${clarification.id}`}>
+          <div className="flex items-start justify-between gap-2">
+            <p className="font-medium whitespace-pre-wrap">Q: {clarification.question}</p>
+            {canModerate && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2"
+                onClick={() => deleteMutation.mutate(clarification.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-clarification-${clarification.id}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+          <p className="text-muted-foreground whitespace-pre-wrap mt-1">A: {clarification.answer}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Private questions about a challenge. Players see their own tickets; the
+ * challenge's author and admins see all of them, reply, and can publish an
+ * answer as a public clarification.
+ */
+export function ClarificationTickets({ challengeId }: { challengeId: string }) {
+  const { toast } = useToast();
+  const [question, setQuestion] = useState("");
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [publishing, setPublishing] = useState<{ ticketId: string | null; question: string; answer: string } | null>(null);
+
+  const ticketsKey = ["/api/challenges", challengeId, "tickets"];
+  const { data } = useQuery<{ canModerate: boolean; tickets: TicketThread[] }>({
+    queryKey: ticketsKey,
+  });
+  const canModerate = data?.canModerate ?? false;
+  const tickets = data?.tickets ?? [];
+
+  const onError = (error: Error) => {
+    toast({ title: "Something went wrong", description: error.message, variant: "destructive" });
+  };
+
+  const askMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/challenges/${challengeId}/tickets`, { body: question });
+    },
+    onSuccess: () => {
+      setQuestion("");
+      toast({ title: "Question Sent", description: "The challenge author will get back to you here." });
+      queryClient.invalidateQueries({ queryKey: ticketsKey });
+    },
+    onError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (ticketId: string) => {
+      await apiRequest("POST", `/api/tickets/${ticketId}/messages`, { body: replies[ticketId] ?? "" });
+      return ticketId;
+    },
+    onSuccess: (ticketId) => {
+      setReplies((current) => ({ ...current, [ticketId]: "" }));
+      queryClient.invalidateQueries({ queryKey: ticketsKey });
+    },
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (ticketId: string) => {
+      await apiRequest("POST", `/api/tickets/${ticketId}/close`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ticketsKey });
+    },
+    onError,
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/challenges/${challengeId}/clarifications`, publishing);
+    },
+    onSuccess: () => {
+      setPublishing(null);
+      toast({ title: "Clarification Published", description: "Every player can now see it with the challenge." });
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges", challengeId, "clarifications"] });
+    },
+    onError,
+  });
+
+  // Starts from the player's question and the latest staff reply; both can be reworded before publishing
+  const startPublishing = (ticket: TicketThread) => {
+    const staffReplies = ticket.messages.filter((message) => message.authorId !== ticket.userId);
+    setPublishing({
+      ticketId: ticket.id,
+      question: ticket.messages[0]?.body ?? "",
+      answer: staffReplies[staffReplies.length - 1]?.body ?? "",
+    });
+  };
+
+  return (
+    <div className="space-y-3" data-testid="clarification-tickets">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-primary">{canModerate ? "Player Questions" : "Ask the Author"}</h3>
+        {canModerate && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPublishing({ ticketId: null, question: "", answer: "" })}
+            data-testid="button-new-clarification"
+          >
+            <Megaphone className="w-3 h-3 mr-1" />
+            New Clarification
+          </Button>
+        )}
+      </div>
+
+      {!canModerate && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Is something broken or unclear? Only the author and admins see your question."
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={5000}
+            data-testid="input-ticket-question"
+          />
+          <Button
+            size="sm"
+            onClick={() => askMutation.mutate()}
+            disabled={!question.trim() || askMutation.isPending}
+            data-testid="button-ask-question"
+          >
+            <MessageSquare className="w-3 h-3 mr-1" />
+            Send Question
+          </Button>
+        </div>
+      )}
+
+      {canModerate && tickets.length === 0 && (
+        <p className="text-sm text-muted-foreground">No questions about this challenge yet.</p>
+      )}
+
+      {tickets.map((ticket) => (
+        <div key={ticket.id} className="bg-muted p-4 rounded-md border border-border space-y-3" data-testid={`ticket-${ticket.id}`}>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {canModerate ? `${ticket.username} asked` : "You asked"} on {new Date(ticket.createdAt).toLocaleString()}
+            </span>
+            <Badge className={STATUS_STYLES[ticket.status]}>{ticket.status}</Badge>
+          </div>
+          <div className="space-y-2">
+            {ticket.messages.map((message) => (
+              <div key={message.id} className={`text-sm ${message.authorId === ticket.userId ? "" : "border-l-2 border-primary pl-3"}`}>
+                <span className="font-medium">{message.authorName}</span>
+                <span className="text-xs text-muted-foreground ml-2">{new Date(message.createdAt).toLocaleString()}</span>
+                <p className="whitespace-pre-wrap">{message.body}</p>
+              </div>
+            ))}
+          </div>
+          {ticket.status !== "closed" && (
+            <div className="space-y-2">
+              <Textarea
+                placeholder={canModerate ? "Reply privately" : "Add to your question"}
+                value={replies[ticket.id] ?? ""}
+                onChange={(e) => setReplies((current) => ({ ...current, [ticket.id]: e.target.value }))}
+                maxLength={5000}
+                data-testid={`input-reply-${ticket.id}`}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => replyMutation.mutate(ticket.id)}
+                  disabled={!replies[ticket.id]?.trim() || replyMutation.isPending}
+                  data-testid={`button-reply-${ticket.id}`}
+                >
+                  Reply
+                </Button>
+                {canModerate && (
+                  <Button size="sm" variant="outline" onClick={() => startPublishing(ticket)} data-testid={`button-publish-ticket-${ticket.id}`}>
+                    Publish as Clarification
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => closeMutation.mutate(ticket.id)}
+                  disabled={closeMutation.isPending}
+                  data-testid={`button-close-ticket-${ticket.id}`}
+                >
+                  Close
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Dialog open={!!publishing} onOpenChange={(open) => !open && setPublishing(null)}>
+        <DialogContent className="neon-border bg-card">
+          <DialogHeader>
+            <DialogTitle>Publish Clarification</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Every player will see this with the challenge. Reword it so it gives nothing away.
+          </p>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="clarification-question">Question</Label>
+              <Textarea
+                id="clarification-question"
+                value={publishing?.question ?? ""}
+                onChange={(e) => setPublishing((current) => current && { ...current, question: e.target.value })}
+                data-testid="input-clarification-question"
+              />
+            </div>
+            <div>
+              <Label htmlFor="clarification-answer">Answer</Label>
+              <Textarea
+                id="clarification-answer"
+                value={publishing?.answer ?? ""}
+                onChange={(e) => setPublishing((current) => current && { ...current, answer: e.target.value })}
+                data-testid="input-clarification-answer"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPublishing(null)}>Cancel</Button>
+            <Button
+              onClick={() => publishMutation.mutate()}
+              disabled={!publishing?.question.trim() || !publishing?.answer.trim() || publishMutation.isPending}
+              data-testid="button-confirm-publish-clarification"
+            >
+              Publish
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
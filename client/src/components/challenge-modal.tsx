@@ -5,9 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Download, Flag, User, Clock, HelpCircle, X } from "lucide-react";
+import { Download, Flag, User, Clock, HelpCircle, X, Droplet, Lock } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ClarificationList } from "@/components/challenge-clarifications";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface ChallengeModalProps {
@@ -18,6 +20,7 @@ interface ChallengeModalProps {
 
 export function ChallengeModal({ challengeId, isOpen, onClose }: ChallengeModalProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [flagInput, setFlagInput] = useState("");
 
   const { data: challenge, isLoading } = useQuery({
@@ -112,6 +115,8 @@ export function ChallengeModal({ challengeId, isOpen, onClose }: ChallengeModalP
     Insane: "bg-purple-500/20 text-purple-400",
   };
 
+  const isLocked = challenge?.effectiveSolveMode === "first-blood-lock" && !!challenge?.firstBlood && !challenge?.hasSolved;
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] neon-border bg-card" data-testid="challenge-modal">
@@ -159,6 +164,12 @@ export function ChallengeModal({ challengeId, isOpen, onClose }: ChallengeModalP
                     {new Date(challenge.createdAt).toLocaleDateString()}
                   </span>
                 </div>
+                {challenge.firstBlood && (
+                  <div className="flex items-center gap-1 text-red-400 text-sm">
+                    <Droplet className="w-3 h-3" />
+                    <span data-testid="modal-first-blood">{challenge.firstBlood.username}</span>
+                  </div>
+                )}
               </div>
               
               {/* Challenge Description */}
@@ -168,6 +179,8 @@ export function ChallengeModal({ challengeId, isOpen, onClose }: ChallengeModalP
                   <ReactMarkdown>{challenge.description}</ReactMarkdown>
                 </div>
               </div>
+
+              <ClarificationList challengeId={challenge.id} />
               
               {/* Files/Artifacts */}
               {challenge.artifacts && challenge.artifacts.length > 0 && (
@@ -187,6 +200,8 @@ export function ChallengeModal({ challengeId, isOpen, onClose }: ChallengeModalP
                           size="sm" 
                           className="hover-glow"
                           onClick={() => window.open(file.url, '_blank')}
+                          disabled={!user}
+                          title={user ? undefined : 'Log in to download files'}
                           data-testid={`modal-download-${index}`}
                         >
                           <Download className="w-3 h-3 mr-1" />
@@ -199,7 +214,19 @@ export function ChallengeModal({ challengeId, isOpen, onClose }: ChallengeModalP
               )}
               
               {/* Flag Submission */}
-              {!challenge.hasSolved && (
+              {isLocked && (
+                <div className="bg-muted border border-border rounded-md p-4" data-testid="modal-locked">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Lock className="w-4 h-4" />
+                    <span className="font-medium">Challenge Locked</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    This challenge was claimed by {challenge.firstBlood?.username} and no longer accepts flags.
+                  </p>
+                </div>
+              )}
+
+              {!challenge.hasSolved && !isLocked && (
                 <div className="space-y-3">
                   <h3 className="text-lg font-semibold text-primary">Submit Flag</h3>
                   <div className="flex gap-3">
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, CheckCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+export interface EventSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  startsAt: string;
+  endsAt: string;
+  status: "upcoming" | "running" | "ended";
+  registrationOpen: boolean;
+  isRegistered: boolean;
+}
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${days > 0 ? `${days}d ` : ""}${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+}
+
+export function EventCountdown({ event }: { event: EventSummary }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const startsAt = new Date(event.startsAt).getTime();
+  const endsAt = new Date(event.endsAt).getTime();
+  const target = now < startsAt ? startsAt : endsAt;
+
+  // The status from the server goes stale while the page is open
+  useEffect(() => {
+    if (now >= target && event.status !== "ended") {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+    }
+  }, [now >= target]);
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/events/${event.id}/register`);
+    },
+    onSuccess: () => {
+      toast({ title: "Registered", description: `You are registered for ${event.name}.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Registration Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="neon-border hover-glow transition-all duration-200" data-testid={`event-countdown-${event.id}`}>
+      <CardContent className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            <h3 className="text-lg font-semibold">{event.name}</h3>
+            <Badge variant="outline" className={now < startsAt ? "text-yellow-400" : "text-green-400"}>
+              {now < startsAt ? "UPCOMING" : "LIVE"}
+            </Badge>
+          </div>
+          {event.description && (
+            <p className="text-sm text-muted-foreground">{event.description}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="text-right">
+            <p className="text-muted-foreground text-sm">{now < startsAt ? "Starts in" : "Ends in"}</p>
+            <p className="text-2xl font-bold text-primary font-mono" data-testid={`text-countdown-${event.id}`}>
+              {formatRemaining(target - now)}
+            </p>
+          </div>
+          {user && event.isRegistered ? (
+            <Badge className="bg-green-500/20 text-green-400">
+              <CheckCircle className="w-3 h-3 mr-1" />
+              Registered
+            </Badge>
+          ) : user && event.registrationOpen ? (
+            <Button
+              onClick={() => registerMutation.mutate()}
+              disabled={registerMutation.isPending}
+              data-testid={`button-register-${event.id}`}
+            >
+              Register
+            </Button>
+          ) : null}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, Plus, X, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { matchesFlagDefinition, DYNAMIC_FLAG_PLACEHOLDER } from "@shared/flags";
+import type { FlagDefinition, FlagType } from "@shared/schema";
+
+interface FlagEditorProps {
+  flags: FlagDefinition[];
+  onChange: (flags: FlagDefinition[]) => void;
+  // When editing, candidates are also tested against the flags already saved on the server
+  challengeId?: string;
+}
+
+const placeholders: Record<FlagType, string> = {
+  "static": "flag{exact_answer}",
+  "case-insensitive": "flag{AnY_CaSe}",
+  "regex": "flag\\{[a-f0-9]{8}\\}",
+  "dynamic": "flag (prefix of each player's unique flag)",
+};
+
+export function FlagEditor({ flags, onChange, challengeId }: FlagEditorProps) {
+  const { user } = useAuth();
+  const [candidate, setCandidate] = useState("");
+  const [result, setResult] = useState<{ correct: boolean; source: string } | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const updateFlag = (index: number, update: Partial<FlagDefinition>) => {
+    onChange(flags.map((flag, i) => (i === index ? { ...flag, ...update } : flag)));
+    setResult(null);
+  };
+
+  const removeFlag = (index: number) => {
+    onChange(flags.filter((_, i) => i !== index));
+    setResult(null);
+  };
+
+  const addFlag = () => {
+    onChange([...flags, { type: "static", value: "" }]);
+  };
+
+  const testCandidate = async () => {
+    const matchIndex = flags.findIndex((flag) => flag.value && matchesFlagDefinition(flag, candidate));
+    if (matchIndex !== -1) {
+      setResult({ correct: true, source: `matches flag ${matchIndex + 1}` });
+      return;
+    }
+    if (!challengeId) {
+      const hasDynamic = flags.some((flag) => flag.type === "dynamic");
+      setResult({
+        correct: false,
+        source: hasDynamic ? "unique per-player flags can be tested once the challenge is saved" : "matches none of the flags",
+      });
+      return;
+    }
+
+    setTesting(true);
+    try {
+      const res = await apiRequest("POST", `/api/challenges/${challengeId}/flags/test`, { candidate });
+      const { correct } = await res.json();
+      setResult({ correct, source: correct ? "matches a saved flag" : "matches none of the flags" });
+    } catch (error: any) {
+      setResult({ correct: false, source: error.message });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {flags.map((flag, index) => (
+        <div key={index} className="flex gap-3">
+          <Select value={flag.type} onValueChange={(value) => updateFlag(index, { type: value as FlagType })}>
+            <SelectTrigger className="w-44" data-testid={`select-flag-type-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="static">Exact</SelectItem>
+              <SelectItem value="case-insensitive">Case-insensitive</SelectItem>
+              {(user?.isAdmin || flag.type === "regex") && <SelectItem value="regex">Regex</SelectItem>}
+              <SelectItem value="dynamic">Unique per player</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type={flag.type === "regex" || flag.type === "dynamic" ? "text" : "password"}
+            value={flag.value}
+            onChange={(e) => updateFlag(index, { value: e.target.value })}
+            placeholder={placeholders[flag.type]}
+            className="flex-1 font-mono"
+            data-testid={`input-flag-${index}`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeFlag(index)}
+            disabled={flags.length === 1 && !challengeId}
+            data-testid={`button-remove-flag-${index}`}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        onClick={addFlag}
+        className="text-primary hover:text-secondary transition-colors text-sm"
+        data-testid="button-add-flag"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add Flag
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Exact and case-insensitive flags are hashed; regex flags (admins only) must match the whole submission and are stored encrypted.
+        Unique flags are shown to each player wherever {DYNAMIC_FLAG_PLACEHOLDER} appears in the description or text files.
+      </p>
+
+      <div className="border-t border-border pt-3">
+        <Label htmlFor="flag-candidate">Test a Candidate Flag</Label>
+        <div className="flex gap-3 mt-1">
+          <Input
+            id="flag-candidate"
+            value={candidate}
+            onChange={(e) => {
+              setCandidate(e.target.value);
+              setResult(null);
+            }}
+            placeholder="flag{what_a_player_might_submit}"
+            className="flex-1 font-mono"
+            data-testid="input-flag-candidate"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={testCandidate}
+            disabled={!candidate || testing}
+            data-testid="button-test-flag"
+          >
+            Test
+          </Button>
+        </div>
+        {result && (
+          <p
+            className={`text-sm mt-1 flex items-center gap-1 ${result.correct ? "text-green-400" : "text-destructive"}`}
+            data-testid="text-flag-test-result"
+          >
+            {result.correct ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            {result.correct ? "Accepted" : "Rejected"} — {result.source}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
-import { LogOut, User } from "lucide-react";
+import { LogOut, User, Users } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { NotificationBell } from "@/components/notification-bell";
 
 export function Header() {
   const { user, logoutMutation } = useAuth();
   const [location] = useLocation();
 
+  const { data: team } = useQuery<{ id: string; name: string } | null>({
+    queryKey: ["/api/teams/mine"],
+    enabled: !!user,
+  });
+
   const handleLogout = () => {
     logoutMutation.mutate();
   };
@@ -59,6 +66,15 @@ export function Header() {
                 <span className="text-sm" data-testid="text-username">{user.username}</span>
                 <span className="text-primary font-mono text-xs" data-testid="text-score">{user.score}</span>
               </div>
+              {team && (
+                <Link href={`/team/${team.id}`} data-testid="link-team">
+                  <span className="hidden md:flex items-center gap-1 text-sm text-muted-foreground hover:text-primary transition-colors cursor-pointer">
+                    <Users className="h-4 w-4" />
+                    <span data-testid="text-team-name">{team.name}</span>
+                  </span>
+                </Link>
+              )}
+              <NotificationBell />
               <Button 
                 variant="outline" 
                 size="sm" 
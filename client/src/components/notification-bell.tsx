@@ -0,0 +1,85 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface PlayerAnnouncement {
+  id: string;
+  title: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  read: boolean;
+}
+
+export function NotificationBell() {
+  const { data: announcements = [] } = useQuery<PlayerAnnouncement[]>({
+    queryKey: ["/api/announcements"],
+  });
+  const unread = announcements.filter((announcement) => !announcement.read).length;
+
+  const markReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/announcements/read", {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/announcements"] });
+    },
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative hover-glow" data-testid="button-notifications">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span
+              className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center"
+              data-testid="text-unread-count"
+            >
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0" data-testid="notifications">
+        <div className="flex items-center justify-between border-b border-border px-4 py-2">
+          <span className="font-semibold text-sm">Announcements</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => markReadMutation.mutate()}
+            disabled={unread === 0 || markReadMutation.isPending}
+            data-testid="button-mark-all-read"
+          >
+            Mark all read
+          </Button>
+        </div>
+        {announcements.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">No announcements yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y divide-border">
+            {announcements.map((announcement) => (
+              <div
+                key={announcement.id}
+                className={`px-4 py-3 ${announcement.read ? "" : "bg-primary/5"}`}
+                data-testid={`announcement-${announcement.id}`}
+              >
+                <div className="flex items-center gap-2">
+                  {!announcement.read && <span className="w-2 h-2 rounded-full bg-primary shrink-0" />}
+                  <span className="font-medium text-sm">{announcement.title}</span>
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap mt-1">{announcement.body}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {new Date(announcement.updatedAt ?? announcement.createdAt).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ReportReason } from "@shared/schema";
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  broken: "Broken or unsolvable",
+  offensive: "Offensive content",
+  malicious: "Malicious files",
+  plagiarism: "Copied from elsewhere",
+  copyright: "Copyright / takedown request",
+  other: "Something else",
+};
+
+export function ReportChallengeDialog({ challengeId }: { challengeId: string }) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>("broken");
+  const [details, setDetails] = useState("");
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/challenges/${challengeId}/reports`, { reason, details });
+    },
+    onSuccess: () => {
+      toast({ title: "Report Sent", description: "Thanks. An admin will review it." });
+      setOpen(false);
+      setDetails("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Report Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground" data-testid="button-report-challenge">
+          <Flag className="w-3 h-3 mr-1" />
+          Report
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="neon-border bg-card">
+        <DialogHeader>
+          <DialogTitle>Report Challenge</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Reports go to the admins, not the author. For questions about solving it, ask the author below instead.
+        </p>
+        <div className="space-y-3">
+          <div>
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+              <SelectTrigger className="mt-1" data-testid="select-report-reason">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(REASON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="report-details">Details</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="What is wrong? For takedowns, say what you own and where it was published."
+              maxLength={5000}
+              data-testid="input-report-details"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            onClick={() => reportMutation.mutate()}
+            disabled={details.trim().length < 10 || reportMutation.isPending}
+            data-testid="button-send-report"
+          >
+            Send Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
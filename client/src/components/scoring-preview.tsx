@@ -0,0 +1,36 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { computeChallengeValue, type ScoringParams } from "@shared/scoring";
+
+interface ScoringPreviewProps {
+  params: ScoringParams;
+  maxSolves?: number;
+}
+
+const chartConfig = {
+  points: {
+    label: "Points",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+export function ScoringPreview({ params, maxSolves }: ScoringPreviewProps) {
+  // Show a little past the point where the curve bottoms out
+  const solves = maxSolves ?? Math.max(10, Math.min(100, Math.ceil(params.decay * 1.25)));
+  const data = Array.from({ length: solves }, (_, i) => ({
+    solves: i + 1,
+    points: computeChallengeValue(params, i + 1),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto" data-testid="chart-scoring-preview">
+      <LineChart data={data} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="solves" tickLine={false} axisLine={false} />
+        <YAxis tickLine={false} axisLine={false} width={40} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.solves} solves`} />} />
+        <Line dataKey="points" type="monotone" stroke="var(--color-points)" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,51 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Droplet, Radio } from "lucide-react";
+import { useLiveSolves } from "@/hooks/use-live-updates";
+
+interface SolveFeedProps {
+  // Only show solves of this event's challenges
+  eventId?: string;
+}
+
+export function SolveFeed({ eventId }: SolveFeedProps) {
+  const solves = useLiveSolves(20).filter((solve) => !eventId || solve.eventId === eventId);
+
+  return (
+    <Card className="neon-border" data-testid="solve-feed">
+      <CardHeader className="border-b border-border">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Radio className="w-5 h-5 text-primary" />
+          Live Solves
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {solves.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">Solves will show up here as they happen.</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {solves.map((solve) => (
+              <div key={`${solve.challengeId}-${solve.userId}`} className="p-3 flex items-center gap-3 text-sm" data-testid={`solve-${solve.challengeId}-${solve.userId}`}>
+                {solve.firstBlood && <Droplet className="w-4 h-4 text-red-400 shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <span className="font-medium">{solve.username}</span>
+                  {solve.teamName && <span className="text-muted-foreground"> ({solve.teamName})</span>}
+                  <span className="text-muted-foreground"> solved </span>
+                  <Link href={`/challenge/${solve.challengeId}`}>
+                    <span className="hover:text-primary cursor-pointer">{solve.challengeTitle}</span>
+                  </Link>
+                </div>
+                <Badge variant="secondary">{solve.category}</Badge>
+                <span className="text-primary font-bold">+{solve.points}</span>
+                <span className="text-xs text-muted-foreground w-16 text-right">
+                  {new Date(solve.solvedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
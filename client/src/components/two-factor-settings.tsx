@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ShieldCheck } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+  required: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+  });
+
+  const refresh = () => {
+    setCode("");
+    queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Two-Factor Error", description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return res.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+      setRecoveryCodes(null);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      toast({ title: "Two-Factor Enabled", description: "Save your recovery codes somewhere safe." });
+      refresh();
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", { code });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setRecoveryCodes(data.recoveryCodes);
+      toast({ title: "Recovery Codes Replaced", description: "Your old recovery codes no longer work." });
+      refresh();
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/2fa/disable", { code });
+    },
+    onSuccess: () => {
+      setRecoveryCodes(null);
+      toast({ title: "Two-Factor Disabled", description: "Your account is protected by your password only." });
+      refresh();
+    },
+    onError,
+  });
+
+  return (
+    <Card className="neon-border mb-8" data-testid="profile-two-factor">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-primary flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge className="bg-green-500/20 text-green-400">Enabled</Badge>}
+          {status?.required && !status.enabled && <Badge variant="destructive">Required</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <Skeleton className="h-10 w-full" />
+        ) : (
+          <>
+            {recoveryCodes && (
+              <div className="bg-muted p-4 rounded-md" data-testid="recovery-codes">
+                <p className="text-sm mb-2">
+                  Each recovery code signs you in once if you lose your authenticator. They won't be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <span key={recoveryCode}>{recoveryCode}</span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {!status.enabled && !setup && (
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  {status.required
+                    ? "Your account needs an authenticator app before you can create challenges or use admin tools."
+                    : "Protect your account with a code from an authenticator app when you sign in."}
+                </p>
+                <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-2fa">
+                  Set Up
+                </Button>
+              </div>
+            )}
+
+            {!status.enabled && setup && (
+              <div className="flex flex-col md:flex-row gap-6">
+                <img src={setup.qrCode} alt="Authenticator QR code" className="w-40 h-40 bg-white p-2 rounded-md" />
+                <div className="flex-1 space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Scan the code with your authenticator app, or enter this key by hand:
+                  </p>
+                  <p className="font-mono text-sm break-all" data-testid="text-totp-secret">{setup.secret}</p>
+                  <div>
+                    <Label htmlFor="enable-code">Code from the app</Label>
+                    <div className="flex gap-2 mt-1">
+                      <Input
+                        id="enable-code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="123456"
+                        className="font-mono w-40"
+                        autoComplete="one-time-code"
+                        data-testid="input-enable-code"
+                      />
+                      <Button onClick={() => enableMutation.mutate()} disabled={!code.trim() || enableMutation.isPending} data-testid="button-enable-2fa">
+                        Enable
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {status.enabled && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {status.recoveryCodesLeft} recovery code{status.recoveryCodesLeft === 1 ? "" : "s"} left.
+                  Enter a current code to replace them{status.required ? "" : " or to turn two-factor off"}.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                    className="font-mono w-40"
+                    autoComplete="one-time-code"
+                    data-testid="input-manage-code"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => regenerateMutation.mutate()}
+                    disabled={!code.trim() || regenerateMutation.isPending}
+                    data-testid="button-regenerate-codes"
+                  >
+                    New Recovery Codes
+                  </Button>
+                  {!status.required && (
+                    <Button
+                      variant="destructive"
+                      onClick={() => disableMutation.mutate()}
+                      disabled={!code.trim() || disableMutation.isPending}
+                      data-testid="button-disable-2fa"
+                    >
+                      Disable
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
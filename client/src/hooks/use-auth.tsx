@@ -12,9 +12,10 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  twoFactorMutation: UseMutationResult<SelectUser, Error, string>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<RegisterResult, Error, InsertUser>;
 };
 
 type LoginData = {
@@ -22,6 +23,12 @@ type LoginData = {
   password: string;
 };
 
+// New accounts confirm their email address before they can log in
+type RegisterResult = { verificationRequired: true; email: string };
+
+// Accounts with two-factor auth get a second step instead of a session
+type LoginResult = SelectUser | { twoFactorRequired: true };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -40,6 +47,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: LoginResult) => {
+      if ("twoFactorRequired" in result) return;
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Welcome back!",
+        description: "Successfully logged in.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/2fa", { code });
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
@@ -49,7 +78,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -61,11 +90,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: RegisterResult) => {
       toast({
         title: "Welcome to 0XCTF25!",
-        description: "Account created successfully.",
+        description: `Account created. Check ${result.email} for a link to confirm your address.`,
       });
     },
     onError: (error: Error) => {
@@ -104,6 +132,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { LIVE_UPDATES_PATH, type LiveMessage, type LiveSolve } from "@shared/live";
+
+// Reconnect delay doubles after each failed attempt, up to the maximum
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Refetches triggered by a burst of messages are batched into one, at a random point in
+// the window so every connected client doesn't hit the server at the same moment
+const REFETCH_DELAY_MIN_MS = 2000;
+const REFETCH_DELAY_JITTER_MS = 3000;
+
+type LiveListener = (message: LiveMessage) => void;
+const listeners = new Set<LiveListener>();
+
+function isLeaderboardQuery(key: unknown) {
+  return typeof key === "string" && key.includes("/leaderboard");
+}
+
+type Refetch = "leaderboards" | "challenges" | "stats" | "users";
+
+const REFETCHES: Record<Refetch, () => void> = {
+  leaderboards: () => queryClient.invalidateQueries({ predicate: (query) => isLeaderboardQuery(query.queryKey[0]) }),
+  challenges: () => queryClient.invalidateQueries({ queryKey: ["/api/challenges"] }),
+  stats: () => queryClient.invalidateQueries({ queryKey: ["/api/stats"] }),
+  users: () => queryClient.invalidateQueries({ queryKey: ["/api/users"] }),
+};
+
+const pendingRefetches = new Set<Refetch>();
+let refetchTimer: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleRefetch(...refetches: Refetch[]) {
+  refetches.forEach((refetch) => pendingRefetches.add(refetch));
+  if (refetchTimer) return;
+  refetchTimer = setTimeout(() => {
+    refetchTimer = undefined;
+    const due = Array.from(pendingRefetches);
+    pendingRefetches.clear();
+    due.forEach((refetch) => REFETCHES[refetch]());
+  }, REFETCH_DELAY_MIN_MS + Math.random() * REFETCH_DELAY_JITTER_MS);
+}
+
+// Solves carry the challenge's new count and value, so cached challenges are patched in place
+function applySolveToChallenge(challenge: any, solve: LiveSolve) {
+  if (!challenge || challenge.id !== solve.challengeId || !("solveCount" in challenge)) return challenge;
+  return {
+    ...challenge,
+    solveCount: Math.max(challenge.solveCount, solve.solveCount),
+    points: solve.challengePoints,
+    firstBlood: challenge.firstBlood ?? (solve.firstBlood ? { userId: solve.userId, username: solve.username, solvedAt: solve.solvedAt } : null),
+  };
+}
+
+// Queries are cached forever (staleTime: Infinity), so pushed changes update or invalidate what they touch
+function applyMessage(message: LiveMessage) {
+  switch (message.type) {
+    case "solve":
+      queryClient.setQueriesData({ queryKey: ["/api/challenges"] }, (data: unknown) =>
+        Array.isArray(data) ? data.map((challenge) => applySolveToChallenge(challenge, message.solve)) : applySolveToChallenge(data, message.solve),
+      );
+      // A teammate's solve also changes what the player has solved
+      scheduleRefetch("leaderboards", "stats", "users");
+      if (message.solve.firstBlood) {
+        toast({
+          title: "First Blood!",
+          description: `${message.solve.teamName ?? message.solve.username} was the first to solve ${message.solve.challengeTitle}`,
+        });
+      }
+      break;
+    case "scoreboard":
+      scheduleRefetch("leaderboards", "stats");
+      break;
+    case "challenges":
+      scheduleRefetch("challenges", "stats");
+      break;
+    case "announcements":
+      queryClient.invalidateQueries({ queryKey: ["/api/announcements"] });
+      break;
+    case "clarifications":
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges", message.challengeId, "clarifications"] });
+      break;
+    case "tickets":
+      queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "/api/tickets" || query.queryKey[2] === "tickets" });
+      break;
+  }
+}
+
+/**
+ * Keeps a WebSocket to the server open while mounted and refreshes cached
+ * scoreboards and challenges as updates arrive. Mount it once, near the root.
+ */
+export function useLiveUpdates() {
+  useEffect(() => {
+    let socket: WebSocket | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let delay = RECONNECT_MIN_MS;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${LIVE_UPDATES_PATH}`);
+
+      socket.onopen = () => {
+        delay = RECONNECT_MIN_MS;
+      };
+      socket.onmessage = (event) => {
+        let message: LiveMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        applyMessage(message);
+        listeners.forEach((listener) => listener(message));
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        retryTimer = setTimeout(connect, delay);
+        delay = Math.min(delay * 2, RECONNECT_MAX_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, []);
+}
+
+/** Solves seen since the component mounted, newest first. */
+export function useLiveSolves(limit = 10): LiveSolve[] {
+  const [solves, setSolves] = useState<LiveSolve[]>([]);
+
+  useEffect(() => {
+    const listener: LiveListener = (message) => {
+      if (message.type === "solve") {
+        setSolves((current) => [message.solve, ...current].slice(0, limit));
+      }
+    };
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, [limit]);
+
+  return solves;
+}
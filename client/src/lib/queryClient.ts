@@ -7,6 +7,20 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Mirrors server/csrf.ts: the server sets the cookie, state-changing requests echo it in the header
+const CSRF_COOKIE = "XSRF-TOKEN";
+const CSRF_HEADER = "X-CSRF-Token";
+
+function getCsrfToken(): string {
+  const match = document.cookie.split("; ").find((part) => part.startsWith(`${CSRF_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(CSRF_COOKIE.length + 1)) : "";
+}
+
+/** Headers every non-GET request needs; use with fetch for requests apiRequest can't make, like file uploads. */
+export function csrfHeaders(): Record<string, string> {
+  return { [CSRF_HEADER]: getCsrfToken() };
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -14,7 +28,7 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...csrfHeaders() } : csrfHeaders(),
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -1,15 +1,80 @@
 import { useEffect, useState } from "react";
+import { Link } from "wouter";
 import { Header } from "@/components/header";
+import { AnnouncementManager } from "@/components/announcement-manager";
+import { ArtifactReview } from "@/components/artifact-review";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { csrfHeaders } from "@/lib/queryClient";
 
 type Challenge = any;
 
+interface AdminEvent {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  status: "upcoming" | "running" | "ended";
+  challengesPublishedAt: string | null;
+}
+
+interface FlagSharingIncident {
+  id: string;
+  challengeTitle: string;
+  username: string;
+  ownerUsername: string | null;
+  ownerTeamName: string | null;
+  flagAttempt: string | null;
+  createdAt: string;
+}
+
+interface OpenTicket {
+  id: string;
+  challengeId: string;
+  challengeTitle: string;
+  username: string;
+  updatedAt: string;
+}
+
+interface RateLimitLockout {
+  key: string;
+  strikes: number;
+  lockedUntil: string;
+}
+
+const emptyEventForm = {
+  name: '',
+  description: '',
+  startsAt: '',
+  endsAt: '',
+  registrationOpensAt: '',
+  registrationClosesAt: '',
+};
+
+interface ScoreDrift {
+  userId: string;
+  username: string;
+  storedScore: number;
+  ledgerScore: number;
+}
+
 export default function AdminPage() {
   const { toast } = useToast();
   const [challenges, setChallenges] = useState<Challenge[]>([]);
   const [loading, setLoading] = useState(false);
+  const [scoreDrift, setScoreDrift] = useState<ScoreDrift[] | null>(null);
+  const [events, setEvents] = useState<AdminEvent[]>([]);
+  const [eventForm, setEventForm] = useState(emptyEventForm);
+  const [sharingIncidents, setSharingIncidents] = useState<FlagSharingIncident[]>([]);
+  const [lockouts, setLockouts] = useState<RateLimitLockout[]>([]);
+  const [openTickets, setOpenTickets] = useState<OpenTicket[]>([]);
+  const [freezeScope, setFreezeScope] = useState('global');
+  const [freezesAt, setFreezesAt] = useState('');
 
   const fetchChallenges = async () => {
     setLoading(true);
@@ -25,11 +90,95 @@ export default function AdminPage() {
     }
   };
 
-  useEffect(() => { fetchChallenges(); }, []);
+  const fetchEvents = async () => {
+    try {
+      const res = await fetch('/api/events', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch events');
+      setEvents(await res.json());
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const fetchSharingIncidents = async () => {
+    try {
+      const res = await fetch('/api/admin/flag-sharing', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch flag sharing incidents');
+      setSharingIncidents(await res.json());
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const fetchLockouts = async () => {
+    try {
+      const res = await fetch('/api/admin/rate-limits', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch rate limit lockouts');
+      setLockouts(await res.json());
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const fetchOpenTickets = async () => {
+    try {
+      const res = await fetch('/api/tickets?status=open', { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch clarification tickets');
+      setOpenTickets(await res.json());
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const liftLockout = async (key: string) => {
+    try {
+      const res = await fetch(`/api/admin/rate-limits/${encodeURIComponent(key)}`, { method: 'DELETE', headers: csrfHeaders(), credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to lift lockout');
+      toast({ title: 'Lockout Lifted', description: key });
+      fetchLockouts();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  useEffect(() => { fetchChallenges(); fetchEvents(); fetchSharingIncidents(); fetchLockouts(); fetchOpenTickets(); }, []);
+
+  const createEvent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      // datetime-local inputs are in the admin's local time; send absolute timestamps
+      const toIso = (value: string) => (value ? new Date(value).toISOString() : null);
+      const res = await fetch('/api/admin/events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+        credentials: 'include',
+        body: JSON.stringify({
+          name: eventForm.name,
+          description: eventForm.description || null,
+          startsAt: toIso(eventForm.startsAt),
+          endsAt: toIso(eventForm.endsAt),
+          registrationOpensAt: toIso(eventForm.registrationOpensAt),
+          registrationClosesAt: toIso(eventForm.registrationClosesAt),
+        }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.errors?.[0]?.message || error.message || 'Failed to create event');
+      }
+      toast({ title: 'Event Created', description: `${eventForm.name} has been scheduled` });
+      setEventForm(emptyEventForm);
+      fetchEvents();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const publish = async (id: string) => {
     try {
-      const res = await fetch(`/api/admin/challenges/${id}/publish`, { method: 'POST', credentials: 'include' });
+      const res = await fetch(`/api/admin/challenges/${id}/publish`, { method: 'POST', headers: csrfHeaders(), credentials: 'include' });
       if (!res.ok) throw new Error('Failed to publish');
       toast({ title: 'Published', description: 'Challenge is now live' });
       fetchChallenges();
@@ -40,7 +189,7 @@ export default function AdminPage() {
 
   const unpublish = async (id: string) => {
     try {
-      const res = await fetch(`/api/admin/challenges/${id}/unpublish`, { method: 'POST', credentials: 'include' });
+      const res = await fetch(`/api/admin/challenges/${id}/unpublish`, { method: 'POST', headers: csrfHeaders(), credentials: 'include' });
       if (!res.ok) throw new Error('Failed to unpublish');
       toast({ title: 'Unpublished', description: 'Challenge is now hidden' });
       fetchChallenges();
@@ -71,6 +220,7 @@ export default function AdminPage() {
         if (!challenge.published) {
           const res = await fetch(`/api/admin/challenges/${challenge.id}/publish`, { 
             method: 'POST', 
+            headers: csrfHeaders(),
             credentials: 'include' 
           });
           if (res.ok) {
@@ -90,6 +240,56 @@ export default function AdminPage() {
     }
   };
 
+  const recomputeScores = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/scores/recompute', { method: 'POST', headers: csrfHeaders(), credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to recompute scores');
+      const data = await res.json();
+      setScoreDrift(data.drift);
+      toast({
+        title: 'Scores Recomputed',
+        description: `Checked ${data.checked} user(s), corrected ${data.drift.length}`,
+      });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setScoreboardFreeze = async (action: 'freeze' | 'unfreeze') => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/scoreboard/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+        credentials: 'include',
+        body: JSON.stringify({
+          eventId: freezeScope === 'global' ? null : freezeScope,
+          // Leaving the time empty freezes immediately
+          ...(action === 'freeze' && freezesAt ? { freezesAt: new Date(freezesAt).toISOString() } : {}),
+        }),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || `Failed to ${action} scoreboard`);
+      }
+      const status = await res.json();
+      toast({
+        title: action === 'freeze' ? 'Scoreboard Frozen' : 'Scoreboard Unfrozen',
+        description: action === 'freeze'
+          ? `Public standings freeze at ${new Date(status.freezesAt).toLocaleString()}`
+          : 'Final standings are now public',
+      });
+      setFreezesAt('');
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <Header />
@@ -99,16 +299,259 @@ export default function AdminPage() {
             <h1 className="text-3xl font-bold gradient-text terminal-cursor mb-2">Admin Dashboard</h1>
             <p className="text-muted-foreground">Manage challenges and publication</p>
           </div>
-          <Button 
-            onClick={publishAll} 
-            disabled={loading || challenges.every(c => c.published)}
-            className="hover-glow"
-            data-testid="button-publish-all"
-          >
-            Publish All
-          </Button>
+          <div className="flex gap-2">
+            <Link href="/admin/anticheat">
+              <Button variant="outline" data-testid="link-anticheat">Anti-Cheat Report</Button>
+            </Link>
+            <Link href="/admin/moderation">
+              <Button variant="outline" data-testid="link-moderation">Moderation Queue</Button>
+            </Link>
+            <Link href="/admin/import">
+              <Button variant="outline" data-testid="link-import">Import Challenges</Button>
+            </Link>
+            <a href="/api/admin/export/ctfd" download>
+              <Button variant="outline" data-testid="link-export-ctfd">Export (CTFd)</Button>
+            </a>
+            <Button
+              variant="outline"
+              onClick={recomputeScores}
+              disabled={loading}
+              data-testid="button-recompute-scores"
+            >
+              Recompute Scores
+            </Button>
+            <Button 
+              onClick={publishAll} 
+              disabled={loading || challenges.every(c => c.published)}
+              className="hover-glow"
+              data-testid="button-publish-all"
+            >
+              Publish All
+            </Button>
+          </div>
         </div>
 
+        {scoreDrift && scoreDrift.length > 0 && (
+          <Card className="neon-border mb-8" data-testid="score-drift">
+            <CardHeader>
+              <CardTitle>Score Drift Corrected</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2 text-sm">
+                {scoreDrift.map((d) => (
+                  <div key={d.userId} className="flex justify-between">
+                    <span>{d.username}</span>
+                    <span className="font-mono text-muted-foreground">
+                      {d.storedScore} → <span className="text-primary">{d.ledgerScore}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {sharingIncidents.length > 0 && (
+          <Card className="neon-border mb-8" data-testid="flag-sharing-incidents">
+            <CardHeader>
+              <CardTitle>Flag Sharing Incidents</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2 text-sm">
+                {sharingIncidents.map((incident) => (
+                  <div key={incident.id} className="flex justify-between gap-4" data-testid={`row-incident-${incident.id}`}>
+                    <span>
+                      <span className="text-primary">{incident.username}</span> submitted the flag of{' '}
+                      <span className="text-primary">{incident.ownerUsername ?? `team ${incident.ownerTeamName ?? '(disbanded)'}`}</span>{' '}
+                      on {incident.challengeTitle}
+                    </span>
+                    <span className="font-mono text-muted-foreground">
+                      {new Date(incident.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {lockouts.length > 0 && (
+          <Card className="neon-border mb-8" data-testid="rate-limit-lockouts">
+            <CardHeader>
+              <CardTitle>Rate Limit Lockouts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2 text-sm">
+                {lockouts.map((lockout) => (
+                  <div key={lockout.key} className="flex items-center justify-between gap-4" data-testid={`row-lockout-${lockout.key}`}>
+                    <span className="font-mono">{lockout.key}</span>
+                    <span className="text-muted-foreground">
+                      {lockout.strikes} strike{lockout.strikes === 1 ? '' : 's'}, locked until {new Date(lockout.lockedUntil).toLocaleTimeString()}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => liftLockout(lockout.key)}>Lift</Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {openTickets.length > 0 && (
+          <Card className="neon-border mb-8" data-testid="open-tickets">
+            <CardHeader>
+              <CardTitle>Unanswered Questions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2 text-sm">
+                {openTickets.map((ticket) => (
+                  <div key={ticket.id} className="flex justify-between" data-testid={`row-ticket-${ticket.id}`}>
+                    <span>
+                      <Link href={`/challenge/${ticket.challengeId}`}>
+                        <span className="hover:text-primary cursor-pointer">{ticket.challengeTitle}</span>
+                      </Link>
+                      <span className="text-muted-foreground ml-2">from {ticket.username}</span>
+                    </span>
+                    <span className="font-mono text-muted-foreground">{new Date(ticket.updatedAt).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <ArtifactReview />
+
+        <AnnouncementManager challenges={challenges} />
+
+        <Card className="neon-border mb-8" data-testid="admin-scoreboard-freeze">
+          <CardHeader>
+            <CardTitle>Scoreboard Freeze</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col md:flex-row md:items-end gap-4">
+            <div>
+              <Label>Scoreboard</Label>
+              <Select value={freezeScope} onValueChange={setFreezeScope}>
+                <SelectTrigger className="w-48 mt-1" data-testid="select-freeze-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="global">Global</SelectItem>
+                  {events.map((ev) => (
+                    <SelectItem key={ev.id} value={ev.id}>{ev.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="freezes-at">Freeze At (empty for now)</Label>
+              <Input
+                id="freezes-at"
+                type="datetime-local"
+                className="mt-1"
+                value={freezesAt}
+                onChange={(e) => setFreezesAt(e.target.value)}
+                data-testid="input-freezes-at"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={() => setScoreboardFreeze('freeze')} disabled={loading} data-testid="button-freeze">
+                Freeze
+              </Button>
+              <Button variant="outline" onClick={() => setScoreboardFreeze('unfreeze')} disabled={loading} data-testid="button-unfreeze">
+                Unfreeze
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="neon-border mb-8" data-testid="admin-events">
+          <CardHeader>
+            <CardTitle>Events</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {events.length > 0 && (
+              <div className="space-y-2 text-sm">
+                {events.map((ev) => (
+                  <div key={ev.id} className="flex justify-between" data-testid={`row-event-${ev.id}`}>
+                    <span>
+                      {ev.name} <span className="text-muted-foreground ml-2">{ev.status}</span>
+                    </span>
+                    <span className="font-mono text-muted-foreground">
+                      {new Date(ev.startsAt).toLocaleString()} → {new Date(ev.endsAt).toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <form onSubmit={createEvent} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <Label htmlFor="event-name">Name</Label>
+                <Input
+                  id="event-name"
+                  value={eventForm.name}
+                  onChange={(e) => setEventForm({ ...eventForm, name: e.target.value })}
+                  required
+                  data-testid="input-event-name"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="event-description">Description</Label>
+                <Textarea
+                  id="event-description"
+                  value={eventForm.description}
+                  onChange={(e) => setEventForm({ ...eventForm, description: e.target.value })}
+                  data-testid="input-event-description"
+                />
+              </div>
+              <div>
+                <Label htmlFor="event-starts">Starts</Label>
+                <Input
+                  id="event-starts"
+                  type="datetime-local"
+                  value={eventForm.startsAt}
+                  onChange={(e) => setEventForm({ ...eventForm, startsAt: e.target.value })}
+                  required
+                  data-testid="input-event-starts"
+                />
+              </div>
+              <div>
+                <Label htmlFor="event-ends">Ends</Label>
+                <Input
+                  id="event-ends"
+                  type="datetime-local"
+                  value={eventForm.endsAt}
+                  onChange={(e) => setEventForm({ ...eventForm, endsAt: e.target.value })}
+                  required
+                  data-testid="input-event-ends"
+                />
+              </div>
+              <div>
+                <Label htmlFor="event-registration-opens">Registration Opens (optional)</Label>
+                <Input
+                  id="event-registration-opens"
+                  type="datetime-local"
+                  value={eventForm.registrationOpensAt}
+                  onChange={(e) => setEventForm({ ...eventForm, registrationOpensAt: e.target.value })}
+                  data-testid="input-event-registration-opens"
+                />
+              </div>
+              <div>
+                <Label htmlFor="event-registration-closes">Registration Closes (optional)</Label>
+                <Input
+                  id="event-registration-closes"
+                  type="datetime-local"
+                  value={eventForm.registrationClosesAt}
+                  onChange={(e) => setEventForm({ ...eventForm, registrationClosesAt: e.target.value })}
+                  data-testid="input-event-registration-closes"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Button type="submit" disabled={loading} data-testid="button-create-event">Create Event</Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
         <div className="grid grid-cols-1 gap-4">
           {challenges.map((c) => (
             <Card key={c.id} className="neon-border">
@@ -0,0 +1,380 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Header } from "@/components/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Ban, Gauge, Network, Copy, FileX } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface AccountRef {
+  userId: string;
+  username: string;
+}
+
+interface AntiCheatReport {
+  sharedIps: Array<{ ipAddress: string; accounts: Array<AccountRef & { submissionCount: number }> }>;
+  identicalWrongFlags: Array<{
+    challengeId: string;
+    challengeTitle: string;
+    flagAttempt: string;
+    accounts: AccountRef[];
+    firstAt: string;
+    lastAt: string;
+  }>;
+  fastSolves: Array<AccountRef & { solveCount: number; windowSeconds: number; challenges: string[]; startedAt: string }>;
+  solvesWithoutDownload: Array<AccountRef & { challengeId: string; challengeTitle: string; solvedAt: string }>;
+}
+
+interface UserSubmissions {
+  user: { id: string; username: string; score: number; bannedAt: string | null; banReason: string | null };
+  submissions: Array<{
+    id: string;
+    challengeTitle: string;
+    flagAttempt: string;
+    isCorrect: boolean;
+    ipAddress: string | null;
+    userAgent: string | null;
+    submittedAt: string;
+  }>;
+}
+
+interface UserSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+}
+
+function AccountLink({ account, onSelect }: { account: AccountRef; onSelect: (userId: string) => void }) {
+  return (
+    <button
+      type="button"
+      className="text-primary hover:underline mr-2"
+      onClick={() => onSelect(account.userId)}
+      data-testid={`link-account-${account.userId}`}
+    >
+      {account.username}
+    </button>
+  );
+}
+
+function UserDrillDown({ userId, onClose }: { userId: string; onClose: () => void }) {
+  const { toast } = useToast();
+  const [penaltyPoints, setPenaltyPoints] = useState(50);
+  const [reason, setReason] = useState("");
+
+  const { data, isLoading } = useQuery<UserSubmissions>({
+    queryKey: ["/api/admin/users", userId, "submissions"],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/users/${userId}/submissions`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch submissions");
+      return res.json();
+    },
+  });
+
+  const { data: sessions } = useQuery<UserSession[]>({
+    queryKey: ["/api/admin/users", userId, "sessions"],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/users/${userId}/sessions`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch sessions");
+      return res.json();
+    },
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("DELETE", `/api/admin/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Session Revoked", description: data?.user.username });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users", userId, "sessions"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users", userId, "submissions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/anticheat"] });
+  };
+
+  const banMutation = useMutation({
+    mutationFn: async (ban: boolean) => {
+      await apiRequest(ban ? "POST" : "DELETE", `/api/admin/users/${userId}/ban`, ban ? { reason } : undefined);
+    },
+    onSuccess: (_, ban) => {
+      toast({ title: ban ? "Player Banned" : "Ban Lifted", description: data?.user.username });
+      setReason("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const penaltyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/users/${userId}/score-events`, { type: "penalty", points: penaltyPoints, reason });
+    },
+    onSuccess: () => {
+      toast({ title: "Penalty Applied", description: `${penaltyPoints} points deducted from ${data?.user.username}` });
+      setReason("");
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {data?.user.username ?? "Player"}
+            {data?.user.bannedAt && <Badge variant="destructive">Banned</Badge>}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto] gap-3 items-end">
+              <div>
+                <Label htmlFor="action-reason">Reason</Label>
+                <Input
+                  id="action-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={data.user.banReason ?? "Shared flags with another team"}
+                  className="mt-1"
+                  data-testid="input-action-reason"
+                />
+              </div>
+              <div>
+                <Label htmlFor="penalty-points">Points</Label>
+                <Input
+                  id="penalty-points"
+                  type="number"
+                  min="1"
+                  value={penaltyPoints}
+                  onChange={(e) => setPenaltyPoints(parseInt(e.target.value) || 0)}
+                  className="mt-1 w-24"
+                  data-testid="input-penalty-points"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => penaltyMutation.mutate()}
+                disabled={!reason || penaltyPoints <= 0 || penaltyMutation.isPending}
+                data-testid="button-apply-penalty"
+              >
+                Apply Penalty
+              </Button>
+              {data.user.bannedAt ? (
+                <Button
+                  variant="outline"
+                  onClick={() => banMutation.mutate(false)}
+                  disabled={banMutation.isPending}
+                  data-testid="button-unban"
+                >
+                  Lift Ban
+                </Button>
+              ) : (
+                <Button
+                  variant="destructive"
+                  onClick={() => banMutation.mutate(true)}
+                  disabled={!reason || banMutation.isPending}
+                  data-testid="button-ban"
+                >
+                  <Ban className="w-4 h-4 mr-1" />
+                  Ban
+                </Button>
+              )}
+            </div>
+
+            {sessions && sessions.length > 0 && (
+              <div className="space-y-2 text-sm">
+                <h3 className="font-semibold">Active Sessions</h3>
+                {sessions.map((session) => (
+                  <div key={session.id} className="flex items-center justify-between gap-4" data-testid={`row-session-${session.id}`}>
+                    <span className="font-mono w-36 shrink-0">{session.ipAddress}</span>
+                    <span className="text-xs text-muted-foreground flex-1 truncate">{session.userAgent}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">{new Date(session.lastSeenAt).toLocaleString()}</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revokeSessionMutation.mutate(session.id)}
+                      disabled={revokeSessionMutation.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Challenge</TableHead>
+                  <TableHead>Attempt</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead>User Agent</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.submissions.map((submission) => (
+                  <TableRow key={submission.id} data-testid={`row-submission-${submission.id}`}>
+                    <TableCell className="whitespace-nowrap">{new Date(submission.submittedAt).toLocaleString()}</TableCell>
+                    <TableCell>{submission.challengeTitle}</TableCell>
+                    <TableCell className={`font-mono ${submission.isCorrect ? "text-green-400" : "text-muted-foreground"}`}>
+                      {submission.flagAttempt}
+                    </TableCell>
+                    <TableCell className="font-mono">{submission.ipAddress}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-48 truncate">{submission.userAgent}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AntiCheatPage() {
+  const [selectedUser, setSelectedUser] = useState<string | null>(null);
+
+  const { data: report, isLoading } = useQuery<AntiCheatReport>({
+    queryKey: ["/api/admin/anticheat"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/anticheat", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch anti-cheat report");
+      return res.json();
+    },
+  });
+
+  const empty = <p className="text-sm text-muted-foreground">Nothing suspicious found.</p>;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <Header />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="mb-2">
+          <h1 className="text-3xl font-bold gradient-text terminal-cursor mb-2">Anti-Cheat Report</h1>
+          <p className="text-muted-foreground">Suspicious activity found in submissions, solves and downloads</p>
+        </div>
+
+        {isLoading || !report ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <>
+            <Card className="neon-border" data-testid="report-shared-ips">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Network className="w-5 h-5 text-primary" />
+                  Shared IP Addresses
+                  <Badge variant="outline">{report.sharedIps.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {report.sharedIps.length === 0 ? empty : report.sharedIps.map((group) => (
+                  <div key={group.ipAddress} className="flex gap-4">
+                    <span className="font-mono w-40 shrink-0">{group.ipAddress}</span>
+                    <span>
+                      {group.accounts.map((account) => (
+                        <AccountLink key={account.userId} account={account} onSelect={setSelectedUser} />
+                      ))}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="neon-border" data-testid="report-identical-flags">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Copy className="w-5 h-5 text-primary" />
+                  Identical Wrong Flags
+                  <Badge variant="outline">{report.identicalWrongFlags.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {report.identicalWrongFlags.length === 0 ? empty : report.identicalWrongFlags.map((finding, index) => (
+                  <div key={index} className="flex flex-col md:flex-row md:gap-4">
+                    <span className="w-48 shrink-0">{finding.challengeTitle}</span>
+                    <span className="font-mono text-muted-foreground flex-1 truncate">{finding.flagAttempt}</span>
+                    <span>
+                      {finding.accounts.map((account) => (
+                        <AccountLink key={account.userId} account={account} onSelect={setSelectedUser} />
+                      ))}
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">{new Date(finding.firstAt).toLocaleString()}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="neon-border" data-testid="report-fast-solves">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Gauge className="w-5 h-5 text-primary" />
+                  Implausibly Fast Solves
+                  <Badge variant="outline">{report.fastSolves.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {report.fastSolves.length === 0 ? empty : report.fastSolves.map((finding) => (
+                  <div key={finding.userId} className="flex flex-col md:flex-row md:gap-4">
+                    <span className="w-40 shrink-0">
+                      <AccountLink account={finding} onSelect={setSelectedUser} />
+                    </span>
+                    <span className="flex-1">
+                      {finding.solveCount} solves in {finding.windowSeconds}s: {finding.challenges.join(", ")}
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">{new Date(finding.startedAt).toLocaleString()}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="neon-border" data-testid="report-no-download">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileX className="w-5 h-5 text-primary" />
+                  Solves Without Downloading Files
+                  <Badge variant="outline">{report.solvesWithoutDownload.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {report.solvesWithoutDownload.length === 0 ? empty : report.solvesWithoutDownload.map((finding) => (
+                  <div key={`${finding.userId}-${finding.challengeId}`} className="flex flex-col md:flex-row md:gap-4">
+                    <span className="w-40 shrink-0">
+                      <AccountLink account={finding} onSelect={setSelectedUser} />
+                    </span>
+                    <span className="flex-1">{finding.challengeTitle}</span>
+                    <span className="text-muted-foreground whitespace-nowrap">{new Date(finding.solvedAt).toLocaleString()}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {selectedUser && <UserDrillDown userId={selectedUser} onClose={() => setSelectedUser(null)} />}
+      </main>
+    </div>
+  );
+}
@@ -5,11 +5,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Redirect } from "wouter";
+import { Redirect, Link } from "wouter";
 import { Shield, Terminal, Code, Flag } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -26,8 +28,10 @@ type LoginForm = z.infer<typeof loginSchema>;
 type RegisterForm = z.infer<typeof registerSchema>;
 
 export default function AuthPage() {
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, twoFactorMutation, registerMutation } = useAuth();
   const [activeTab, setActiveTab] = useState("login");
+  const [code, setCode] = useState("");
+  const { toast } = useToast();
 
   const loginForm = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -56,7 +60,34 @@ export default function AuthPage() {
   };
 
   const onRegister = (data: RegisterForm) => {
-    registerMutation.mutate(data);
+    registerMutation.mutate(data, {
+      onSuccess: () => {
+        setActiveTab("login");
+        loginForm.setValue("email", data.email);
+      },
+    });
+  };
+
+  const resendVerification = async () => {
+    const email = loginForm.getValues("email");
+    if (!email) {
+      toast({ title: "Enter your email", description: "Fill in the email you registered with first.", variant: "destructive" });
+      return;
+    }
+    try {
+      const res = await apiRequest("POST", "/api/email-verification/request", { email });
+      const { message } = await res.json();
+      toast({ title: "Verification Email", description: message });
+    } catch (error: any) {
+      toast({ title: "Request failed", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const awaitingCode = !!loginMutation.data && "twoFactorRequired" in loginMutation.data;
+
+  const onVerifyCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    twoFactorMutation.mutate(code.trim());
   };
 
   return (
@@ -67,10 +98,51 @@ export default function AuthPage() {
           <CardHeader className="text-center">
             <CardTitle className="text-2xl gradient-text mb-2">0XCTF25</CardTitle>
             <p className="text-muted-foreground text-sm">
-              {activeTab === "login" ? "Welcome back, hacker" : "Join the community"}
+              {awaitingCode ? "Two-factor authentication" : activeTab === "login" ? "Welcome back, hacker" : "Join the community"}
             </p>
           </CardHeader>
           <CardContent>
+            {awaitingCode ? (
+              <form onSubmit={onVerifyCode} className="space-y-4" data-testid="form-two-factor">
+                <div>
+                  <Label htmlFor="two-factor-code">Authentication Code</Label>
+                  <Input
+                    id="two-factor-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456 or a recovery code"
+                    className="mt-1 font-mono"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    data-testid="input-two-factor-code"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Enter the code from your authenticator app, or one of your recovery codes.
+                  </p>
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full hover-glow"
+                  disabled={!code.trim() || twoFactorMutation.isPending}
+                  data-testid="button-verify-code"
+                >
+                  {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="w-full"
+                  onClick={() => {
+                    loginMutation.reset();
+                    setCode("");
+                  }}
+                  data-testid="button-back-to-login"
+                >
+                  Back to login
+                </Button>
+              </form>
+            ) : (
             <Tabs value={activeTab} onValueChange={setActiveTab}>
               <TabsList className="grid w-full grid-cols-2 mb-6">
                 <TabsTrigger value="login" data-testid="tab-login">Login</TabsTrigger>
@@ -119,6 +191,15 @@ export default function AuthPage() {
                   >
                     {loginMutation.isPending ? "Logging in..." : "Login"}
                   </Button>
+
+                  <div className="flex justify-between text-sm">
+                    <Link href="/forgot-password" className="text-primary hover:underline" data-testid="link-forgot-password">
+                      Forgot password?
+                    </Link>
+                    <button type="button" onClick={resendVerification} className="text-muted-foreground hover:text-primary" data-testid="button-resend-verification">
+                      Resend verification email
+                    </button>
+                  </div>
                 </form>
               </TabsContent>
 
@@ -183,6 +264,7 @@ export default function AuthPage() {
                 </form>
               </TabsContent>
             </Tabs>
+            )}
           </CardContent>
         </Card>
       </div>
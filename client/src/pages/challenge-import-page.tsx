@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Header } from "@/components/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileUp, FolderOpen } from "lucide-react";
+import { csrfHeaders, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ImportAction = "create" | "update" | "unchanged" | "invalid";
+
+interface ImportEntry {
+  file: string;
+  externalId?: string;
+  title?: string;
+  challengeId?: string;
+  action: ImportAction;
+  changes: Array<{ field: string; from: string; to: string }>;
+  errors: string[];
+  outcome?: "applied" | "failed";
+}
+
+interface ImportResult {
+  applied: boolean;
+  challenges: ImportEntry[];
+}
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: "bg-green-500/20 text-green-400",
+  update: "bg-yellow-500/20 text-yellow-400",
+  unchanged: "bg-muted text-muted-foreground",
+  invalid: "bg-red-500/20 text-red-400",
+};
+
+interface CtfdImportResult {
+  imported: Array<{ id: string; title: string }>;
+  report: Array<{ record: string; field: string; message: string }>;
+}
+
+function CtfdImportCard() {
+  const { toast } = useToast();
+  const [backup, setBackup] = useState<File | null>(null);
+  const [result, setResult] = useState<CtfdImportResult | null>(null);
+
+  const ctfdMutation = useMutation({
+    mutationFn: async (): Promise<CtfdImportResult> => {
+      const formData = new FormData();
+      formData.append("archive", backup!);
+      const res = await fetch("/api/admin/import/ctfd", {
+        method: "POST",
+        headers: csrfHeaders(),
+        body: formData,
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || "Failed to import CTFd backup");
+      return data;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      toast({ title: "CTFd Backup Imported", description: `${data.imported.length} challenges created.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/challenges"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="neon-border" data-testid="ctfd-import">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-primary">Import from CTFd</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Creates challenges with their flags, hints and files from a CTFd backup zip. Users, teams and solves stay behind,
+          and anything that doesn't fit is listed below.
+        </p>
+        <div className="flex gap-2">
+          <Input
+            type="file"
+            accept=".zip"
+            onChange={(e) => {
+              setBackup(e.target.files?.[0] ?? null);
+              setResult(null);
+            }}
+            data-testid="input-ctfd-backup"
+          />
+          <Button onClick={() => ctfdMutation.mutate()} disabled={!backup || ctfdMutation.isPending} data-testid="button-import-ctfd">
+            Import
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Created {result.imported.length} challenge{result.imported.length === 1 ? "" : "s"}
+              {result.imported.length > 0 && `: ${result.imported.map(challenge => challenge.title).join(", ")}`}
+            </p>
+            {result.report.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Not mapped</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.report.map((entry, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{entry.record}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.field}</TableCell>
+                      <TableCell className="text-sm">{entry.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const EXAMPLE_SPEC = `id: warmup-rsa
+title: Warmup RSA
+category: Cryptography
+difficulty: easy
+points: 100
+description_file: README.md
+flags:
+  - CTF{small_e_is_bad}
+hints:
+  - { text: Look at the exponent, cost: 10 }
+artifacts: [files/output.txt]
+published: false`;
+
+export default function ChallengeImportPage() {
+  const { toast } = useToast();
+  const [archive, setArchive] = useState<File | null>(null);
+  const [directory, setDirectory] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  // Both the preview and the real import send the same source; the server re-checks it each time
+  const importMutation = useMutation({
+    mutationFn: async (apply: boolean): Promise<ImportResult> => {
+      const formData = new FormData();
+      if (archive) {
+        formData.append("archive", archive);
+      } else {
+        formData.append("directory", directory);
+      }
+      formData.append("apply", String(apply));
+
+      const res = await fetch("/api/admin/challenges/import", {
+        method: "POST",
+        headers: csrfHeaders(),
+        body: formData,
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message || "Failed to import challenges");
+      return data;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.applied) {
+        const failed = data.challenges.filter(entry => entry.outcome === "failed").length;
+        if (failed > 0) {
+          toast({ title: "Import Incomplete", description: `${failed} challenge${failed === 1 ? " was" : "s were"} not imported and left as before.`, variant: "destructive" });
+        } else {
+          toast({ title: "Challenges Imported", description: "Every change in the preview has been applied." });
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/challenges"] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hasSource = !!archive || !!directory.trim();
+  const pending = result && !result.applied ? result.challenges.filter(entry => entry.action === "create" || entry.action === "update") : [];
+  const invalid = result?.challenges.some(entry => entry.action === "invalid") ?? false;
+
+  const changeSource = () => setResult(null);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <Header />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="mb-2">
+          <h1 className="text-3xl font-bold gradient-text terminal-cursor mb-2">Import Challenges</h1>
+          <p className="text-muted-foreground">
+            Create and update challenges from <span className="font-mono">challenge.yml</span> directories.
+            Challenges are matched by their <span className="font-mono">id</span>, so importing again updates them.
+          </p>
+        </div>
+
+        <Card className="neon-border">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold text-primary">Source</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-6">
+              <div>
+                <Label htmlFor="import-archive" className="flex items-center gap-2">
+                  <FileUp className="w-4 h-4" /> Upload an archive (.tar, .tar.gz, .tgz)
+                </Label>
+                <Input
+                  id="import-archive"
+                  type="file"
+                  accept=".tar,.tgz,.gz"
+                  className="mt-1"
+                  onChange={(e) => {
+                    setArchive(e.target.files?.[0] ?? null);
+                    changeSource();
+                  }}
+                  data-testid="input-import-archive"
+                />
+              </div>
+              <div>
+                <Label htmlFor="import-directory" className="flex items-center gap-2">
+                  <FolderOpen className="w-4 h-4" /> Or a directory under CHALLENGE_IMPORT_DIR on the server
+                </Label>
+                <Input
+                  id="import-directory"
+                  value={directory}
+                  onChange={(e) => {
+                    setDirectory(e.target.value);
+                    changeSource();
+                  }}
+                  placeholder="ctf-2025"
+                  disabled={!!archive}
+                  className="mt-1 font-mono"
+                  data-testid="input-import-directory"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => importMutation.mutate(false)}
+                disabled={!hasSource || importMutation.isPending}
+                data-testid="button-preview-import"
+              >
+                Preview Changes
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate(true)}
+                disabled={!result || result.applied || invalid || pending.length === 0 || importMutation.isPending}
+                data-testid="button-apply-import"
+              >
+                Apply {pending.length > 0 ? `${pending.length} Change${pending.length === 1 ? "" : "s"}` : "Changes"}
+              </Button>
+            </div>
+            {invalid && (
+              <p className="text-sm text-red-400">Fix the invalid challenges and preview again before importing.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {result && (
+          <Card className="neon-border" data-testid="import-result">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-primary">
+                {result.applied ? "Imported" : "Preview"}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Challenge</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.challenges.map((entry) => (
+                    <TableRow key={entry.file} data-testid={`import-entry-${entry.externalId ?? entry.file}`}>
+                      <TableCell className="align-top">
+                        <Badge className={ACTION_STYLES[entry.action]}>{entry.action}</Badge>
+                        {entry.outcome === "failed" && <Badge className="ml-1 bg-red-500/20 text-red-400">failed</Badge>}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <p>{entry.title ?? "(unnamed)"}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{entry.externalId ?? ""} {entry.file}</p>
+                      </TableCell>
+                      <TableCell className="align-top text-sm">
+                        {entry.errors.map((error) => (
+                          <p key={error} className="text-red-400">{error}</p>
+                        ))}
+                        {entry.changes.map((change) => (
+                          <p key={change.field} className="font-mono text-xs break-all">
+                            <span className="text-primary">{change.field}</span>: {change.from} → {change.to}
+                          </p>
+                        ))}
+                        {entry.action === "unchanged" && <p className="text-muted-foreground">Up to date</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <CtfdImportCard />
+
+        <Card className="neon-border">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold text-primary">challenge.yml</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm text-muted-foreground">
+            <p>
+              One file per challenge directory; paths are relative to it. Flags are static unless written as
+              <span className="font-mono"> {"{ type, value }"}</span>, and <span className="font-mono">scoring</span> takes a
+              type, minimum and decay for dynamic challenges.
+            </p>
+            <pre className="bg-muted p-4 rounded-md font-mono text-xs text-foreground overflow-x-auto">{EXAMPLE_SPEC}</pre>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -2,19 +2,23 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams } from "wouter";
 import { useState, useEffect } from "react";
 import { Header } from "@/components/header";
+import { ClarificationList, ClarificationTickets } from "@/components/challenge-clarifications";
+import { ReportChallengeDialog } from "@/components/report-challenge-dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Download, Flag, User, Clock, HelpCircle } from "lucide-react";
+import { Download, Flag, User, Clock, HelpCircle, Droplet, Lock } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 export default function ChallengePage() {
   const { id } = useParams();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [flagInput, setFlagInput] = useState("");
   const [parsedChallenge, setParsedChallenge] = useState<any>(null);
 
@@ -139,6 +143,8 @@ export default function ChallengePage() {
     Insane: "bg-purple-500/20 text-purple-400",
   };
 
+  const isLocked = parsedChallenge?.effectiveSolveMode === "first-blood-lock" && !!parsedChallenge?.firstBlood && !parsedChallenge?.hasSolved;
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <Header />
@@ -150,11 +156,14 @@ export default function ChallengePage() {
               <CardTitle className="text-3xl gradient-text" data-testid="text-challenge-title">
                 {parsedChallenge?.title}
               </CardTitle>
-              {parsedChallenge?.hasSolved && (
-                <Badge className="bg-green-500 text-black">
-                  ✓ SOLVED
-                </Badge>
-              )}
+              <div className="flex items-center gap-2">
+                {parsedChallenge?.hasSolved && (
+                  <Badge className="bg-green-500 text-black">
+                    ✓ SOLVED
+                  </Badge>
+                )}
+                <ReportChallengeDialog challengeId={challenge.id} />
+              </div>
             </div>
             
             <div className="flex items-center gap-4 flex-wrap mt-4">
@@ -180,6 +189,12 @@ export default function ChallengePage() {
                   {new Date(parsedChallenge?.createdAt).toLocaleDateString()}
                 </span>
               </div>
+              {parsedChallenge?.firstBlood && (
+                <div className="flex items-center gap-1 text-red-400">
+                  <Droplet className="w-4 h-4" />
+                  <span data-testid="text-first-blood">First blood: {parsedChallenge.firstBlood.username}</span>
+                </div>
+              )}
             </div>
           </CardHeader>
           
@@ -210,6 +225,8 @@ export default function ChallengePage() {
                         size="sm" 
                         className="hover-glow"
                         onClick={() => window.open(file.url, '_blank')}
+                        disabled={!user}
+                        title={user ? undefined : 'Log in to download files'}
                         data-testid={`button-download-${index}`}
                       >
                         <Download className="w-3 h-3 mr-1" />
@@ -222,7 +239,19 @@ export default function ChallengePage() {
             )}
             
             {/* Flag Submission */}
-            {!parsedChallenge?.hasSolved && (
+            {isLocked && (
+              <div className="bg-muted border border-border rounded-md p-4" data-testid="challenge-locked">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Lock className="w-4 h-4" />
+                  <span className="font-medium">Challenge Locked</span>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">
+                  This challenge was claimed by {parsedChallenge?.firstBlood?.username} and no longer accepts flags.
+                </p>
+              </div>
+            )}
+
+            {!parsedChallenge?.hasSolved && !isLocked && (
               <div>
                 <h3 className="text-lg font-semibold text-primary mb-3">Submit Flag</h3>
                 <div className="flex gap-3">
@@ -276,6 +305,12 @@ export default function ChallengePage() {
                 </div>
               </div>
             )}
+
+            <ClarificationList
+              challengeId={challenge.id}
+              canModerate={!!user && (user.isAdmin || user.id === challenge.creatorId)}
+            />
+            <ClarificationTickets challengeId={challenge.id} />
           </CardContent>
         </Card>
       </main>
@@ -1,9 +1,11 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Header } from "@/components/header";
+import { ScoringPreview } from "@/components/scoring-preview";
+import { FlagEditor } from "@/components/flag-editor";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,9 +14,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, csrfHeaders } from "@/lib/queryClient";
 import { Upload, Plus, X, FileText } from "lucide-react";
 import { useLocation } from "wouter";
+import type { FlagDefinition } from "@shared/schema";
 
 const challengeSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -22,8 +25,17 @@ const challengeSchema = z.object({
   difficulty: z.string().min(1, "Difficulty is required"),
   points: z.number().min(50, "Minimum 50 points").max(1000, "Maximum 1000 points"),
   description: z.string().min(10, "Description must be at least 10 characters"),
-  flag: z.string().min(1, "Flag is required"),
   published: z.boolean().default(false),
+  // Empty means the challenge follows the event default
+  solveMode: z.string().default(""),
+  // Empty means the challenge is not part of an event
+  eventId: z.string().default(""),
+  scoringType: z.enum(["static", "linear", "logarithmic"]).default("static"),
+  minimumPoints: z.number().min(0, "Minimum cannot be negative"),
+  decay: z.number().min(1, "Decay must be at least 1"),
+}).refine((data) => data.scoringType === "static" || data.minimumPoints <= data.points, {
+  message: "Minimum cannot exceed the initial points",
+  path: ["minimumPoints"],
 });
 
 type ChallengeForm = z.infer<typeof challengeSchema>;
@@ -38,6 +50,16 @@ export default function CreateChallengePage() {
   const [, setLocation] = useLocation();
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [hints, setHints] = useState<Hint[]>([]);
+  const [flags, setFlags] = useState<FlagDefinition[]>([{ type: "static", value: "" }]);
+
+  const { data: events } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/events"],
+    queryFn: async () => {
+      const res = await fetch("/api/events");
+      if (!res.ok) throw new Error("Failed to fetch events");
+      return res.json();
+    },
+  });
 
   const form = useForm<ChallengeForm>({
     resolver: zodResolver(challengeSchema),
@@ -47,24 +69,29 @@ export default function CreateChallengePage() {
       difficulty: "",
       points: 100,
       description: "",
-      flag: "",
       published: false,
+      solveMode: "",
+      eventId: "",
+      scoringType: "static",
+      minimumPoints: 50,
+      decay: 20,
     },
   });
 
   const createChallengeMutation = useMutation({
-    mutationFn: async (data: ChallengeForm & { files: File[]; hints: Hint[] }) => {
+    mutationFn: async (data: ChallengeForm & { files: File[]; hints: Hint[]; flags: FlagDefinition[] }) => {
       const formData = new FormData();
       
       // Add form fields
       Object.entries(data).forEach(([key, value]) => {
-        if (key !== 'files' && key !== 'hints') {
+        if (key !== 'files' && key !== 'hints' && key !== 'flags') {
           formData.append(key, value.toString());
         }
       });
       
-      // Add hints as JSON
+      // Add hints and flags as JSON
       formData.append('hints', JSON.stringify(data.hints));
+      formData.append('flags', JSON.stringify(data.flags));
       
       // Add files
       data.files.forEach(file => {
@@ -73,6 +100,7 @@ export default function CreateChallengePage() {
 
       const res = await fetch('/api/challenges', {
         method: 'POST',
+        headers: csrfHeaders(),
         body: formData,
         credentials: 'include',
       });
@@ -84,10 +112,12 @@ export default function CreateChallengePage() {
       
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (challenge) => {
       toast({
         title: "Challenge Created! 🎉",
-        description: "Your challenge has been created successfully.",
+        description: challenge.artifacts?.length > 0
+          ? "Your challenge has been created. Players can download its files once an admin has reviewed them."
+          : "Your challenge has been created successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
       setLocation("/");
@@ -101,6 +131,8 @@ export default function CreateChallengePage() {
     },
   });
 
+  const scoringType = form.watch("scoringType");
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     setSelectedFiles(prev => [...prev, ...files]);
@@ -125,10 +157,21 @@ export default function CreateChallengePage() {
   };
 
   const onSubmit = (data: ChallengeForm) => {
+    const acceptedFlags = flags.filter(flag => flag.value.trim() !== "");
+    if (acceptedFlags.length === 0) {
+      toast({
+        title: "Flag Required",
+        description: "Add at least one accepted flag.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     createChallengeMutation.mutate({
       ...data,
       files: selectedFiles,
       hints: hints.filter(hint => hint.text.trim() !== ""),
+      flags: acceptedFlags,
     });
   };
 
@@ -214,7 +257,7 @@ export default function CreateChallengePage() {
                 </div>
                 
                 <div>
-                  <Label htmlFor="points">Points</Label>
+                  <Label htmlFor="points">{scoringType === "static" ? "Points" : "Initial Points"}</Label>
                   <Input
                     id="points"
                     type="number"
@@ -234,6 +277,117 @@ export default function CreateChallengePage() {
                 </div>
               </div>
               
+              {/* Scoring */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <Label htmlFor="scoringType">Scoring</Label>
+                  <Select
+                    value={scoringType}
+                    onValueChange={(value) => form.setValue("scoringType", value as ChallengeForm["scoringType"])}
+                  >
+                    <SelectTrigger className="mt-1" data-testid="select-scoring-type">
+                      <SelectValue placeholder="Select scoring" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="static">Static</SelectItem>
+                      <SelectItem value="linear">Linear decay</SelectItem>
+                      <SelectItem value="logarithmic">Logarithmic decay</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {scoringType !== "static" && (
+                  <>
+                    <div>
+                      <Label htmlFor="minimumPoints">Minimum Points</Label>
+                      <Input
+                        id="minimumPoints"
+                        type="number"
+                        min="0"
+                        {...form.register("minimumPoints", { valueAsNumber: true })}
+                        className="mt-1"
+                        data-testid="input-minimum-points"
+                      />
+                      {form.formState.errors.minimumPoints && (
+                        <p className="text-sm text-destructive mt-1">
+                          {form.formState.errors.minimumPoints.message}
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="decay">
+                        {scoringType === "linear" ? "Points Lost per Solve" : "Solves Until Minimum"}
+                      </Label>
+                      <Input
+                        id="decay"
+                        type="number"
+                        min="1"
+                        {...form.register("decay", { valueAsNumber: true })}
+                        className="mt-1"
+                        data-testid="input-decay"
+                      />
+                      {form.formState.errors.decay && (
+                        <p className="text-sm text-destructive mt-1">
+                          {form.formState.errors.decay.message}
+                        </p>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {scoringType !== "static" && (
+                <div>
+                  <Label>Value by Number of Solves</Label>
+                  <div className="mt-1 bg-muted/20 rounded-lg p-4">
+                    <ScoringPreview
+                      params={{
+                        scoringType,
+                        initial: form.watch("points") || 0,
+                        minimum: form.watch("minimumPoints") || 0,
+                        decay: form.watch("decay") || 1,
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="eventId">Event</Label>
+                <Select
+                  value={form.watch("eventId") || "none"}
+                  onValueChange={(value) => form.setValue("eventId", value === "none" ? "" : value)}
+                >
+                  <SelectTrigger className="mt-1" data-testid="select-event">
+                    <SelectValue placeholder="Select event" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No event</SelectItem>
+                    {events?.map((event) => (
+                      <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="solveMode">Solve Mode</Label>
+                <Select
+                  value={form.watch("solveMode") || "default"}
+                  onValueChange={(value) => form.setValue("solveMode", value === "default" ? "" : value)}
+                >
+                  <SelectTrigger className="mt-1" data-testid="select-solve-mode">
+                    <SelectValue placeholder="Select solve mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Event default</SelectItem>
+                    <SelectItem value="open">Open (everyone can solve)</SelectItem>
+                    <SelectItem value="first-blood-bonus">First blood bonus</SelectItem>
+                    <SelectItem value="first-blood-lock">First blood locks the challenge</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
               {/* Description */}
               <div>
                 <Label htmlFor="description">Description (Markdown supported)</Label>
@@ -252,25 +406,12 @@ export default function CreateChallengePage() {
                 )}
               </div>
               
-              {/* Flag */}
+              {/* Flags */}
               <div>
-                <Label htmlFor="flag">Flag</Label>
-                <Input
-                  id="flag"
-                  type="password"
-                  {...form.register("flag")}
-                  placeholder="flag{this_will_be_hashed}"
-                  className="mt-1 font-mono"
-                  data-testid="input-flag"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Flag will be hashed and salted for security
-                </p>
-                {form.formState.errors.flag && (
-                  <p className="text-sm text-destructive mt-1">
-                    {form.formState.errors.flag.message}
-                  </p>
-                )}
+                <Label>Accepted Flags</Label>
+                <div className="mt-1">
+                  <FlagEditor flags={flags} onChange={setFlags} />
+                </div>
               </div>
               
               {/* File Uploads */}
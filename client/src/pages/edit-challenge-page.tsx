@@ -5,6 +5,8 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Header } from "@/components/header";
+import { ScoringPreview } from "@/components/scoring-preview";
+import { FlagEditor } from "@/components/flag-editor";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,8 +15,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, csrfHeaders } from "@/lib/queryClient";
 import { Plus, X, FileText, Loader2 } from "lucide-react";
+import type { FlagDefinition, FlagType } from "@shared/schema";
 
 const challengeSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -22,8 +25,17 @@ const challengeSchema = z.object({
   difficulty: z.string().min(1, "Difficulty is required"),
   points: z.number().min(50, "Minimum 50 points").max(1000, "Maximum 1000 points"),
   description: z.string().min(10, "Description must be at least 10 characters"),
-  flag: z.string().optional(),
   published: z.boolean().default(false),
+  // Empty means the challenge follows the event default
+  solveMode: z.string().default(""),
+  // Empty means the challenge is not part of an event
+  eventId: z.string().default(""),
+  scoringType: z.enum(["static", "linear", "logarithmic"]).default("static"),
+  minimumPoints: z.number().min(0, "Minimum cannot be negative"),
+  decay: z.number().min(1, "Decay must be at least 1"),
+}).refine((data) => data.scoringType === "static" || data.minimumPoints <= data.points, {
+  message: "Minimum cannot exceed the initial points",
+  path: ["minimumPoints"],
 });
 
 type ChallengeForm = z.infer<typeof challengeSchema>;
@@ -39,6 +51,8 @@ export default function EditChallengePage() {
   const [, setLocation] = useLocation();
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [hints, setHints] = useState<Hint[]>([]);
+  // Left empty the saved flags are kept; any flags added here replace them all
+  const [flags, setFlags] = useState<FlagDefinition[]>([]);
 
   const { data: challenge, isLoading } = useQuery({
     queryKey: [`/api/challenges/${id}`],
@@ -49,6 +63,24 @@ export default function EditChallengePage() {
     },
   });
 
+  const { data: events } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/events"],
+    queryFn: async () => {
+      const res = await fetch("/api/events");
+      if (!res.ok) throw new Error("Failed to fetch events");
+      return res.json();
+    },
+  });
+
+  const { data: savedFlags } = useQuery<{ id: string; type: FlagType; pattern: string | null }[]>({
+    queryKey: [`/api/challenges/${id}/flags`],
+    queryFn: async () => {
+      const res = await fetch(`/api/challenges/${id}/flags`, { credentials: 'include' });
+      if (!res.ok) throw new Error("Failed to fetch challenge flags");
+      return res.json();
+    },
+  });
+
   const form = useForm<ChallengeForm>({
     resolver: zodResolver(challengeSchema),
     defaultValues: {
@@ -57,8 +89,12 @@ export default function EditChallengePage() {
       difficulty: "",
       points: 100,
       description: "",
-      flag: "",
       published: false,
+      solveMode: "",
+      eventId: "",
+      scoringType: "static",
+      minimumPoints: 50,
+      decay: 20,
     },
   });
 
@@ -68,9 +104,14 @@ export default function EditChallengePage() {
         title: challenge.title,
         category: challenge.category,
         difficulty: challenge.difficulty,
-        points: challenge.points,
+        points: challenge.initialPoints ?? challenge.points,
         description: challenge.description,
         published: challenge.published,
+        solveMode: challenge.solveMode ?? "",
+        eventId: challenge.eventId ?? "",
+        scoringType: challenge.scoringType ?? "static",
+        minimumPoints: challenge.minimumPoints ?? 50,
+        decay: challenge.decay ?? 20,
       });
       // Parse hints if it's a string, otherwise use as-is
       const parsedHints = typeof challenge.hints === 'string' 
@@ -91,6 +132,10 @@ export default function EditChallengePage() {
       });
       
       formData.append('hints', JSON.stringify(hints));
+      const newFlags = flags.filter(flag => flag.value.trim() !== "");
+      if (newFlags.length > 0) {
+        formData.append('flags', JSON.stringify(newFlags));
+      }
       
       selectedFiles.forEach(file => {
         formData.append('files', file);
@@ -98,6 +143,7 @@ export default function EditChallengePage() {
 
       const res = await fetch(`/api/challenges/${id}`, {
         method: 'PUT',
+        headers: csrfHeaders(),
         body: formData,
         credentials: 'include',
       });
@@ -126,6 +172,8 @@ export default function EditChallengePage() {
     },
   });
 
+  const scoringType = form.watch("scoringType");
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     setSelectedFiles(prev => [...prev, ...files]);
@@ -242,7 +290,7 @@ export default function EditChallengePage() {
                 </div>
                 
                 <div>
-                  <Label htmlFor="points">Points</Label>
+                  <Label htmlFor="points">{scoringType === "static" ? "Points" : "Initial Points"}</Label>
                   <Input
                     id="points"
                     type="number"
@@ -261,6 +309,115 @@ export default function EditChallengePage() {
                 </div>
               </div>
               
+              {/* Scoring */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <Label htmlFor="scoringType">Scoring</Label>
+                  <Select
+                    value={scoringType}
+                    onValueChange={(value) => form.setValue("scoringType", value as ChallengeForm["scoringType"])}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Select scoring" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="static">Static</SelectItem>
+                      <SelectItem value="linear">Linear decay</SelectItem>
+                      <SelectItem value="logarithmic">Logarithmic decay</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {scoringType !== "static" && (
+                  <>
+                    <div>
+                      <Label htmlFor="minimumPoints">Minimum Points</Label>
+                      <Input
+                        id="minimumPoints"
+                        type="number"
+                        min="0"
+                        {...form.register("minimumPoints", { valueAsNumber: true })}
+                        className="mt-1"
+                      />
+                      {form.formState.errors.minimumPoints && (
+                        <p className="text-sm text-destructive mt-1">
+                          {form.formState.errors.minimumPoints.message}
+                        </p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="decay">
+                        {scoringType === "linear" ? "Points Lost per Solve" : "Solves Until Minimum"}
+                      </Label>
+                      <Input
+                        id="decay"
+                        type="number"
+                        min="1"
+                        {...form.register("decay", { valueAsNumber: true })}
+                        className="mt-1"
+                      />
+                      {form.formState.errors.decay && (
+                        <p className="text-sm text-destructive mt-1">
+                          {form.formState.errors.decay.message}
+                        </p>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {scoringType !== "static" && (
+                <div>
+                  <Label>Value by Number of Solves</Label>
+                  <div className="mt-1 bg-muted/20 rounded-lg p-4">
+                    <ScoringPreview
+                      params={{
+                        scoringType,
+                        initial: form.watch("points") || 0,
+                        minimum: form.watch("minimumPoints") || 0,
+                        decay: form.watch("decay") || 1,
+                      }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="eventId">Event</Label>
+                <Select
+                  value={form.watch("eventId") || "none"}
+                  onValueChange={(value) => form.setValue("eventId", value === "none" ? "" : value)}
+                >
+                  <SelectTrigger className="mt-1" data-testid="select-event">
+                    <SelectValue placeholder="Select event" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No event</SelectItem>
+                    {events?.map((event) => (
+                      <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="solveMode">Solve Mode</Label>
+                <Select
+                  value={form.watch("solveMode") || "default"}
+                  onValueChange={(value) => form.setValue("solveMode", value === "default" ? "" : value)}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select solve mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Event default</SelectItem>
+                    <SelectItem value="open">Open (everyone can solve)</SelectItem>
+                    <SelectItem value="first-blood-bonus">First blood bonus</SelectItem>
+                    <SelectItem value="first-blood-lock">First blood locks the challenge</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
               {/* Description */}
               <div>
                 <Label htmlFor="description">Description (Markdown supported)</Label>
@@ -278,19 +435,23 @@ export default function EditChallengePage() {
                 )}
               </div>
               
-              {/* Flag */}
+              {/* Flags */}
               <div>
-                <Label htmlFor="flag">Flag (optional - leave blank to keep existing)</Label>
-                <Input
-                  id="flag"
-                  type="password"
-                  {...form.register("flag")}
-                  placeholder="Leave blank to keep current flag"
-                  className="mt-1 font-mono"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Only fill this to change the flag
+                <Label>Accepted Flags</Label>
+                {savedFlags && savedFlags.length > 0 && (
+                  <div className="mt-1 mb-3 space-y-1 text-sm" data-testid="saved-flags">
+                    {savedFlags.map((flag, index) => (
+                      <div key={flag.id} className="flex gap-3 text-muted-foreground">
+                        <span className="w-36">{flag.type}</span>
+                        <span className="font-mono">{flag.pattern ?? `saved flag ${index + 1} (hashed)`}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground mb-2">
+                  Flags added here replace all saved flags; leave empty to keep them
                 </p>
+                <FlagEditor flags={flags} onChange={setFlags} challengeId={id} />
               </div>
               
               {/* File Uploads */}
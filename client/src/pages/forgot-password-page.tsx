@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/password-reset/request", { email });
+      return res.json();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Request failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-8">
+      <Card className="w-full max-w-md neon-border">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl gradient-text mb-2">Reset Password</CardTitle>
+          <p className="text-muted-foreground text-sm">We'll email you a link to choose a new password</p>
+        </CardHeader>
+        <CardContent>
+          {requestMutation.isSuccess ? (
+            <p className="text-sm text-center" data-testid="text-reset-requested">{requestMutation.data.message}</p>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                requestMutation.mutate();
+              }}
+              className="space-y-4"
+              data-testid="form-forgot-password"
+            >
+              <div>
+                <Label htmlFor="forgot-email">Email</Label>
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="hacker@example.com"
+                  className="mt-1"
+                  data-testid="input-forgot-email"
+                />
+              </div>
+              <Button type="submit" className="w-full hover-glow" disabled={!email || requestMutation.isPending} data-testid="button-send-reset">
+                {requestMutation.isPending ? "Sending..." : "Send Reset Link"}
+              </Button>
+            </form>
+          )}
+          <p className="text-sm text-center mt-4">
+            <Link href="/auth" className="text-primary hover:underline">Back to login</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Header } from "@/components/header";
 import { ChallengeCard } from "@/components/challenge-card";
+import { EventCountdown, type EventSummary } from "@/components/event-countdown";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
@@ -72,6 +73,17 @@ export default function HomePage() {
     },
   });
 
+  const { data: events } = useQuery<EventSummary[]>({
+    queryKey: ["/api/events"],
+    queryFn: async () => {
+      const res = await fetch("/api/events");
+      if (!res.ok) throw new Error("Failed to fetch events");
+      return res.json();
+    },
+  });
+
+  const activeEvents = events?.filter((event) => event.status !== "ended") ?? [];
+
   const filteredChallenges = challenges?.filter((challenge: any) => {
     if (selectedStatus === "solved" && !challenge.hasSolved) return false;
     if (selectedStatus === "unsolved" && challenge.hasSolved) return false;
@@ -83,6 +95,15 @@ export default function HomePage() {
       <Header />
       
       <main className="container mx-auto px-4 py-8 space-y-12">
+        {/* Upcoming and running events */}
+        {activeEvents.length > 0 && (
+          <section className="space-y-4" data-testid="event-countdowns">
+            {activeEvents.map((event) => (
+              <EventCountdown key={event.id} event={event} />
+            ))}
+          </section>
+        )}
+
         {/* Dashboard Stats */}
         <section className="grid grid-cols-1 md:grid-cols-4 gap-6" data-testid="dashboard-stats">
           <Card className="neon-border hover-glow transition-all duration-200">
@@ -149,7 +170,12 @@ export default function HomePage() {
           <Card className="neon-border hover-glow transition-all duration-200">
             <CardContent className="p-6">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold">Global Progress</h3>
+                <h3 className="text-lg font-semibold">
+                  Global Progress
+                  {globalStats?.frozen && (
+                    <span className="ml-2 text-xs text-cyan-400" data-testid="text-stats-frozen">frozen</span>
+                  )}
+                </h3>
                 <Globe className="text-primary text-2xl" />
               </div>
               <div className="space-y-4">
@@ -183,6 +209,14 @@ export default function HomePage() {
                   <span className="text-muted-foreground">Challenges Solved</span>
                   <span className="text-2xl font-bold text-primary">{globalStats?.solvedCount || 0} / {globalStats?.totalCount || 0}</span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Solved by You</span>
+                  <span className="font-bold text-primary" data-testid="text-user-solved-count">{globalStats?.userSolvedCount || 0}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Your First Bloods</span>
+                  <span className="font-bold text-primary" data-testid="text-first-blood-count">{globalStats?.firstBloodCount || 0}</span>
+                </div>
                 <div className="text-sm text-muted-foreground">
                   {globalStats?.totalCount} challenges available in total
                 </div>
@@ -1,21 +1,127 @@
+import { useEffect, useRef, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Header } from "@/components/header";
+import { SolveFeed } from "@/components/solve-feed";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Crown, Medal, Trophy, Users } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Crown, Download, Medal, Snowflake, Trophy, Users } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+
+interface FreezeStatus {
+  frozen: boolean;
+  freezesAt: string | null;
+  unfrozenAt: string | null;
+}
+
+// Rows are revealed from the bottom up, one step apart
+const REVEAL_STEP_MS = 150;
 
 export default function LeaderboardPage() {
-  const { data: leaderboard, isLoading } = useQuery({
-    queryKey: ["/api/leaderboard"],
+  const [view, setView] = useState<"players" | "teams">("players");
+  const [eventId, setEventId] = useState("global");
+
+  const { data: events } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/events"],
+    queryFn: async () => {
+      const res = await fetch("/api/events");
+      if (!res.ok) throw new Error("Failed to fetch events");
+      return res.json();
+    },
+  });
+
+  // Each event keeps its own scoreboard alongside the global one
+  const basePath = eventId === "global" ? "/api/leaderboard" : `/api/events/${eventId}/leaderboard`;
+  const selectedEvent = events?.find((event) => event.id === eventId);
+
+  const { data: playerLeaderboard, isLoading: playersLoading } = useQuery({
+    queryKey: [basePath],
     queryFn: async () => {
-      const res = await fetch("/api/leaderboard?limit=50");
+      const res = await fetch(`${basePath}?limit=50`);
       if (!res.ok) throw new Error("Failed to fetch leaderboard");
       return res.json();
     },
+    enabled: view === "players",
+  });
+
+  const { data: teamLeaderboard, isLoading: teamsLoading } = useQuery({
+    queryKey: [`${basePath}/teams`],
+    queryFn: async () => {
+      const res = await fetch(`${basePath}/teams?limit=50`);
+      if (!res.ok) throw new Error("Failed to fetch team leaderboard");
+      return res.json();
+    },
+    enabled: view === "teams",
+  });
+
+  const leaderboard = view === "players" ? playerLeaderboard : teamLeaderboard;
+  const isLoading = view === "players" ? playersLoading : teamsLoading;
+
+  const { data: freeze } = useQuery<FreezeStatus>({
+    queryKey: [`${basePath}/freeze`],
+    queryFn: async () => {
+      const res = await fetch(`${basePath}/freeze`);
+      if (!res.ok) throw new Error("Failed to fetch scoreboard freeze");
+      return res.json();
+    },
+    // Poll so an unfreeze is revealed to everyone watching the board
+    refetchInterval: 30000,
   });
 
+  // Standings as of the freeze, kept so the reveal can show who moved
+  const frozenRanks = useRef(new Map<string, number>());
+  const wasFrozen = useRef<boolean | undefined>(undefined);
+  const [revealing, setRevealing] = useState(false);
+
+  useEffect(() => {
+    wasFrozen.current = undefined;
+    frozenRanks.current = new Map();
+    setRevealing(false);
+  }, [basePath]);
+
+  useEffect(() => {
+    if (freeze?.frozen && leaderboard) {
+      leaderboard.forEach((entry: any) => frozenRanks.current.set(entry.id, entry.rank));
+    }
+  }, [freeze?.frozen, leaderboard]);
+
+  useEffect(() => {
+    if (!freeze) return;
+    if (wasFrozen.current && !freeze.frozen) {
+      queryClient.invalidateQueries({ queryKey: [basePath] });
+      queryClient.invalidateQueries({ queryKey: [`${basePath}/teams`] });
+      setRevealing(true);
+    }
+    wasFrozen.current = freeze.frozen;
+  }, [freeze?.frozen]);
+
+  useEffect(() => {
+    if (!revealing || !leaderboard) return;
+    const timer = setTimeout(() => setRevealing(false), leaderboard.length * REVEAL_STEP_MS + 3000);
+    return () => clearTimeout(timer);
+  }, [revealing, leaderboard]);
+
+  const revealProps = (index: number) => revealing ? {
+    className: "animate-in fade-in slide-in-from-bottom-4 duration-500 fill-mode-both",
+    style: { animationDelay: `${(leaderboard.length - index - 1) * REVEAL_STEP_MS}ms` },
+  } : { className: "", style: undefined };
+
+  const getRankChange = (id: string, rank: number) => {
+    if (!revealing) return null;
+    const previous = frozenRanks.current.get(id);
+    if (previous === undefined || previous === rank) return null;
+    return previous > rank ? (
+      <span className="flex items-center text-xs text-green-400"><ArrowUp className="w-3 h-3" />{previous - rank}</span>
+    ) : (
+      <span className="flex items-center text-xs text-red-400"><ArrowDown className="w-3 h-3" />{rank - previous}</span>
+    );
+  };
+
   const getRankIcon = (rank: number) => {
     switch (rank) {
       case 1:
@@ -51,16 +157,62 @@ export default function LeaderboardPage() {
           <p className="text-muted-foreground">Global rankings updated in real-time</p>
         </div>
 
+        {freeze?.frozen && (
+          <Card className="neon-border mb-6" data-testid="scoreboard-frozen">
+            <CardContent className="p-4 flex items-center gap-3">
+              <Snowflake className="w-5 h-5 text-cyan-400" />
+              <p className="text-sm text-muted-foreground">
+                The scoreboard is frozen as of{" "}
+                <span className="text-foreground">{new Date(freeze.freezesAt!).toLocaleString()}</span>.
+                Solves still count and the final standings are revealed when it unfreezes.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="neon-border overflow-hidden" data-testid="leaderboard">
           <CardHeader className="border-b border-border">
             <div className="flex items-center justify-between">
               <CardTitle className="flex items-center gap-2">
                 <Trophy className="w-5 h-5 text-primary" />
-                Global Rankings
+                {selectedEvent ? `${selectedEvent.name} Rankings` : "Global Rankings"}
               </CardTitle>
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <Users className="w-4 h-4" />
-                <span>{leaderboard?.length || 0} players</span>
+              <div className="flex items-center gap-4">
+                {events && events.length > 0 && (
+                  <Select value={eventId} onValueChange={setEventId}>
+                    <SelectTrigger className="w-48" data-testid="select-leaderboard-event">
+                      <SelectValue placeholder="Scoreboard" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="global">Global</SelectItem>
+                      {events.map((event) => (
+                        <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Tabs value={view} onValueChange={(value) => setView(value as "players" | "teams")}>
+                  <TabsList>
+                    <TabsTrigger value="players" data-testid="tab-players">Players</TabsTrigger>
+                    <TabsTrigger value="teams" data-testid="tab-teams">Teams</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <a
+                  href={`/api/scoreboard/ctftime?${new URLSearchParams({
+                    ...(eventId === "global" ? {} : { eventId }),
+                    ...(view === "teams" ? { teams: "true" } : {}),
+                  })}`}
+                  download={`ctftime-${eventId}-${view}.json`}
+                >
+                  <Button variant="outline" size="sm" data-testid="button-ctftime-export">
+                    <Download className="w-4 h-4 mr-2" />
+                    CTFtime JSON
+                  </Button>
+                </a>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Users className="w-4 h-4" />
+                  <span>{leaderboard?.length || 0} {view}</span>
+                </div>
               </div>
             </div>
           </CardHeader>
@@ -83,12 +235,13 @@ export default function LeaderboardPage() {
               </div>
             ) : (
               <div className="divide-y divide-border">
-                {leaderboard?.map((user: any) => (
+                {view === "players" && leaderboard?.map((user: any, index: number) => (
                   <div 
                     key={user.id} 
                     className={`p-4 hover:bg-muted/30 transition-colors ${
                       user.rank <= 3 ? 'bg-muted/20' : ''
-                    }`}
+                    } ${revealProps(index).className}`}
+                    style={revealProps(index).style}
                     data-testid={`row-user-${user.id}`}
                   >
                     <div className="flex items-center gap-4">
@@ -102,6 +255,7 @@ export default function LeaderboardPage() {
                           #{user.rank}
                         </span>
                         {getRankIcon(user.rank)}
+                        {getRankChange(user.id, user.rank)}
                       </div>
                       
                       <Avatar className="w-10 h-10">
@@ -141,17 +295,69 @@ export default function LeaderboardPage() {
                     </div>
                   </div>
                 ))}
+                {view === "teams" && leaderboard?.map((team: any, index: number) => (
+                  <div 
+                    key={team.id} 
+                    className={`p-4 hover:bg-muted/30 transition-colors ${
+                      team.rank <= 3 ? 'bg-muted/20' : ''
+                    } ${revealProps(index).className}`}
+                    style={revealProps(index).style}
+                    data-testid={`row-team-${team.id}`}
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="flex items-center gap-2 w-16">
+                        <span 
+                          className={`font-bold text-lg ${
+                            team.rank <= 3 ? 'text-primary' : 'text-muted-foreground'
+                          }`}
+                        >
+                          #{team.rank}
+                        </span>
+                        {getRankIcon(team.rank)}
+                        {getRankChange(team.id, team.rank)}
+                      </div>
+                      
+                      <Avatar className="w-10 h-10">
+                        <AvatarFallback className="bg-primary text-primary-foreground">
+                          <Users className="w-4 h-4" />
+                        </AvatarFallback>
+                      </Avatar>
+                      
+                      <div className="flex-1 min-w-0">
+                        <Link href={`/team/${team.id}`}>
+                          <span className="font-medium truncate hover:text-primary cursor-pointer" data-testid={`text-team-name-${team.id}`}>
+                            {team.name}
+                          </span>
+                        </Link>
+                        <div className="text-sm text-muted-foreground">
+                          {team.memberCount} player{team.memberCount !== 1 ? 's' : ''} • {team.solveCount} challenge{team.solveCount !== 1 ? 's' : ''} solved
+                        </div>
+                      </div>
+                      
+                      <div className="text-right">
+                        <div className="text-primary font-bold text-lg" data-testid={`text-team-score-${team.id}`}>
+                          {team.score}
+                        </div>
+                        <div className="text-xs text-muted-foreground">points</div>
+                      </div>
+                    </div>
+                  </div>
+                ))}
               </div>
             )}
             
             {!isLoading && !leaderboard?.length && (
               <div className="p-8 text-center">
                 <Trophy className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                <p className="text-muted-foreground">No players on the leaderboard yet.</p>
+                <p className="text-muted-foreground">No {view} on the leaderboard yet.</p>
               </div>
             )}
           </CardContent>
         </Card>
+
+        <div className="mt-6">
+          <SolveFeed eventId={eventId === "global" ? undefined : eventId} />
+        </div>
       </main>
     </div>
   );
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Header } from "@/components/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollText, ShieldAlert } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ModerationAction, ReportReason } from "@shared/schema";
+
+interface ChallengeReport {
+  id: string;
+  challengeId: string;
+  challengeTitle: string;
+  reason: ReportReason;
+  details: string;
+  reporterName: string;
+  // null once the challenge has been deleted
+  challengePublished: boolean | null;
+  creatorName: string | null;
+  createdAt: string;
+}
+
+interface ModerationLogEntry {
+  id: string;
+  challengeTitle: string;
+  action: ModerationAction;
+  note: string | null;
+  moderatorName: string;
+  createdAt: string;
+}
+
+const ACTION_STYLES: Record<ModerationAction, string> = {
+  dismiss: "bg-muted text-muted-foreground",
+  unpublish: "bg-yellow-500/20 text-yellow-400",
+  delete: "bg-red-500/20 text-red-400",
+};
+
+function ReportRow({ report }: { report: ChallengeReport }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+
+  const resolveMutation = useMutation({
+    mutationFn: async (action: ModerationAction) => {
+      const res = await apiRequest("POST", `/api/admin/reports/${report.id}/resolve`, { action, note });
+      return res.json();
+    },
+    onSuccess: (data, action) => {
+      toast({
+        title: action === "dismiss" ? "Report Dismissed" : action === "unpublish" ? "Challenge Unpublished" : "Challenge Deleted",
+        description: `${data.resolved} report${data.resolved === 1 ? "" : "s"} resolved for ${report.challengeTitle}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/moderation-log"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleted = report.challengePublished === null;
+
+  return (
+    <TableRow data-testid={`row-report-${report.id}`}>
+      <TableCell className="align-top">
+        {deleted ? (
+          <span className="text-muted-foreground">{report.challengeTitle} (deleted)</span>
+        ) : (
+          <Link href={`/challenge/${report.challengeId}`}>
+            <span className="hover:text-primary cursor-pointer">{report.challengeTitle}</span>
+          </Link>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {deleted ? "" : `by ${report.creatorName ?? "unknown"} • ${report.challengePublished ? "published" : "unpublished"}`}
+        </p>
+      </TableCell>
+      <TableCell className="align-top">
+        <Badge variant="secondary">{report.reason}</Badge>
+        <p className="text-xs text-muted-foreground mt-1">
+          {report.reporterName} • {new Date(report.createdAt).toLocaleString()}
+        </p>
+      </TableCell>
+      <TableCell className="align-top text-sm whitespace-pre-wrap max-w-md">{report.details}</TableCell>
+      <TableCell className="align-top space-y-2 min-w-[16rem]">
+        <Input
+          placeholder="Note for the audit trail (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          data-testid={`input-report-note-${report.id}`}
+        />
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => resolveMutation.mutate("dismiss")} disabled={resolveMutation.isPending} data-testid={`button-dismiss-${report.id}`}>
+            Dismiss
+          </Button>
+          {!deleted && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => resolveMutation.mutate("unpublish")} disabled={resolveMutation.isPending} data-testid={`button-unpublish-${report.id}`}>
+                Unpublish
+              </Button>
+              <Button size="sm" variant="destructive" onClick={() => resolveMutation.mutate("delete")} disabled={resolveMutation.isPending} data-testid={`button-delete-${report.id}`}>
+                Delete
+              </Button>
+            </>
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function ModerationPage() {
+  const { data: reports, isLoading } = useQuery<ChallengeReport[]>({
+    queryKey: ["/api/admin/reports"],
+  });
+  const { data: log } = useQuery<ModerationLogEntry[]>({
+    queryKey: ["/api/admin/moderation-log"],
+  });
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <Header />
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="mb-2">
+          <h1 className="text-3xl font-bold gradient-text terminal-cursor mb-2">Moderation Queue</h1>
+          <p className="text-muted-foreground">Abuse reports and takedown requests from players. Every decision is recorded below.</p>
+        </div>
+
+        <Card className="neon-border" data-testid="report-queue">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg font-semibold text-primary">
+              <ShieldAlert className="w-5 h-5" /> Open Reports
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : !reports?.length ? (
+              <p className="text-sm text-muted-foreground">No open reports.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Challenge</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Decision</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.map((report) => (
+                    <ReportRow key={report.id} report={report} />
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="neon-border" data-testid="moderation-log">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg font-semibold text-primary">
+              <ScrollText className="w-5 h-5" /> Audit Trail
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!log?.length ? (
+              <p className="text-sm text-muted-foreground">No decisions yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Moderator</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Challenge</TableHead>
+                    <TableHead>Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {log.map((entry) => (
+                    <TableRow key={entry.id} data-testid={`row-moderation-${entry.id}`}>
+                      <TableCell className="text-sm">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{entry.moderatorName}</TableCell>
+                      <TableCell>
+                        <Badge className={ACTION_STYLES[entry.action]}>{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell>{entry.challengeTitle}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{entry.note ?? ""}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { Header } from "@/components/header";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ApiTokenSettings } from "@/components/api-token-settings";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -19,15 +23,28 @@ import {
   Edit,
   Trash2,
   Plus,
-  Check
+  Check,
+  Users,
+  Monitor
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+interface ActiveSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
 export default function ProfilePage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const [teamName, setTeamName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
 
   const { data: userStats, isLoading: statsLoading } = useQuery({
     queryKey: ["/api/users", user?.id],
@@ -62,6 +79,86 @@ export default function ProfilePage() {
     enabled: !!user?.id,
   });
 
+  const { data: team, isLoading: teamLoading } = useQuery<{ id: string; name: string } | null>({
+    queryKey: ["/api/teams/mine"],
+    enabled: !!user?.id,
+  });
+
+  const { data: sessions, isLoading: sessionsLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+    enabled: !!user?.id,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      await apiRequest("DELETE", `/api/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.current) {
+        queryClient.setQueryData(["/api/user"], null);
+        setLocation("/auth");
+        return;
+      }
+      toast({
+        title: "Session Revoked",
+        description: "That device has been signed out.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Revoke Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createTeamMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/teams", { name });
+      return res.json();
+    },
+    onSuccess: (team) => {
+      toast({
+        title: "Team Created",
+        description: `Share your invite code to recruit players for ${team.name}.`,
+      });
+      setTeamName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/teams/mine"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Team Creation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const joinTeamMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/teams/join", { inviteCode: code });
+      return res.json();
+    },
+    onSuccess: (team) => {
+      toast({
+        title: "Team Joined",
+        description: `Welcome to ${team.name}!`,
+      });
+      setInviteCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/teams/mine"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Join Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (challengeId: string) => {
       await apiRequest("DELETE", `/api/challenges/${challengeId}`);
@@ -237,6 +334,115 @@ export default function ProfilePage() {
           </Card>
         </div>
         
+        {/* Team */}
+        <Card className="neon-border mb-8" data-testid="profile-team">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold text-primary flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Team
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {teamLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : team ? (
+              <div className="flex items-center justify-between">
+                <span className="text-lg font-bold" data-testid="text-team-name">{team.name}</span>
+                <Button
+                  variant="outline"
+                  className="hover-glow"
+                  onClick={() => setLocation(`/team/${team.id}`)}
+                  data-testid="button-view-team"
+                >
+                  View Team
+                </Button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Team name"
+                    value={teamName}
+                    onChange={(e) => setTeamName(e.target.value)}
+                    data-testid="input-team-name"
+                  />
+                  <Button
+                    onClick={() => createTeamMutation.mutate(teamName.trim())}
+                    disabled={createTeamMutation.isPending || !teamName.trim()}
+                    className="hover-glow"
+                    data-testid="button-create-team"
+                  >
+                    Create
+                  </Button>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Invite code"
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(e.target.value)}
+                    className="font-mono"
+                    data-testid="input-invite-code"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => joinTeamMutation.mutate(inviteCode.trim())}
+                    disabled={joinTeamMutation.isPending || !inviteCode.trim()}
+                    data-testid="button-join-team"
+                  >
+                    Join
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Two-Factor Authentication */}
+        <TwoFactorSettings />
+
+        {/* API Tokens */}
+        <ApiTokenSettings />
+
+        {/* Active Sessions */}
+        <Card className="neon-border mb-8" data-testid="profile-sessions">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold text-primary flex items-center gap-2">
+              <Monitor className="w-5 h-5" />
+              Active Sessions
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sessionsLoading ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              <div className="divide-y divide-border">
+                {sessions?.map((session) => (
+                  <div key={session.id} className="py-3 flex items-center justify-between gap-4" data-testid={`session-${session.id}`}>
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">
+                        {session.userAgent || "Unknown device"}
+                        {session.current && <Badge className="ml-2 bg-green-500/20 text-green-400">This device</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ipAddress || "Unknown IP"} · signed in {new Date(session.createdAt).toLocaleString()} · last active {new Date(session.lastSeenAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revokeSessionMutation.mutate(session)}
+                      disabled={revokeSessionMutation.isPending}
+                      data-testid={`button-revoke-session-${session.id}`}
+                    >
+                      {session.current ? "Sign Out" : "Revoke"}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Created Challenges */}
         {user?.isAdmin && (
         <Card className="neon-border overflow-hidden" data-testid="created-challenges">
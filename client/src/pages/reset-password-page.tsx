@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export default function ResetPasswordPage() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/password-reset/confirm", { token, password });
+      return res.json();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Reset failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mismatch = confirmation.length > 0 && confirmation !== password;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-8">
+      <Card className="w-full max-w-md neon-border">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl gradient-text mb-2">Choose a New Password</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <p className="text-sm text-center text-destructive">This reset link is missing its token.</p>
+          ) : resetMutation.isSuccess ? (
+            <p className="text-sm text-center" data-testid="text-reset-done">{resetMutation.data.message}</p>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                resetMutation.mutate();
+              }}
+              className="space-y-4"
+              data-testid="form-reset-password"
+            >
+              <div>
+                <Label htmlFor="new-password">New Password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="mt-1"
+                  autoComplete="new-password"
+                  data-testid="input-new-password"
+                />
+              </div>
+              <div>
+                <Label htmlFor="confirm-password">Confirm Password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="mt-1"
+                  autoComplete="new-password"
+                  data-testid="input-confirm-password"
+                />
+                {mismatch && <p className="text-sm text-destructive mt-1">Passwords don't match</p>}
+              </div>
+              <Button
+                type="submit"
+                className="w-full hover-glow"
+                disabled={password.length < 8 || confirmation !== password || resetMutation.isPending}
+                data-testid="button-reset-password"
+              >
+                {resetMutation.isPending ? "Saving..." : "Set Password"}
+              </Button>
+            </form>
+          )}
+          <p className="text-sm text-center mt-4">
+            <Link href="/auth" className="text-primary hover:underline">Back to login</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Header } from "@/components/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Crown, Copy, LogOut, RefreshCw, UserMinus, Users } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface TeamMember {
+  id: string;
+  userId: string;
+  username: string;
+  contribution: number;
+  joinedAt: string;
+}
+
+interface TeamDetail {
+  id: string;
+  name: string;
+  captainId: string;
+  inviteCode?: string;
+  maxSize: number;
+  score: number;
+  members: TeamMember[];
+}
+
+export default function TeamPage() {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: team, isLoading } = useQuery<TeamDetail>({
+    queryKey: ["/api/teams", id],
+    queryFn: async () => {
+      const res = await fetch(`/api/teams/${id}`);
+      if (!res.ok) throw new Error("Failed to fetch team");
+      return res.json();
+    },
+    enabled: !!id,
+  });
+
+  const isCaptain = !!user && team?.captainId === user.id;
+  const isMember = !!team?.inviteCode;
+
+  const invalidateTeam = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/teams"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/teams/mine"] });
+  };
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/teams/leave");
+    },
+    onSuccess: () => {
+      toast({ title: "Left Team", description: "You are no longer part of this team." });
+      invalidateTeam();
+      setLocation("/profile");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Leave Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const kickMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/teams/members/${userId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Member Removed", description: "The player has been removed from the team." });
+      invalidateTeam();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Remove Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetCodeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/teams/invite-code");
+    },
+    onSuccess: () => {
+      toast({ title: "Invite Code Reset", description: "The old invite code no longer works." });
+      invalidateTeam();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Reset Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleLeave = () => {
+    if (window.confirm(`Are you sure you want to leave "${team?.name}"?`)) {
+      leaveMutation.mutate();
+    }
+  };
+
+  const handleKick = (member: TeamMember) => {
+    if (window.confirm(`Remove ${member.username} from the team?`)) {
+      kickMutation.mutate(member.userId);
+    }
+  };
+
+  const copyInviteCode = () => {
+    if (!team?.inviteCode) return;
+    navigator.clipboard.writeText(team.inviteCode);
+    toast({ title: "Copied", description: "Invite code copied to clipboard." });
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        {isLoading ? (
+          <Card className="neon-border">
+            <CardHeader>
+              <Skeleton className="h-8 w-1/3" />
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-3/4" />
+            </CardContent>
+          </Card>
+        ) : !team ? (
+          <Card className="neon-border">
+            <CardContent className="p-8 text-center">
+              <h1 className="text-2xl font-bold text-destructive mb-4">Team Not Found</h1>
+              <p className="text-muted-foreground">The team you're looking for doesn't exist.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="mb-8 flex items-center justify-between">
+              <div>
+                <h1 className="text-3xl font-bold gradient-text terminal-cursor mb-2" data-testid="text-team-name">
+                  {team.name}
+                </h1>
+                <p className="text-muted-foreground">
+                  <span className="text-primary font-bold" data-testid="text-team-score">{team.score}</span> points •{" "}
+                  {team.members.length} / {team.maxSize} players
+                </p>
+              </div>
+              {isMember && (
+                <Button
+                  variant="outline"
+                  onClick={handleLeave}
+                  disabled={leaveMutation.isPending}
+                  data-testid="button-leave-team"
+                >
+                  <LogOut className="w-4 h-4 mr-1" />
+                  Leave Team
+                </Button>
+              )}
+            </div>
+
+            {isMember && (
+              <Card className="neon-border mb-6" data-testid="team-invite">
+                <CardContent className="p-6 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-muted-foreground text-sm">Invite Code</p>
+                    <p className="font-mono text-lg text-primary" data-testid="text-invite-code">{team.inviteCode}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={copyInviteCode} data-testid="button-copy-invite">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    {isCaptain && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resetCodeMutation.mutate()}
+                        disabled={resetCodeMutation.isPending}
+                        data-testid="button-reset-invite"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="neon-border overflow-hidden" data-testid="team-members">
+              <CardHeader className="border-b border-border">
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="w-5 h-5 text-primary" />
+                  Members
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="divide-y divide-border">
+                  {team.members.map((member) => (
+                    <div key={member.id} className="p-4 flex items-center gap-4" data-testid={`row-member-${member.userId}`}>
+                      <Avatar className="w-10 h-10">
+                        <AvatarFallback className="bg-primary text-primary-foreground">
+                          {member.username.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{member.username}</span>
+                          {member.userId === team.captainId && (
+                            <Badge className="bg-yellow-500/20 text-yellow-400">
+                              <Crown className="w-3 h-3 mr-1" />
+                              Captain
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          Joined {new Date(member.joinedAt).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-primary font-bold text-lg" data-testid={`text-contribution-${member.userId}`}>
+                          {member.contribution}
+                        </div>
+                        <div className="text-xs text-muted-foreground">points</div>
+                      </div>
+                      {isCaptain && member.userId !== user?.id && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-muted-foreground hover:text-red-400"
+                          onClick={() => handleKick(member)}
+                          disabled={kickMutation.isPending}
+                          data-testid={`button-kick-${member.userId}`}
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
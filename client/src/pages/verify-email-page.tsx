@@ -0,0 +1,46 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/email-verification/confirm", { token });
+    },
+  });
+
+  useEffect(() => {
+    if (token) verifyMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-8">
+      <Card className="w-full max-w-md neon-border">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl gradient-text mb-2">Email Verification</CardTitle>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          {verifyMutation.isSuccess ? (
+            <p className="flex items-center justify-center gap-2 text-green-400" data-testid="text-verified">
+              <CheckCircle className="w-5 h-5" />
+              Your email is confirmed. You can log in now.
+            </p>
+          ) : verifyMutation.isError || !token ? (
+            <p className="flex items-center justify-center gap-2 text-destructive" data-testid="text-verify-failed">
+              <XCircle className="w-5 h-5" />
+              This verification link is invalid or has expired. Log in to request a new one.
+            </p>
+          ) : (
+            <p className="text-muted-foreground">Checking your link...</p>
+          )}
+          <Link href="/auth" className="text-primary hover:underline text-sm">Go to login</Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
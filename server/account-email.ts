@@ -0,0 +1,151 @@
+import type { Express } from "express";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { rateLimit } from "./rate-limit";
+import { sendMail, appUrl } from "./mailer";
+
+type TokenPurpose = "verify-email" | "reset-password";
+
+const TOKEN_TTL_MS: Record<TokenPurpose, number> = {
+  "verify-email": 48 * 60 * 60 * 1000,
+  "reset-password": 60 * 60 * 1000,
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function getTokenSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error("SESSION_SECRET must be set to sign account tokens");
+  return secret;
+}
+
+// Tokens are bound to what they change: a reset token dies once the password changes,
+// a verification token once the email changes, so neither needs storing server-side
+function fingerprint(user: User, purpose: TokenPurpose): string {
+  const subject = purpose === "reset-password" ? user.password : user.email;
+  return createHash("sha256").update(subject).digest("hex").slice(0, 16);
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getTokenSecret()).update(payload).digest("base64url");
+}
+
+export function createAccountToken(user: User, purpose: TokenPurpose): string {
+  const payload = Buffer.from(JSON.stringify({
+    p: purpose,
+    u: user.id,
+    x: Date.now() + TOKEN_TTL_MS[purpose],
+    f: fingerprint(user, purpose),
+  })).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/** The user a token was issued to, or undefined when it is forged, expired, spent or for another purpose. */
+export async function verifyAccountToken(token: string, purpose: TokenPurpose): Promise<User | undefined> {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return undefined;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+
+  let claims: { p?: string; u?: string; x?: number; f?: string };
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+  if (claims.p !== purpose || !claims.u || !claims.x || claims.x < Date.now()) return undefined;
+
+  const user = await storage.getUser(claims.u);
+  return user && claims.f === fingerprint(user, purpose) ? user : undefined;
+}
+
+export async function sendVerificationEmail(user: User): Promise<void> {
+  const link = appUrl(`/verify-email?token=${createAccountToken(user, "verify-email")}`);
+  await sendMail({
+    to: user.email,
+    subject: "Confirm your 0XCTF25 email address",
+    text: `Hi ${user.username},\n\nConfirm your email address to start playing:\n${link}\n\nThe link expires in 48 hours.`,
+  });
+}
+
+async function sendPasswordResetEmail(user: User): Promise<void> {
+  const link = appUrl(`/reset-password?token=${createAccountToken(user, "reset-password")}`);
+  await sendMail({
+    to: user.email,
+    subject: "Reset your 0XCTF25 password",
+    text: `Hi ${user.username},\n\nSomeone asked to reset the password for this account. If it was you, choose a new one here:\n${link}\n\nThe link expires in an hour. If you didn't ask for this, ignore this email.`,
+  });
+}
+
+export function registerAccountEmailRoutes(app: Express) {
+  const byEmail = (req: any) => (typeof req.body?.email === "string" ? req.body.email : undefined);
+
+  // Both request endpoints answer the same whether or not the account exists
+  app.post("/api/email-verification/request", rateLimit("verify-email", byEmail), async (req, res) => {
+    try {
+      const user = byEmail(req) && await storage.getUserByEmail(req.body.email);
+      if (user && !user.emailVerifiedAt) {
+        await sendVerificationEmail(user);
+      }
+      res.json({ message: "If that account needs verifying, a new link is on its way" });
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  app.post("/api/email-verification/confirm", async (req, res) => {
+    try {
+      const user = typeof req.body.token === "string" && await verifyAccountToken(req.body.token, "verify-email");
+      if (!user) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      await storage.markEmailVerified(user.id);
+      res.json({ message: "Email verified" });
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/password-reset/request", rateLimit("password-reset", byEmail), async (req, res) => {
+    try {
+      const user = byEmail(req) && await storage.getUserByEmail(req.body.email);
+      if (user && !user.bannedAt) {
+        await sendPasswordResetEmail(user);
+      }
+      res.json({ message: "If an account uses that email, a reset link is on its way" });
+    } catch (error) {
+      console.error("Error sending password reset email:", error);
+      res.status(500).json({ message: "Failed to send password reset email" });
+    }
+  });
+
+  app.post("/api/password-reset/confirm", rateLimit("password-reset-confirm"), async (req, res) => {
+    try {
+      const { token, password } = req.body;
+      if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const user = typeof token === "string" && await verifyAccountToken(token, "reset-password");
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.updatePassword(user.id, await hashPassword(password));
+      // Receiving the link proves the address too, and whoever knew the old password is signed out
+      if (!user.emailVerifiedAt) await storage.markEmailVerified(user.id);
+      await storage.deleteUserSessions(user.id);
+      res.json({ message: "Password updated, you can now log in" });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+}
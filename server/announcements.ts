@@ -0,0 +1,114 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { insertAnnouncementSchema, type InsertAnnouncement } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./auth";
+import { broadcast } from "./live";
+
+/**
+ * Keeps only the target that matches the audience, and checks it exists.
+ * Returns an error message for a missing target.
+ */
+async function resolveTarget(announcement: InsertAnnouncement): Promise<InsertAnnouncement | string> {
+  const challengeId = announcement.audience === "challenge-solvers" ? announcement.challengeId! : null;
+  const teamId = announcement.audience === "team" ? announcement.teamId! : null;
+
+  if (challengeId && !(await storage.getChallenge(challengeId))) return "Challenge not found";
+  if (teamId && !(await storage.getTeam(teamId))) return "Team not found";
+  return { ...announcement, challengeId, teamId };
+}
+
+export function registerAnnouncementRoutes(app: Express) {
+  // Announcements addressed to the current player, newest first
+  app.get("/api/announcements", requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getUserAnnouncements(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching announcements:", error);
+      res.status(500).json({ message: "Failed to fetch announcements" });
+    }
+  });
+
+  // Marks the given announcements, or all of them without ids, as read
+  app.post("/api/announcements/read", requireAuth, async (req, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.string()).optional() }).parse(req.body ?? {});
+      const unread = (await storage.getUserAnnouncements(req.user!.id))
+        .filter(announcement => !announcement.read && (!ids || ids.includes(announcement.id)));
+      await storage.markAnnouncementsRead(req.user!.id, unread.map(announcement => announcement.id));
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error marking announcements read:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid announcement ids", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to mark announcements read" });
+    }
+  });
+
+  app.get("/api/admin/announcements", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getAnnouncements());
+    } catch (error) {
+      console.error("Error fetching admin announcements:", error);
+      res.status(500).json({ message: "Failed to fetch announcements" });
+    }
+  });
+
+  app.post("/api/admin/announcements", requireAdmin, async (req, res) => {
+    try {
+      const announcement = await resolveTarget(insertAnnouncementSchema.parse(req.body));
+      if (typeof announcement === "string") {
+        return res.status(404).json({ message: announcement });
+      }
+
+      const created = await storage.createAnnouncement({ ...announcement, createdById: req.user!.id });
+      broadcast({ type: "announcements" });
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating announcement:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid announcement data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create announcement" });
+    }
+  });
+
+  app.put("/api/admin/announcements/:id", requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.getAnnouncement(req.params.id))) {
+        return res.status(404).json({ message: "Announcement not found" });
+      }
+
+      const announcement = await resolveTarget(insertAnnouncementSchema.parse(req.body));
+      if (typeof announcement === "string") {
+        return res.status(404).json({ message: announcement });
+      }
+
+      const updated = await storage.updateAnnouncement(req.params.id, announcement);
+      broadcast({ type: "announcements" });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating announcement:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid announcement data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update announcement" });
+    }
+  });
+
+  app.delete("/api/admin/announcements/:id", requireAdmin, async (req, res) => {
+    try {
+      if (!(await storage.getAnnouncement(req.params.id))) {
+        return res.status(404).json({ message: "Announcement not found" });
+      }
+
+      await storage.deleteAnnouncement(req.params.id);
+      broadcast({ type: "announcements" });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting announcement:", error);
+      res.status(500).json({ message: "Failed to delete announcement" });
+    }
+  });
+}
@@ -0,0 +1,124 @@
+import { storage } from "./storage";
+
+// Identical wrong flags from different accounts this close together look copied
+const IDENTICAL_ATTEMPT_WINDOW_MS = 10 * 60 * 1000;
+// This many solves inside the window is faster than anyone can plausibly work
+const FAST_SOLVE_COUNT = 3;
+const FAST_SOLVE_WINDOW_MS = 2 * 60 * 1000;
+
+interface AccountRef {
+  userId: string;
+  username: string;
+}
+
+export interface AntiCheatReport {
+  sharedIps: Array<{ ipAddress: string; accounts: Array<AccountRef & { submissionCount: number }> }>;
+  identicalWrongFlags: Array<{
+    challengeId: string;
+    challengeTitle: string;
+    flagAttempt: string;
+    accounts: AccountRef[];
+    firstAt: Date | null;
+    lastAt: Date | null;
+  }>;
+  fastSolves: Array<AccountRef & { solveCount: number; windowSeconds: number; challenges: string[]; startedAt: Date | null }>;
+  solvesWithoutDownload: Array<AccountRef & { challengeId: string; challengeTitle: string; solvedAt: Date | null }>;
+}
+
+const time = (date: Date | null) => date?.getTime() ?? 0;
+
+async function findSharedIps(): Promise<AntiCheatReport["sharedIps"]> {
+  const groups = new Map<string, AntiCheatReport["sharedIps"][number]>();
+  for (const row of await storage.getSharedIpAccounts()) {
+    const group = groups.get(row.ipAddress) ?? { ipAddress: row.ipAddress, accounts: [] };
+    group.accounts.push({ userId: row.userId, username: row.username, submissionCount: row.submissionCount });
+    groups.set(row.ipAddress, group);
+  }
+  return Array.from(groups.values());
+}
+
+async function findIdenticalWrongFlags(): Promise<AntiCheatReport["identicalWrongFlags"]> {
+  const findings: AntiCheatReport["identicalWrongFlags"] = [];
+  const attempts = await storage.getWrongSubmissions();
+
+  // Submissions come sorted by challenge, attempt and time, so each run of equal attempts is contiguous
+  let start = 0;
+  while (start < attempts.length) {
+    let end = start;
+    while (
+      end + 1 < attempts.length &&
+      attempts[end + 1].challengeId === attempts[start].challengeId &&
+      attempts[end + 1].flagAttempt === attempts[start].flagAttempt
+    ) {
+      end++;
+    }
+
+    // Split the run wherever consecutive attempts are further apart than the window
+    let clusterStart = start;
+    for (let i = start; i <= end; i++) {
+      const closesCluster = i === end || time(attempts[i + 1].submittedAt) - time(attempts[i].submittedAt) > IDENTICAL_ATTEMPT_WINDOW_MS;
+      if (!closesCluster) continue;
+
+      const cluster = attempts.slice(clusterStart, i + 1);
+      const accounts = new Map(cluster.map(attempt => [attempt.userId, { userId: attempt.userId, username: attempt.username }]));
+      if (accounts.size > 1) {
+        findings.push({
+          challengeId: cluster[0].challengeId,
+          challengeTitle: cluster[0].challengeTitle,
+          flagAttempt: cluster[0].flagAttempt,
+          accounts: Array.from(accounts.values()),
+          firstAt: cluster[0].submittedAt,
+          lastAt: cluster[cluster.length - 1].submittedAt,
+        });
+      }
+      clusterStart = i + 1;
+    }
+    start = end + 1;
+  }
+
+  return findings;
+}
+
+async function findFastSolves(): Promise<AntiCheatReport["fastSolves"]> {
+  const findings: AntiCheatReport["fastSolves"] = [];
+  const timeline = await storage.getSolveTimeline();
+
+  // Solves come sorted by player and time; report each player's densest burst once
+  let start = 0;
+  while (start < timeline.length) {
+    let end = start;
+    while (end + 1 < timeline.length && timeline[end + 1].userId === timeline[start].userId) end++;
+
+    let worst: AntiCheatReport["fastSolves"][number] | null = null;
+    for (let i = start; i + FAST_SOLVE_COUNT - 1 <= end; i++) {
+      const last = i + FAST_SOLVE_COUNT - 1;
+      const span = time(timeline[last].solvedAt) - time(timeline[i].solvedAt);
+      if (span <= FAST_SOLVE_WINDOW_MS && (!worst || span / 1000 < worst.windowSeconds)) {
+        const burst = timeline.slice(i, last + 1);
+        worst = {
+          userId: timeline[i].userId,
+          username: timeline[i].username,
+          solveCount: burst.length,
+          windowSeconds: Math.round(span / 1000),
+          challenges: burst.map(solve => solve.challengeTitle),
+          startedAt: timeline[i].solvedAt,
+        };
+      }
+    }
+    if (worst) findings.push(worst);
+    start = end + 1;
+  }
+
+  return findings.sort((a, b) => a.windowSeconds - b.windowSeconds);
+}
+
+export async function buildAntiCheatReport(): Promise<AntiCheatReport> {
+  const [sharedIps, identicalWrongFlags, fastSolves, solvesWithoutDownload] = await Promise.all([
+    findSharedIps(),
+    findIdenticalWrongFlags(),
+    findFastSolves(),
+    storage.getSolvesWithoutDownload(),
+  ]);
+
+  return { sharedIps, identicalWrongFlags, fastSolves, solvesWithoutDownload };
+}
@@ -0,0 +1,128 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { createApiTokenSchema, type ApiToken, type ApiTokenScope, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { rateLimit } from "./rate-limit";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with a personal API token, with the account it belongs to
+      apiToken?: ApiToken & { user: User };
+    }
+  }
+}
+
+const TOKEN_PREFIX = "ctf_";
+// Enough of the token to tell tokens apart in the list, far too little to guess the rest
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+const MAX_TOKENS_PER_USER = 20;
+// lastUsedAt is only rewritten once a minute for a busy token
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export const API_TOKEN_NOT_ALLOWED_MESSAGE = "This endpoint can't be used with an API token";
+
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toPublicApiToken(token: ApiToken) {
+  const { tokenHash, ...publicToken } = token;
+  return publicToken;
+}
+
+// Scripts get a more generous budget than the login-style default, but still per token
+const limitPerToken = rateLimit("api-token", req => req.apiToken?.id, { account: 120, ip: 300 });
+
+/**
+ * Authenticates `Authorization: Bearer <token>` requests. A token replaces any
+ * session cookie sent along with it, and the request stays anonymous until a
+ * route accepts one of the token's scopes with allowApiToken.
+ */
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("Authorization");
+  if (!header?.startsWith("Bearer ")) return next();
+
+  try {
+    const token = await storage.getApiTokenByHash(hashApiToken(header.slice("Bearer ".length).trim()));
+    const now = new Date();
+    const user = token && (!token.expiresAt || token.expiresAt > now) ? await storage.getUser(token.userId) : undefined;
+    if (!token || !user || user.bannedAt || !user.emailVerifiedAt) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    req.user = undefined;
+    req.apiToken = { ...token, user };
+    storage.touchApiToken(token.id, new Date(now.getTime() - TOUCH_INTERVAL_MS)).catch(error => {
+      console.error("Error updating API token usage:", error);
+    });
+    limitPerToken(req, res, next);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/** Lets requests made with an API token that has `scope` through as the token's owner. */
+export function allowApiToken(scope: ApiTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiToken) return next();
+    if (!req.apiToken.scopes.includes(scope)) {
+      return res.status(403).json({ message: `This API token doesn't have the ${scope} scope` });
+    }
+    req.user = req.apiToken.user;
+    next();
+  };
+}
+
+export function registerApiTokenRoutes(app: Express, requireAuth: (req: any, res: any, next: any) => void) {
+  app.get("/api/tokens", requireAuth, async (req, res) => {
+    try {
+      const tokens = await storage.getUserApiTokens(req.user!.id);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/tokens", requireAuth, async (req, res) => {
+    try {
+      const { label, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+      if ((await storage.getUserApiTokens(req.user!.id)).length >= MAX_TOKENS_PER_USER) {
+        return res.status(400).json({ message: `You can have at most ${MAX_TOKENS_PER_USER} API tokens. Revoke one first.` });
+      }
+
+      const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+      const created = await storage.createApiToken({
+        userId: req.user!.id,
+        label,
+        tokenHash: hashApiToken(token),
+        tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+
+      // The only time the token itself is sent; only its hash is stored
+      res.status(201).json({ ...toPublicApiToken(created), token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid token data", errors: error.errors });
+      }
+      console.error("Error creating API token:", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/tokens/:id", requireAuth, async (req, res) => {
+    try {
+      if (!(await storage.deleteApiToken(req.params.id, req.user!.id))) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      res.json({ message: "API token revoked" });
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+}
@@ -0,0 +1,122 @@
+import net from "net";
+import { createReadStream } from "fs";
+import type { ArtifactScanResult, ScanVerdict } from "@shared/schema";
+
+/**
+ * Inspects an uploaded file before an admin reviews it. Pick any number with
+ * ARTIFACT_SCANNERS (comma separated):
+ * - clamav: streams the file to clamd over CLAMAV_SOCKET, or CLAMAV_HOST:CLAMAV_PORT
+ * - stub: flags files containing the EICAR test signature, for local use and tests
+ * Without ARTIFACT_SCANNERS, clamav is used when CLAMAV_SOCKET or CLAMAV_HOST is set and stub otherwise.
+ */
+export interface ArtifactScanner {
+  name: string;
+  scan(filepath: string): Promise<{ verdict: ScanVerdict; detail: string | null }>;
+}
+
+const CLAMAV_TIMEOUT_MS = parseInt(process.env.CLAMAV_TIMEOUT_MS || "60000", 10);
+
+// The standard antivirus test file, harmless but detected by every scanner
+const EICAR_SIGNATURE = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!H+H*";
+
+class ClamAvScanner implements ArtifactScanner {
+  name = "clamav";
+
+  scan(filepath: string): Promise<{ verdict: ScanVerdict; detail: string | null }> {
+    return new Promise((resolve, reject) => {
+      const socket = process.env.CLAMAV_SOCKET
+        ? net.createConnection(process.env.CLAMAV_SOCKET)
+        : net.createConnection(parseInt(process.env.CLAMAV_PORT || "3310", 10), process.env.CLAMAV_HOST || "127.0.0.1");
+      let reply = "";
+
+      socket.setTimeout(CLAMAV_TIMEOUT_MS, () => socket.destroy(new Error("clamd did not answer in time")));
+      socket.on("data", (chunk) => { reply += chunk.toString(); });
+      socket.on("error", reject);
+      socket.on("close", (hadError) => {
+        if (!hadError) resolve(parseClamdReply(reply));
+      });
+
+      // INSTREAM sends the file as length-prefixed chunks, ended by a zero length
+      socket.on("connect", () => {
+        socket.write("zINSTREAM\0");
+        const file = createReadStream(filepath);
+        file.on("data", (chunk) => {
+          const data = chunk as Buffer;
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(data.length);
+          socket.write(length);
+          if (!socket.write(data)) {
+            file.pause();
+            socket.once("drain", () => file.resume());
+          }
+        });
+        file.on("end", () => socket.end(Buffer.alloc(4)));
+        file.on("error", (error) => socket.destroy(error));
+      });
+    });
+  }
+}
+
+// clamd answers "stream: OK", "stream: <signature> FOUND" or "<message> ERROR"
+function parseClamdReply(reply: string): { verdict: ScanVerdict; detail: string | null } {
+  const line = reply.replace(/\0/g, "").trim();
+  if (line.endsWith("FOUND")) {
+    return { verdict: "infected", detail: line.replace(/^stream:\s*/, "").replace(/\s*FOUND$/, "") };
+  }
+  if (line.endsWith("OK")) {
+    return { verdict: "clean", detail: null };
+  }
+  return { verdict: "error", detail: line || "clamd closed the connection without an answer" };
+}
+
+class StubScanner implements ArtifactScanner {
+  name = "stub";
+
+  scan(filepath: string): Promise<{ verdict: ScanVerdict; detail: string | null }> {
+    return new Promise((resolve, reject) => {
+      // Keeps the end of the previous chunk so a signature split across chunks is still found
+      let tail = "";
+      let found = false;
+      const file = createReadStream(filepath, { encoding: "latin1" });
+      file.on("data", (chunk) => {
+        const text = tail + chunk;
+        if (text.includes(EICAR_SIGNATURE)) {
+          found = true;
+          file.destroy();
+          resolve({ verdict: "infected", detail: "EICAR-Test-File" });
+        }
+        tail = text.slice(-EICAR_SIGNATURE.length);
+      });
+      file.on("end", () => {
+        if (!found) resolve({ verdict: "clean", detail: "Only checks for the EICAR test file" });
+      });
+      file.on("error", reject);
+    });
+  }
+}
+
+let scanners: ArtifactScanner[] | undefined;
+
+function getArtifactScanners(): ArtifactScanner[] {
+  if (!scanners) {
+    const configured = process.env.ARTIFACT_SCANNERS
+      || (process.env.CLAMAV_SOCKET || process.env.CLAMAV_HOST ? "clamav" : "stub");
+    scanners = configured.split(",").map(name => name.trim()).filter(Boolean).map(name => {
+      if (name === "clamav") return new ClamAvScanner();
+      if (name === "stub") return new StubScanner();
+      throw new Error(`Unknown artifact scanner "${name}" in ARTIFACT_SCANNERS`);
+    });
+  }
+  return scanners;
+}
+
+/** Runs every configured scanner; a scanner that fails is reported with an error verdict. */
+export async function scanArtifact(filepath: string): Promise<ArtifactScanResult[]> {
+  return Promise.all(getArtifactScanners().map(async (scanner) => {
+    try {
+      return { scanner: scanner.name, ...await scanner.scan(filepath) };
+    } catch (error: any) {
+      return { scanner: scanner.name, verdict: "error" as const, detail: error?.message ?? String(error) };
+    }
+  }));
+}
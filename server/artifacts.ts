@@ -0,0 +1,185 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import path from "path";
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { access, unlink } from "fs/promises";
+import { artifactStatuses, type ArtifactUpload, type User } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { requireAdmin } from "./auth";
+import { scanArtifact } from "./artifact-scanners";
+
+function uploadPath(filename: string): string {
+  return path.join(process.cwd(), "uploads", path.basename(filename));
+}
+
+function sha256File(filepath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(filepath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+async function scanUpload(upload: ArtifactUpload): Promise<void> {
+  await storage.setArtifactScanResults(upload.id, await scanArtifact(uploadPath(upload.filename)));
+}
+
+/**
+ * Records freshly written challenge artifacts as quarantined, through `target`
+ * so it can be part of a transaction. Call it for every file put in ./uploads,
+ * then scan the records with scanArtifacts once they are committed.
+ */
+export async function recordArtifacts(
+  artifacts: Array<{ name: string; url: string; size: number }>,
+  challengeId: string,
+  uploadedById: string,
+  target: IStorage = storage,
+): Promise<ArtifactUpload[]> {
+  const uploads: ArtifactUpload[] = [];
+  for (const artifact of artifacts) {
+    const filename = path.basename(artifact.url);
+    uploads.push(await target.createArtifactUpload({
+      filename,
+      originalName: artifact.name,
+      size: artifact.size,
+      sha256: await sha256File(uploadPath(filename)),
+      challengeId,
+      uploadedById,
+    }));
+  }
+  return uploads;
+}
+
+/** Scans recorded uploads in the background. */
+export function scanArtifacts(uploads: ArtifactUpload[]): void {
+  for (const upload of uploads) {
+    scanUpload(upload).catch(error => console.error(`Error scanning ${upload.filename}:`, error));
+  }
+}
+
+/**
+ * Deletes the files multer wrote for a request once it is answered, unless the
+ * handler recorded them and set res.locals.artifactsRecorded. Mount it right
+ * after the upload middleware, so rejected and failed uploads leave nothing behind.
+ */
+export function discardUnrecordedUploads(req: Request, res: Response, next: NextFunction) {
+  res.on("finish", () => {
+    if (res.locals.artifactsRecorded) return;
+    for (const file of (req.files as Express.Multer.File[] | undefined) ?? []) {
+      unlink(file.path).catch(error => console.error(`Error removing unrecorded upload ${file.filename}:`, error));
+    }
+  });
+  next();
+}
+
+/**
+ * Records artifacts from before the quarantine existed as approved, since players
+ * could already download them. Runs at startup; files missing on disk are skipped.
+ */
+export async function backfillArtifactUploads(): Promise<number> {
+  let recorded = 0;
+  for (const challenge of await storage.getChallenges()) {
+    for (const artifact of challenge.artifacts ?? []) {
+      const filename = path.basename(artifact.url);
+      if (await storage.getArtifactUploadByFilename(filename)) continue;
+      try {
+        await access(uploadPath(filename));
+      } catch {
+        console.warn(`Artifact ${filename} of challenge ${challenge.id} is missing from ./uploads`);
+        continue;
+      }
+      await storage.createArtifactUpload({
+        filename,
+        originalName: artifact.name,
+        size: artifact.size,
+        sha256: await sha256File(uploadPath(filename)),
+        challengeId: challenge.id,
+        uploadedById: challenge.creatorId,
+        status: "approved",
+      });
+      recorded++;
+    }
+  }
+  return recorded;
+}
+
+/**
+ * Why a file in ./uploads may not be downloaded by this user, or null if it may.
+ * Admins can download everything so they can review it, uploaders their own files.
+ * Files without a record were never finished or never attached to a challenge.
+ */
+export async function getDownloadRestriction(filename: string, user: User | undefined): Promise<string | null> {
+  if (user?.isAdmin) return null;
+
+  const upload = await storage.getArtifactUploadByFilename(path.basename(filename));
+  if (!upload) return "File not found";
+  if (upload.uploadedById === user?.id) return null;
+  if (upload.status !== "approved") return "This file is waiting for review";
+
+  const challenge = upload.challengeId ? await storage.getChallenge(upload.challengeId) : undefined;
+  if (!challenge || (!challenge.published && challenge.creatorId !== user?.id)) return "File not found";
+  return null;
+}
+
+export function registerArtifactRoutes(app: Express) {
+  // The review queue: quarantined uploads by default, ?status=approved|rejected for decided ones
+  app.get("/api/admin/artifacts", requireAdmin, async (req, res) => {
+    try {
+      const status = z.enum(artifactStatuses).parse(req.query.status || "quarantined");
+      res.json(await storage.getArtifactUploads(status));
+    } catch (error) {
+      console.error("Error fetching artifact uploads:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid artifact status", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch artifact uploads" });
+    }
+  });
+
+  app.post("/api/admin/artifacts/:id/approve", requireAdmin, async (req, res) => {
+    try {
+      const upload = await storage.getArtifactUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      await storage.reviewArtifactUpload(upload.id, "approved", req.user!.id);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error approving artifact:", error);
+      res.status(500).json({ message: "Failed to approve artifact" });
+    }
+  });
+
+  // Rejected files stay on disk for reference but are never served to players
+  app.post("/api/admin/artifacts/:id/reject", requireAdmin, async (req, res) => {
+    try {
+      const upload = await storage.getArtifactUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      await storage.reviewArtifactUpload(upload.id, "rejected", req.user!.id);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error rejecting artifact:", error);
+      res.status(500).json({ message: "Failed to reject artifact" });
+    }
+  });
+
+  // Scans again with the scanners configured now, e.g. after clamd was unreachable
+  app.post("/api/admin/artifacts/:id/rescan", requireAdmin, async (req, res) => {
+    try {
+      const upload = await storage.getArtifactUpload(req.params.id);
+      if (!upload) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      await scanUpload(upload);
+      res.json(await storage.getArtifactUpload(upload.id));
+    } catch (error) {
+      console.error("Error rescanning artifact:", error);
+      res.status(500).json({ message: "Failed to rescan artifact" });
+    }
+  });
+}
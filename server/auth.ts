@@ -5,8 +5,20 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
+import { rateLimit } from "./rate-limit";
+import { csrfProtection } from "./csrf";
+import { registerAccountEmailRoutes, sendVerificationEmail } from "./account-email";
 import { User as SelectUser } from "@shared/schema";
-import MemoryStore from "memorystore";
+import { DatabaseSessionStore, describeSession } from "./session-store";
+import { authenticateApiToken, allowApiToken, registerApiTokenRoutes, API_TOKEN_NOT_ALLOWED_MESSAGE } from "./api-tokens";
+import {
+  registerTwoFactorRoutes,
+  isTwoFactorEnabled,
+  checkSecondFactor,
+  needsStaffEnrollment,
+  STAFF_ENROLLMENT_MESSAGE,
+  PENDING_LOGIN_TTL_MS,
+} from "./two-factor";
 
 declare global {
   namespace Express {
@@ -29,14 +41,18 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
-  const memoryStore = new (MemoryStore(session))();
+/** A user as sent to the browser, without the password hash or 2FA secrets. */
+export function toPublicUser<T extends SelectUser>(user: T) {
+  const { password, totpSecret, totpLastStep, totpRecoveryCodes, ...publicUser } = user;
+  return { ...publicUser, twoFactorEnabled: isTwoFactorEnabled(user) };
+}
 
+export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
     resave: false,
     saveUninitialized: false,
-    store: memoryStore,
+    store: new DatabaseSessionStore(),
     cookie: {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
@@ -46,8 +62,16 @@ export function setupAuth(app: Express) {
 
   app.set("trust proxy", 1);
   app.use(session(sessionSettings));
+  app.use("/api", csrfProtection);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use((req, _res, next) => {
+    if (req.user && !req.session.client) {
+      req.session.client = { ipAddress: req.ip, userAgent: req.get("User-Agent") };
+    }
+    next();
+  });
+  app.use("/api", authenticateApiToken);
 
   passport.use(
     new LocalStrategy(
@@ -57,6 +81,10 @@ export function setupAuth(app: Express) {
           const user = await storage.getUserByEmail(email);
           if (!user || !(await comparePasswords(password, user.password))) {
             return done(null, false);
+          } else if (user.bannedAt) {
+            return done(null, false, { message: "This account has been banned" });
+          } else if (!user.emailVerifiedAt) {
+            return done(null, false, { message: "Confirm your email address before logging in. Check your inbox for the link." });
           } else {
             return done(null, user);
           }
@@ -71,13 +99,14 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: string, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // A ban ends any session the player still has open
+      done(null, user && !user.bannedAt ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", rateLimit("register", (req) => req.body?.email), async (req, res, next) => {
     try {
       const { username, email, password } = req.body;
 
@@ -97,19 +126,63 @@ export function setupAuth(app: Express) {
         password: await hashPassword(password),
       });
 
+      // The account can log in once the address is confirmed
+      await sendVerificationEmail(user);
+      res.status(201).json({ verificationRequired: true, email: user.email });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Failed logins count per address and client, so nobody can lock a player out by guessing their email
+  app.post("/api/login", rateLimit("login", (req) => typeof req.body?.email === "string" ? `${req.body.email}|${req.ip}` : undefined), (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid email or password" });
+      }
+
+      // Accounts with 2FA only get a session once the code has been checked too
+      if (isTwoFactorEnabled(user)) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + PENDING_LOGIN_TTL_MS };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/login/2fa", rateLimit("login-2fa", (req) => req.session.pendingTwoFactor?.userId), async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your login has expired, please sign in again" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.bannedAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+
+      if (typeof req.body.code !== "string" || !(await checkSecondFactor(user, req.body.code))) {
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(toPublicUser(user));
       });
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
-  });
-
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -117,21 +190,58 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", allowApiToken("profile:read"), (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
+  });
+
+  registerTwoFactorRoutes(app, requireAuth);
+  registerAccountEmailRoutes(app);
+  registerApiTokenRoutes(app, requireAuth);
+
+  app.get("/api/sessions", requireAuth, async (req, res, next) => {
+    try {
+      const sessions = await storage.getUserSessions(req.user!.id, new Date());
+      res.json(sessions.map(row => describeSession(row, req.sessionID)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/sessions/:id", requireAuth, async (req, res, next) => {
+    try {
+      const target = await storage.getSessionById(req.params.id);
+      if (!target || target.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.destroySession(target.sid);
+      if (target.sid === req.sessionID) {
+        return req.logout((err) => {
+          if (err) return next(err);
+          res.json({ message: "Signed out" });
+        });
+      }
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      next(error);
+    }
   });
 }
 
 export function requireAuth(req: any, res: any, next: any) {
   if (!req.isAuthenticated()) {
+    // A valid token on a route that doesn't accept any of its scopes
+    if (req.apiToken) return res.status(403).json({ message: API_TOKEN_NOT_ALLOWED_MESSAGE });
     return res.status(401).json({ message: "Authentication required" });
   }
   next();
 }
 
 export function requireAdmin(req: any, res: any, next: any) {
+  if (req.apiToken) return res.status(403).json({ message: API_TOKEN_NOT_ALLOWED_MESSAGE });
   if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
   if (!req.user || !(req.user as any).isAdmin) return res.status(403).json({ message: "Admin access required" });
+  if (needsStaffEnrollment(req.user)) return res.status(403).json({ message: STAFF_ENROLLMENT_MESSAGE, twoFactorSetupRequired: true });
   next();
 }
@@ -0,0 +1,541 @@
+import type { Express } from "express";
+import multer from "multer";
+import { copyFile, mkdtemp, readdir, readFile, realpath, rm, stat } from "fs/promises";
+import { createHash, randomBytes } from "crypto";
+import os from "os";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import * as tar from "tar";
+import { z } from "zod";
+import {
+  flagDefinitionSchema,
+  insertChallengeSchema,
+  scoringTypes,
+  solveModes,
+  type ArtifactUpload,
+  type Challenge,
+  type FlagDefinition,
+  type ScoringType,
+  type SolveMode,
+} from "@shared/schema";
+import { computeChallengeValue, getScoringParams } from "@shared/scoring";
+import { storage, type IStorage } from "./storage";
+import { requireAdmin } from "./auth";
+import { hasSameFlags } from "./flags";
+import { recordArtifacts, scanArtifacts } from "./artifacts";
+
+/**
+ * challenge.yml, one per challenge directory. Paths are relative to that directory:
+ *
+ *   id: warmup-rsa              # stable identifier, matched on re-import
+ *   title: Warmup RSA
+ *   category: Cryptography
+ *   difficulty: easy
+ *   points: 100
+ *   description_file: README.md # or an inline `description`
+ *   scoring: { type: linear, minimum: 50, decay: 10 }  # optional, static by default
+ *   flags:
+ *     - CTF{plain_static_flag}
+ *     - { type: regex, value: "CTF\\{r[s5]a\\}" }
+ *   hints:
+ *     - { text: Small exponent?, cost: 10 }
+ *   artifacts: [files/output.txt]
+ *   published: true             # optional; left as is on update when missing
+ *   solve_mode: open            # optional; open, first-blood-lock or first-blood-bonus
+ *   event: <event id>           # optional
+ */
+const challengeSpecSchema = z.object({
+  id: z.string().max(255).regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, "id may only contain letters, digits, '.', '_' and '-'"),
+  title: z.string().trim().min(1).max(500),
+  category: z.string().trim().min(1).max(255),
+  difficulty: z.string().trim().min(1).max(50),
+  points: z.number().int().positive(),
+  description: z.string().optional(),
+  description_file: z.string().optional(),
+  scoring: z.object({
+    type: z.enum(scoringTypes),
+    minimum: z.number().int().min(0).optional(),
+    decay: z.number().int().positive().optional(),
+  }).strict().optional(),
+  flags: z.array(z.union([
+    z.string().min(1).transform((value): FlagDefinition => ({ type: "static", value })),
+    flagDefinitionSchema,
+  ])).min(1, "At least one flag is required"),
+  hints: z.array(z.object({ text: z.string().min(1), cost: z.number().int().min(0).default(0) }).strict()).default([]),
+  artifacts: z.array(z.string().min(1)).default([]),
+  published: z.boolean().optional(),
+  solve_mode: z.enum(solveModes).nullish(),
+  event: z.string().nullish(),
+}).strict().refine((spec) => (spec.description === undefined) !== (spec.description_file === undefined), {
+  message: "Set either description or description_file",
+  path: ["description"],
+}).refine((spec) => {
+  const scoring = spec.scoring;
+  return !scoring || scoring.type === "static"
+    || (scoring.minimum !== undefined && scoring.minimum <= spec.points && scoring.decay !== undefined);
+}, {
+  message: "Dynamic scoring needs a minimum no higher than the points and a decay",
+  path: ["scoring"],
+});
+
+const SPEC_FILES = ["challenge.yml", "challenge.yaml"];
+// How deep to look for challenge directories, e.g. <root>/<category>/<challenge>/challenge.yml
+const MAX_SEARCH_DEPTH = 4;
+const MAX_ARTIFACT_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+interface ImportedArtifact {
+  name: string;
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+// A challenge.yml with its files read and checked
+interface ChallengeSpec {
+  externalId: string;
+  title: string;
+  category: string;
+  difficulty: string;
+  description: string;
+  points: number;
+  scoringType: ScoringType;
+  minimumPoints: number | null;
+  decay: number | null;
+  flags: FlagDefinition[];
+  hints: Array<{ text: string; cost: number }>;
+  artifacts: ImportedArtifact[];
+  published?: boolean;
+  solveMode: SolveMode | null;
+  eventId: string | null;
+}
+
+interface ChallengeSource {
+  // Path of the challenge.yml within the import
+  file: string;
+  spec?: ChallengeSpec;
+  errors: string[];
+}
+
+export interface ChallengeImportChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface ChallengeImportEntry {
+  file: string;
+  externalId?: string;
+  title?: string;
+  challengeId?: string;
+  action: "create" | "update" | "unchanged" | "invalid";
+  changes: ChallengeImportChange[];
+  errors: string[];
+  // Set once an import is applied; a failed challenge is left as it was
+  outcome?: "applied" | "failed";
+}
+
+interface PlannedImport {
+  entry: ChallengeImportEntry;
+  spec?: ChallengeSpec;
+  existing?: Challenge;
+  flagsChanged: boolean;
+  artifactsChanged: boolean;
+}
+
+function sha256(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function isInside(root: string, target: string): boolean {
+  return target === root || target.startsWith(root + path.sep);
+}
+
+// Resolves symlinks too, so a link can't pull files from elsewhere on the server into a challenge
+async function resolveFileInside(directory: string, relative: string): Promise<string> {
+  let resolved: string;
+  try {
+    resolved = await realpath(path.resolve(directory, relative));
+  } catch {
+    throw new Error(`${relative} not found`);
+  }
+  if (!isInside(await realpath(directory), resolved)) throw new Error(`${relative} is outside the challenge directory`);
+  if (!(await stat(resolved)).isFile()) throw new Error(`${relative} is not a file`);
+  return resolved;
+}
+
+async function findSpecFiles(directory: string, depth = 0): Promise<string[]> {
+  const entries = (await readdir(directory, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+  const spec = entries.find(entry => entry.isFile() && SPEC_FILES.includes(entry.name));
+  // A challenge directory isn't searched any further
+  if (spec) return [path.join(directory, spec.name)];
+  if (depth >= MAX_SEARCH_DEPTH) return [];
+
+  const found: string[] = [];
+  for (const entry of entries) {
+    if (entry.isDirectory() && !entry.name.startsWith(".") && entry.name !== "node_modules") {
+      found.push(...(await findSpecFiles(path.join(directory, entry.name), depth + 1)));
+    }
+  }
+  return found;
+}
+
+async function loadSource(specFile: string, root: string): Promise<ChallengeSource> {
+  const file = path.relative(root, specFile);
+  const directory = path.dirname(specFile);
+
+  let raw: unknown;
+  try {
+    raw = parseYaml(await readFile(specFile, "utf8"));
+  } catch (error: any) {
+    return { file, errors: [`Invalid YAML: ${error?.message ?? error}`] };
+  }
+
+  const parsed = challengeSpecSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { file, errors: parsed.error.errors.map(issue => `${issue.path.join(".") || "challenge"}: ${issue.message}`) };
+  }
+
+  const spec = parsed.data;
+  try {
+    const description = spec.description ?? await readFile(await resolveFileInside(directory, spec.description_file!), "utf8");
+    const artifacts: ImportedArtifact[] = [];
+    for (const artifact of spec.artifacts) {
+      const artifactPath = await resolveFileInside(directory, artifact);
+      const content = await readFile(artifactPath);
+      if (content.length > MAX_ARTIFACT_BYTES) throw new Error(`${artifact} is larger than 50MB`);
+      artifacts.push({ name: path.basename(artifact), path: artifactPath, size: content.length, sha256: sha256(content) });
+    }
+
+    const scoringType = spec.scoring?.type ?? "static";
+    const isDynamic = scoringType !== "static";
+    return {
+      file,
+      errors: [],
+      spec: {
+        externalId: spec.id,
+        title: spec.title,
+        category: spec.category,
+        difficulty: spec.difficulty,
+        description,
+        points: spec.points,
+        scoringType,
+        minimumPoints: isDynamic ? spec.scoring!.minimum! : null,
+        decay: isDynamic ? spec.scoring!.decay! : null,
+        flags: spec.flags,
+        hints: spec.hints,
+        artifacts,
+        published: spec.published,
+        solveMode: spec.solve_mode ?? null,
+        eventId: spec.event ?? null,
+      },
+    };
+  } catch (error: any) {
+    return { file, errors: [error?.message ?? String(error)] };
+  }
+}
+
+/** Reads every challenge.yml under root. Broken ones come back with their errors instead of a spec. */
+export async function loadChallengeSources(root: string): Promise<ChallengeSource[]> {
+  const specFiles = await findSpecFiles(root);
+  return Promise.all(specFiles.map(specFile => loadSource(specFile, root)));
+}
+
+function describeValue(value: unknown): string {
+  if (value === null || value === undefined) return "(none)";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+// The columns an import sets directly; points and flags need more care and are compared separately
+function challengeFields(spec: ChallengeSpec): Partial<Challenge> {
+  const isDynamic = spec.scoringType !== "static";
+  return {
+    title: spec.title,
+    category: spec.category,
+    difficulty: spec.difficulty,
+    description: spec.description,
+    hints: spec.hints,
+    scoringType: spec.scoringType,
+    initialPoints: isDynamic ? spec.points : null,
+    minimumPoints: spec.minimumPoints,
+    decay: spec.decay,
+    solveMode: spec.solveMode,
+    eventId: spec.eventId,
+    ...(spec.published !== undefined ? { published: spec.published } : {}),
+  };
+}
+
+async function sameArtifacts(challenge: Challenge, artifacts: ImportedArtifact[]): Promise<boolean> {
+  const current = challenge.artifacts ?? [];
+  if (current.length !== artifacts.length) return false;
+  for (let i = 0; i < artifacts.length; i++) {
+    if (current[i].name !== artifacts[i].name || current[i].size !== artifacts[i].size) return false;
+    try {
+      const content = await readFile(path.join(process.cwd(), "uploads", path.basename(current[i].url)));
+      if (sha256(content) !== artifacts[i].sha256) return false;
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function planSource(source: ChallengeSource, duplicateIds: Set<string>): Promise<PlannedImport> {
+  const { file, spec } = source;
+  const entry: ChallengeImportEntry = {
+    file,
+    externalId: spec?.externalId,
+    title: spec?.title,
+    action: "invalid",
+    changes: [],
+    errors: [...source.errors],
+  };
+  if (!spec) return { entry, flagsChanged: false, artifactsChanged: false };
+
+  if (duplicateIds.has(spec.externalId)) entry.errors.push(`id ${spec.externalId} is used by more than one challenge.yml`);
+  if (spec.eventId && !(await storage.getEvent(spec.eventId))) entry.errors.push(`event ${spec.eventId} not found`);
+  if (entry.errors.length > 0) return { entry, flagsChanged: false, artifactsChanged: false };
+
+  const existing = await storage.getChallengeByExternalId(spec.externalId);
+  if (!existing) {
+    entry.action = "create";
+    entry.changes = [
+      { field: "points", from: "(none)", to: String(spec.points) },
+      { field: "flags", from: "(none)", to: spec.flags.map(flag => flag.type).join(", ") },
+      { field: "artifacts", from: "(none)", to: describeValue(spec.artifacts.map(artifact => artifact.name)) },
+    ];
+    return { entry, spec, flagsChanged: true, artifactsChanged: spec.artifacts.length > 0 };
+  }
+
+  entry.challengeId = existing.id;
+  for (const [field, value] of Object.entries(challengeFields(spec))) {
+    const current = existing[field as keyof Challenge];
+    if (JSON.stringify(current ?? null) !== JSON.stringify(value ?? null)) {
+      entry.changes.push({ field, from: describeValue(current), to: describeValue(value) });
+    }
+  }
+  // Dynamic challenges are compared by their initial value above, the live value follows the solves
+  if (spec.scoringType === "static" && existing.points !== spec.points) {
+    entry.changes.push({ field: "points", from: String(existing.points), to: String(spec.points) });
+  }
+
+  const flagsChanged = !(await hasSameFlags(existing, spec.flags));
+  if (flagsChanged) {
+    const currentTypes = (await storage.getChallengeFlags(existing.id)).map(flag => flag.type);
+    entry.changes.push({
+      field: "flags",
+      from: currentTypes.length > 0 ? currentTypes.join(", ") : "static",
+      to: spec.flags.map(flag => flag.type).join(", "),
+    });
+  }
+
+  const artifactsChanged = !(await sameArtifacts(existing, spec.artifacts));
+  if (artifactsChanged) {
+    entry.changes.push({
+      field: "artifacts",
+      from: describeValue((existing.artifacts ?? []).map(artifact => artifact.name)),
+      to: describeValue(spec.artifacts.map(artifact => artifact.name)),
+    });
+  }
+
+  entry.action = entry.changes.length > 0 ? "update" : "unchanged";
+  return { entry, spec, existing, flagsChanged, artifactsChanged };
+}
+
+/** Works out what importing the sources would change, without changing anything. */
+export async function planChallengeImport(sources: ChallengeSource[]): Promise<PlannedImport[]> {
+  const seen = new Set<string>();
+  const duplicateIds = new Set<string>();
+  for (const { spec } of sources) {
+    if (!spec) continue;
+    if (seen.has(spec.externalId)) duplicateIds.add(spec.externalId);
+    seen.add(spec.externalId);
+  }
+
+  const plan: PlannedImport[] = [];
+  for (const source of sources) {
+    plan.push(await planSource(source, duplicateIds));
+  }
+  return plan;
+}
+
+// Copies artifacts next to the ones uploaded through the create page
+async function storeArtifacts(artifacts: ImportedArtifact[]): Promise<Array<{ name: string; url: string; size: number }>> {
+  const stored: Array<{ name: string; url: string; size: number }> = [];
+  try {
+    for (const artifact of artifacts) {
+      const filename = `import-${Date.now()}-${randomBytes(4).toString("hex")}${path.extname(artifact.name)}`;
+      await copyFile(artifact.path, path.join(process.cwd(), "uploads", filename));
+      stored.push({ name: artifact.name, url: `/uploads/${filename}`, size: artifact.size });
+    }
+  } catch (error) {
+    await removeStoredArtifacts(stored);
+    throw error;
+  }
+  return stored;
+}
+
+// Copies that never got recorded would otherwise stay in ./uploads for good
+async function removeStoredArtifacts(artifacts: Array<{ url: string }>): Promise<void> {
+  await Promise.all(artifacts.map(artifact =>
+    rm(path.join(process.cwd(), "uploads", path.basename(artifact.url)), { force: true })
+      .catch(error => console.error(`Error removing unrecorded import ${artifact.url}:`, error))
+  ));
+}
+
+// Files are copied first; the database writes for one challenge then commit together
+async function applyPlannedImport(planned: PlannedImport, creatorId: string): Promise<ArtifactUpload[]> {
+  const { spec } = planned;
+  const artifacts = spec && (!planned.existing || planned.artifactsChanged) ? await storeArtifacts(spec.artifacts) : undefined;
+  try {
+    return await storage.transaction(tx => writePlannedImport(tx, planned, creatorId, artifacts));
+  } catch (error) {
+    await removeStoredArtifacts(artifacts ?? []);
+    throw error;
+  }
+}
+
+async function writePlannedImport(
+  tx: IStorage,
+  planned: PlannedImport,
+  creatorId: string,
+  artifacts: Array<{ name: string; url: string; size: number }> | undefined,
+): Promise<ArtifactUpload[]> {
+  const { entry, spec, existing } = planned;
+  if (!spec) return [];
+
+  if (!existing) {
+    const challengeData = insertChallengeSchema.parse({
+      ...challengeFields(spec),
+      externalId: spec.externalId,
+      creatorId,
+      points: spec.points,
+      flags: spec.flags,
+      published: spec.published ?? false,
+    });
+    const created = await tx.createChallenge({ ...challengeData, artifacts: artifacts ?? [] });
+    entry.challengeId = created.id;
+    return recordArtifacts(artifacts ?? [], created.id, creatorId, tx);
+  }
+
+  const update: Partial<Challenge> = challengeFields(spec);
+  if (artifacts) update.artifacts = artifacts;
+  if (planned.flagsChanged) await tx.setChallengeFlags(existing.id, spec.flags);
+  const updated = await tx.updateChallenge(existing.id, update);
+
+  // Goes through setChallengeValue so players who already solved it get the new value too
+  const value = spec.scoringType === "static"
+    ? spec.points
+    : computeChallengeValue(getScoringParams(updated), await tx.getSolveCount(existing.id));
+  await tx.setChallengeValue(existing.id, value);
+  return artifacts ? recordArtifacts(artifacts, existing.id, creatorId, tx) : [];
+}
+
+/**
+ * Applies each planned create or update in a transaction of its own and records
+ * its outcome on the entry. Returns whether every one was applied.
+ */
+export async function applyChallengeImport(plan: PlannedImport[], creatorId: string): Promise<boolean> {
+  let allApplied = true;
+  for (const planned of plan) {
+    const { entry } = planned;
+    if (entry.action !== "create" && entry.action !== "update") continue;
+    try {
+      scanArtifacts(await applyPlannedImport(planned, creatorId));
+      entry.outcome = "applied";
+    } catch (error: any) {
+      console.error(`Error importing ${entry.file}:`, error);
+      entry.challengeId = planned.existing?.id;
+      entry.outcome = "failed";
+      entry.errors.push(`Import failed: ${error?.message ?? error}`);
+      allApplied = false;
+    }
+  }
+  return allApplied;
+}
+
+const archiveUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: MAX_ARCHIVE_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    const name = file.originalname.toLowerCase();
+    if ([".tar", ".tar.gz", ".tgz"].some(ext => name.endsWith(ext))) {
+      cb(null, true);
+    } else {
+      cb(new Error("Upload a .tar, .tar.gz or .tgz archive"));
+    }
+  },
+});
+
+// Only plain files and directories are extracted; node-tar already refuses absolute and ../ paths
+async function extractArchive(archive: string): Promise<string> {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "challenge-import-"));
+  await tar.x({
+    file: archive,
+    cwd: directory,
+    strict: true,
+    filter: (_path, entry) => "type" in entry && (entry.type === "File" || entry.type === "Directory"),
+  });
+  return directory;
+}
+
+export function registerChallengeImportRoutes(app: Express) {
+  // Accepts an uploaded archive, or the name of a directory under CHALLENGE_IMPORT_DIR on the server.
+  // Nothing is changed unless apply is "true"; otherwise the response is the dry-run diff.
+  app.post("/api/admin/challenges/import", requireAdmin, archiveUpload.single("archive"), async (req, res) => {
+    const cleanup: string[] = [];
+    try {
+      let root: string;
+      if (req.file) {
+        cleanup.push(req.file.path);
+        try {
+          root = await extractArchive(req.file.path);
+        } catch (error: any) {
+          return res.status(400).json({ message: `Could not extract the archive: ${error?.message ?? error}` });
+        }
+        cleanup.push(root);
+      } else if (typeof req.body.directory === "string" && req.body.directory.trim()) {
+        const base = process.env.CHALLENGE_IMPORT_DIR;
+        if (!base) {
+          return res.status(400).json({ message: "Directory imports are disabled. Set CHALLENGE_IMPORT_DIR on the server or upload an archive." });
+        }
+        try {
+          const baseDirectory = await realpath(base);
+          root = await realpath(path.resolve(baseDirectory, req.body.directory.trim()));
+          if (!isInside(baseDirectory, root)) {
+            return res.status(400).json({ message: "The directory must be inside CHALLENGE_IMPORT_DIR" });
+          }
+        } catch {
+          return res.status(400).json({ message: "Directory not found" });
+        }
+      } else {
+        return res.status(400).json({ message: "Upload an archive or name a directory to import" });
+      }
+
+      const sources = await loadChallengeSources(root);
+      if (sources.length === 0) {
+        return res.status(400).json({ message: "No challenge.yml found" });
+      }
+
+      const plan = await planChallengeImport(sources);
+      const challenges = plan.map(planned => planned.entry);
+      const apply = req.body.apply === true || req.body.apply === "true";
+      if (!apply) {
+        return res.json({ applied: false, challenges });
+      }
+      if (challenges.some(entry => entry.action === "invalid")) {
+        return res.status(400).json({ message: "Fix the invalid challenges before importing", applied: false, challenges });
+      }
+
+      // Challenges that failed are reported on their entry; the others stay imported
+      await applyChallengeImport(plan, req.user!.id);
+      res.json({ applied: true, challenges });
+    } catch (error) {
+      console.error("Error importing challenges:", error);
+      res.status(500).json({ message: "Failed to import challenges" });
+    } finally {
+      await Promise.all(cleanup.map(target => rm(target, { recursive: true, force: true })));
+    }
+  });
+}
@@ -0,0 +1,181 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { insertClarificationSchema, ticketMessageSchema, ticketStatuses, type Challenge, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth } from "./auth";
+import { rateLimit } from "./rate-limit";
+import { broadcast } from "./live";
+
+// Challenge creators answer questions about their own challenges; admins answer all of them
+function canModerate(user: User | undefined, challenge: Challenge): boolean {
+  return !!user && (user.isAdmin || challenge.creatorId === user.id);
+}
+
+export function registerClarificationRoutes(app: Express) {
+  // Public clarifications of a challenge
+  app.get("/api/challenges/:id/clarifications", async (req, res) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge || (!challenge.published && !canModerate(req.user, challenge))) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      res.json(await storage.getClarifications(challenge.id));
+    } catch (error) {
+      console.error("Error fetching clarifications:", error);
+      res.status(500).json({ message: "Failed to fetch clarifications" });
+    }
+  });
+
+  // Staff publish a clarification, optionally answering a ticket with it
+  app.post("/api/challenges/:id/clarifications", requireAuth, async (req, res) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      if (!canModerate(req.user, challenge)) {
+        return res.status(403).json({ message: "Only the challenge author and admins can publish clarifications" });
+      }
+
+      const { question, answer } = insertClarificationSchema.parse(req.body);
+      const ticketId = typeof req.body.ticketId === "string" && req.body.ticketId ? req.body.ticketId : null;
+      if (ticketId) {
+        const ticket = await storage.getTicket(ticketId);
+        if (!ticket || ticket.challengeId !== challenge.id) {
+          return res.status(404).json({ message: "Ticket not found" });
+        }
+      }
+
+      const clarification = await storage.createClarification({
+        challengeId: challenge.id,
+        ticketId,
+        question,
+        answer,
+        createdById: req.user!.id,
+      });
+      broadcast({ type: "clarifications", challengeId: challenge.id });
+      res.status(201).json(clarification);
+    } catch (error) {
+      console.error("Error publishing clarification:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid clarification data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to publish clarification" });
+    }
+  });
+
+  app.delete("/api/clarifications/:id", requireAuth, async (req, res) => {
+    try {
+      const clarification = await storage.getClarification(req.params.id);
+      const challenge = clarification && await storage.getChallenge(clarification.challengeId);
+      if (!clarification || !challenge) {
+        return res.status(404).json({ message: "Clarification not found" });
+      }
+      if (!canModerate(req.user, challenge)) {
+        return res.status(403).json({ message: "Only the challenge author and admins can remove clarifications" });
+      }
+
+      await storage.deleteClarification(clarification.id);
+      broadcast({ type: "clarifications", challengeId: challenge.id });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting clarification:", error);
+      res.status(500).json({ message: "Failed to delete clarification" });
+    }
+  });
+
+  // The player's own tickets on a challenge, or every ticket for its author and admins
+  app.get("/api/challenges/:id/tickets", requireAuth, async (req, res) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      const moderator = canModerate(req.user, challenge);
+      const tickets = await storage.getTicketThreads(challenge.id, moderator ? undefined : req.user!.id);
+      res.json({ canModerate: moderator, tickets });
+    } catch (error) {
+      console.error("Error fetching tickets:", error);
+      res.status(500).json({ message: "Failed to fetch tickets" });
+    }
+  });
+
+  app.post("/api/challenges/:id/tickets", requireAuth, rateLimit("clarification"), async (req, res) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge || !challenge.published) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      const { body } = ticketMessageSchema.parse(req.body);
+      const ticket = await storage.createTicket(challenge.id, req.user!.id, body);
+      broadcast({ type: "tickets" });
+      res.status(201).json(ticket);
+    } catch (error) {
+      console.error("Error opening ticket:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid question", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to open ticket" });
+    }
+  });
+
+  // Inbox for challenge authors and admins, oldest activity first
+  app.get("/api/tickets", requireAuth, async (req, res) => {
+    try {
+      const status = z.enum(ticketStatuses).optional().parse(req.query.status || undefined);
+      res.json(await storage.getStaffTickets(req.user!.isAdmin ? null : req.user!.id, status));
+    } catch (error) {
+      console.error("Error fetching ticket inbox:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ticket status", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch tickets" });
+    }
+  });
+
+  // A staff reply marks the ticket answered; a reply from the player (re)opens it
+  app.post("/api/tickets/:id/messages", requireAuth, rateLimit("clarification"), async (req, res) => {
+    try {
+      const ticket = await storage.getTicket(req.params.id);
+      const challenge = ticket && await storage.getChallenge(ticket.challengeId);
+      if (!ticket || !challenge) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      const moderator = canModerate(req.user, challenge);
+      if (!moderator && ticket.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      const { body } = ticketMessageSchema.parse(req.body);
+      const message = await storage.addTicketMessage(ticket.id, req.user!.id, body, moderator && ticket.userId !== req.user!.id ? "answered" : "open");
+      broadcast({ type: "tickets" });
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Error replying to ticket:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reply to ticket" });
+    }
+  });
+
+  app.post("/api/tickets/:id/close", requireAuth, async (req, res) => {
+    try {
+      const ticket = await storage.getTicket(req.params.id);
+      const challenge = ticket && await storage.getChallenge(ticket.challengeId);
+      if (!ticket || !challenge || (!canModerate(req.user, challenge) && ticket.userId !== req.user!.id)) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      await storage.setTicketStatus(ticket.id, "closed");
+      broadcast({ type: "tickets" });
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error closing ticket:", error);
+      res.status(500).json({ message: "Failed to close ticket" });
+    }
+  });
+}
@@ -0,0 +1,463 @@
+import type { Express } from "express";
+import multer from "multer";
+import JSZip from "jszip";
+import { readFile, writeFile } from "fs/promises";
+import { createHash, randomBytes } from "crypto";
+import path from "path";
+import { insertChallengeSchema, type Challenge, type FlagDefinition, type ScoringType } from "@shared/schema";
+import { DYNAMIC_FLAG_PLACEHOLDER } from "@shared/flags";
+import { storage } from "./storage";
+import { requireAdmin } from "./auth";
+import { decryptFlagValue } from "./flags";
+import { recordArtifacts, scanArtifacts } from "./artifacts";
+
+// CTFd backups are zips of db/<table>.json files ({ count, results, meta }) plus
+// uploads/<location> for challenge files. Only the tables and columns below are read or written.
+
+// Something a CTFd record held that has no place in our tables, or the other way round
+export interface CtfdReportEntry {
+  record: string;
+  field: string;
+  message: string;
+}
+
+type CtfdRow = Record<string, any>;
+
+// The upload isn't a CTFd backup we can read
+export class CtfdArchiveError extends Error {}
+
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+// CTFd has no difficulty; imported challenges get this one
+const IMPORTED_DIFFICULTY = "Medium";
+
+// CTFd stores naive UTC datetimes
+function ctfdDate(date: Date | null | undefined): string | null {
+  return date ? date.toISOString().replace("Z", "") : null;
+}
+
+function ctfdTable(results: CtfdRow[]): string {
+  return JSON.stringify({ count: results.length, results, meta: {} });
+}
+
+// CTFd ids are integers; ours are UUIDs numbered in export order
+function numberIds<T extends { id: string }>(rows: T[]): Map<string, number> {
+  return new Map(rows.map((row, index) => [row.id, index + 1]));
+}
+
+/**
+ * Builds a CTFd-style backup of challenges, hints, flags, files, users, teams,
+ * submissions and solves. Anything that can't be carried over is listed in the
+ * report, which is also written into the zip as export-report.json.
+ */
+export async function buildCtfdExport(): Promise<{ archive: Buffer; report: CtfdReportEntry[] }> {
+  const data = await storage.getExportData();
+  const report: CtfdReportEntry[] = [];
+  const zip = new JSZip();
+
+  const challengeIds = numberIds(data.challenges);
+  const userIds = numberIds(data.users);
+  const teamIds = numberIds(data.teams);
+  const teamOfUser = new Map(data.teamMembers.map(member => [member.userId, member.teamId]));
+
+  const challenges: CtfdRow[] = [];
+  const dynamicChallenges: CtfdRow[] = [];
+  const hints: CtfdRow[] = [];
+  const files: CtfdRow[] = [];
+  for (const challenge of data.challenges) {
+    const id = challengeIds.get(challenge.id)!;
+    const isDynamic = !!challenge.scoringType && challenge.scoringType !== "static";
+    challenges.push({
+      id,
+      name: challenge.title,
+      description: challenge.description,
+      connection_info: null,
+      next_id: null,
+      max_attempts: 0,
+      value: challenge.points,
+      category: challenge.category,
+      type: isDynamic ? "dynamic" : "standard",
+      state: challenge.published ? "visible" : "hidden",
+      requirements: null,
+    });
+    if (isDynamic) {
+      dynamicChallenges.push({
+        id,
+        initial: challenge.initialPoints ?? challenge.points,
+        minimum: challenge.minimumPoints ?? 0,
+        decay: challenge.decay ?? 0,
+        function: challenge.scoringType,
+      });
+    }
+    if (challenge.description.includes(DYNAMIC_FLAG_PLACEHOLDER)) {
+      report.push({ record: `challenge ${challenge.title}`, field: "description", message: `${DYNAMIC_FLAG_PLACEHOLDER} placeholder is exported as is` });
+    }
+    if (challenge.eventId || challenge.solveMode) {
+      report.push({ record: `challenge ${challenge.title}`, field: "eventId/solveMode", message: "CTFd has no events or per-challenge solve modes" });
+    }
+
+    for (const hint of challenge.hints ?? []) {
+      hints.push({ id: hints.length + 1, type: "standard", challenge_id: id, content: hint.text, cost: hint.cost, requirements: null });
+    }
+
+    for (const artifact of challenge.artifacts ?? []) {
+      let content: Buffer;
+      try {
+        content = await readFile(path.join(process.cwd(), "uploads", path.basename(artifact.url)));
+      } catch {
+        report.push({ record: `challenge ${challenge.title}`, field: "artifacts", message: `${artifact.name} is missing from uploads` });
+        continue;
+      }
+      const location = `${randomBytes(16).toString("hex")}/${path.basename(artifact.name)}`;
+      zip.file(`uploads/${location}`, content);
+      files.push({
+        id: files.length + 1,
+        type: "challenge",
+        location,
+        challenge_id: id,
+        page_id: null,
+        sha1sum: createHash("sha1").update(content).digest("hex"),
+      });
+    }
+  }
+
+  const flags: CtfdRow[] = [];
+  for (const flag of data.challengeFlags) {
+    const challengeId = challengeIds.get(flag.challengeId);
+    if (!challengeId) continue;
+    if (flag.type === "regex") {
+      flags.push({ id: flags.length + 1, challenge_id: challengeId, type: "regex", content: decryptFlagValue(flag.value), data: "" });
+    } else {
+      const title = data.challenges.find(challenge => challenge.id === flag.challengeId)?.title;
+      report.push({
+        record: `challenge ${title}`,
+        field: "flags",
+        message: flag.type === "dynamic"
+          ? "dynamic flags are generated per player and have no CTFd equivalent"
+          : `${flag.type} flags are only stored as a hash and can't be exported`,
+      });
+    }
+  }
+  for (const challenge of data.challenges) {
+    if (challenge.flagHash) {
+      report.push({ record: `challenge ${challenge.title}`, field: "flags", message: "static flags are only stored as a hash and can't be exported" });
+    }
+  }
+
+  const users = data.users.map(user => {
+    const teamId = teamOfUser.get(user.id);
+    return {
+      id: userIds.get(user.id),
+      oauth_id: null,
+      name: user.username,
+      password: null,
+      email: user.email,
+      type: user.isAdmin ? "admin" : "user",
+      secret: null,
+      website: null,
+      affiliation: null,
+      country: null,
+      bracket_id: null,
+      hidden: false,
+      banned: !!user.bannedAt,
+      verified: !!user.emailVerifiedAt,
+      language: null,
+      team_id: teamId ? teamIds.get(teamId) ?? null : null,
+      created: ctfdDate(user.createdAt),
+    };
+  });
+  if (users.length > 0) {
+    report.push({ record: "users", field: "password", message: "password hashes aren't compatible with CTFd; players have to reset their passwords" });
+  }
+
+  const teams = data.teams.map(team => ({
+    id: teamIds.get(team.id),
+    oauth_id: null,
+    name: team.name,
+    email: null,
+    password: null,
+    secret: null,
+    website: null,
+    affiliation: null,
+    country: null,
+    bracket_id: null,
+    hidden: false,
+    banned: false,
+    captain_id: userIds.get(team.captainId) ?? null,
+    created: ctfdDate(team.createdAt),
+  }));
+
+  // In CTFd a solve is a correct submission, so each of our solves points at one
+  const submissions: CtfdRow[] = [];
+  const correctSubmission = new Map<string, number>();
+  for (const submission of data.submissions) {
+    const challengeId = challengeIds.get(submission.challengeId);
+    const userId = userIds.get(submission.userId);
+    if (!challengeId || !userId) continue;
+    const teamId = teamOfUser.get(submission.userId);
+    const id = submissions.length + 1;
+    submissions.push({
+      id,
+      challenge_id: challengeId,
+      user_id: userId,
+      team_id: teamId ? teamIds.get(teamId) ?? null : null,
+      ip: submission.ipAddress,
+      provided: submission.flagAttempt,
+      type: submission.isCorrect ? "correct" : "incorrect",
+      date: ctfdDate(submission.submittedAt),
+    });
+    const key = `${submission.userId}:${submission.challengeId}`;
+    if (submission.isCorrect && !correctSubmission.has(key)) correctSubmission.set(key, id);
+  }
+
+  const solves: CtfdRow[] = [];
+  for (const solve of data.solves) {
+    const challengeId = challengeIds.get(solve.challengeId);
+    const userId = userIds.get(solve.userId);
+    if (!challengeId || !userId) continue;
+    const teamId = solve.teamId ? teamIds.get(solve.teamId) ?? null : null;
+
+    let id = correctSubmission.get(`${solve.userId}:${solve.challengeId}`);
+    if (!id) {
+      // Solves from before submissions were recorded get a stand-in submission
+      id = submissions.length + 1;
+      submissions.push({ id, challenge_id: challengeId, user_id: userId, team_id: teamId, ip: null, provided: "", type: "correct", date: ctfdDate(solve.solvedAt) });
+    }
+    solves.push({ id, challenge_id: challengeId, user_id: userId, team_id: teamId });
+  }
+
+  zip.file("db/challenges.json", ctfdTable(challenges));
+  zip.file("db/dynamic_challenge.json", ctfdTable(dynamicChallenges));
+  zip.file("db/flags.json", ctfdTable(flags));
+  zip.file("db/hints.json", ctfdTable(hints));
+  zip.file("db/files.json", ctfdTable(files));
+  zip.file("db/users.json", ctfdTable(users));
+  zip.file("db/teams.json", ctfdTable(teams));
+  zip.file("db/submissions.json", ctfdTable(submissions));
+  zip.file("db/solves.json", ctfdTable(solves));
+  // CTFd migrates a backup forward from this revision; set it to one the target CTFd knows
+  if (process.env.CTFD_ALEMBIC_VERSION) {
+    zip.file("db/alembic_version.json", ctfdTable([{ version_num: process.env.CTFD_ALEMBIC_VERSION }]));
+  } else {
+    report.push({ record: "export", field: "alembic_version", message: "CTFD_ALEMBIC_VERSION is not set; CTFd refuses backups without a database revision" });
+  }
+  zip.file("export-report.json", JSON.stringify(report, null, 2));
+
+  const archive = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  return { archive, report };
+}
+
+async function readCtfdTable(zip: JSZip, table: string): Promise<CtfdRow[]> {
+  const file = zip.file(`db/${table}.json`);
+  if (!file) return [];
+  let parsed: any;
+  try {
+    parsed = JSON.parse(await file.async("string"));
+  } catch {
+    throw new CtfdArchiveError(`db/${table}.json isn't valid JSON`);
+  }
+  // Older CTFd versions wrote a bare array
+  const rows = Array.isArray(parsed) ? parsed : parsed?.results ?? [];
+  return rows.filter((row: unknown) => row && typeof row === "object");
+}
+
+// Columns we carry over; anything else with a value is reported
+const MAPPED_CHALLENGE_FIELDS = ["id", "name", "description", "connection_info", "value", "category", "type", "state"];
+// Present in every CTFd challenge row, only reported when they hold something we can't honour
+const DEFAULTED_CHALLENGE_FIELDS: Record<string, (value: any) => boolean> = {
+  max_attempts: value => !value,
+  next_id: value => value === null || value === undefined,
+  requirements: value => !value,
+  // Dynamic scoring columns some CTFd versions keep on the challenge row itself
+  initial: () => true,
+  minimum: () => true,
+  decay: () => true,
+  function: () => true,
+  attribution: value => !value,
+  logic: value => !value || value === "any",
+};
+
+function hasValue(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== "";
+}
+
+function mapFlag(flag: CtfdRow, record: string, report: CtfdReportEntry[]): FlagDefinition | null {
+  const caseInsensitive = flag.data === "case_insensitive";
+  if (typeof flag.content !== "string" || !flag.content) {
+    report.push({ record, field: `flag ${flag.id}`, message: "empty flag skipped" });
+    return null;
+  }
+  if (flag.type === "static") {
+    return { type: caseInsensitive ? "case-insensitive" : "static", value: flag.content };
+  }
+  if (flag.type === "regex") {
+    try {
+      new RegExp(flag.content);
+    } catch {
+      report.push({ record, field: `flag ${flag.id}`, message: "regex isn't valid in JavaScript and was skipped" });
+      return null;
+    }
+    if (caseInsensitive) {
+      report.push({ record, field: `flag ${flag.id}`, message: "case-insensitive regex imported as case-sensitive" });
+    }
+    return { type: "regex", value: flag.content };
+  }
+  report.push({ record, field: `flag ${flag.id}`, message: `flag type ${flag.type} isn't supported and was skipped` });
+  return null;
+}
+
+function scoringOf(row: CtfdRow, dynamic: CtfdRow | undefined, record: string, report: CtfdReportEntry[]) {
+  if (row.type === "dynamic") {
+    const params = dynamic ?? row;
+    // CTFd before 3.5 only had the logarithmic curve and didn't record a function
+    const scoringType: ScoringType = params.function === "linear" ? "linear" : "logarithmic";
+    const initial = parseInt(params.initial ?? row.value, 10);
+    return { scoringType, points: initial, initialPoints: initial, minimumPoints: parseInt(params.minimum ?? 0, 10), decay: parseInt(params.decay ?? 0, 10) || 1 };
+  }
+  if (row.type !== "standard") {
+    report.push({ record, field: "type", message: `challenge type ${row.type} imported as a standard challenge` });
+  }
+  return { scoringType: "static" as ScoringType, points: parseInt(row.value, 10) || 0, initialPoints: null, minimumPoints: null, decay: null };
+}
+
+/**
+ * Creates challenges from the challenge, flag, hint and file records of a CTFd
+ * backup. Other tables aren't imported; they and any unmapped fields are reported.
+ */
+export async function importCtfdArchive(archive: Buffer, creatorId: string): Promise<{ imported: Array<Pick<Challenge, "id" | "title">>; report: CtfdReportEntry[] }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new CtfdArchiveError("The upload isn't a valid zip file");
+  }
+  const report: CtfdReportEntry[] = [];
+
+  const [challenges, dynamicChallenges, flags, hints, files] = await Promise.all(
+    ["challenges", "dynamic_challenge", "flags", "hints", "files"].map(table => readCtfdTable(zip, table)),
+  );
+  if (challenges.length === 0) {
+    throw new CtfdArchiveError("The archive has no db/challenges.json records. Is it a CTFd backup?");
+  }
+
+  for (const table of ["users", "teams", "solves", "submissions", "awards", "unlocks", "tags", "pages", "notifications"]) {
+    const rows = await readCtfdTable(zip, table);
+    if (rows.length > 0) {
+      report.push({ record: table, field: "*", message: `${rows.length} record${rows.length === 1 ? "" : "s"} not imported; only challenges are` });
+    }
+  }
+  report.push({ record: "challenges", field: "difficulty", message: `CTFd has no difficulty; imported challenges are ${IMPORTED_DIFFICULTY}` });
+
+  const imported: Array<Pick<Challenge, "id" | "title">> = [];
+  for (const row of challenges) {
+    const record = `challenge ${row.id} (${row.name})`;
+    for (const [field, value] of Object.entries(row)) {
+      if (MAPPED_CHALLENGE_FIELDS.includes(field)) continue;
+      const isDefault = DEFAULTED_CHALLENGE_FIELDS[field];
+      if (isDefault ? !isDefault(value) : hasValue(value)) {
+        report.push({ record, field, message: `not supported, value ${JSON.stringify(value)} dropped` });
+      }
+    }
+
+    const challengeFlags = flags
+      .filter(flag => flag.challenge_id === row.id)
+      .map(flag => mapFlag(flag, record, report))
+      .filter((flag): flag is FlagDefinition => !!flag);
+    if (challengeFlags.length === 0) {
+      report.push({ record, field: "flags", message: "no usable flags, challenge skipped" });
+      continue;
+    }
+
+    const challengeHints = hints.filter(hint => hint.challenge_id === row.id).map(hint => {
+      if (hasValue(hint.requirements)) {
+        report.push({ record, field: `hint ${hint.id}`, message: "hint requirements dropped" });
+      }
+      return { text: String(hint.content ?? ""), cost: parseInt(hint.cost, 10) || 0 };
+    });
+
+    const description = [row.description ?? "", hasValue(row.connection_info) ? `Connection: ${row.connection_info}` : ""]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const parsed = insertChallengeSchema.safeParse({
+      title: String(row.name ?? "").trim() || `CTFd challenge ${row.id}`,
+      description: description || "(no description)",
+      category: String(row.category ?? "").trim() || "Uncategorized",
+      difficulty: IMPORTED_DIFFICULTY,
+      ...scoringOf(row, dynamicChallenges.find(dynamic => dynamic.id === row.id), record, report),
+      creatorId,
+      flags: challengeFlags,
+      hints: challengeHints,
+      published: row.state === "visible",
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      report.push({ record, field: issue.path.join(".") || "challenge", message: `challenge skipped: ${issue.message}` });
+      continue;
+    }
+
+    const artifacts: Array<{ name: string; url: string; size: number }> = [];
+    for (const file of files.filter(file => file.challenge_id === row.id)) {
+      const entry = typeof file.location === "string" ? zip.file(`uploads/${file.location}`) : null;
+      if (!entry) {
+        report.push({ record, field: `file ${file.id}`, message: `uploads/${file.location} is missing from the archive` });
+        continue;
+      }
+      const content = await entry.async("nodebuffer");
+      const name = path.basename(file.location);
+      const filename = `ctfd-${Date.now()}-${randomBytes(4).toString("hex")}${path.extname(name)}`;
+      await writeFile(path.join(process.cwd(), "uploads", filename), content);
+      artifacts.push({ name, url: `/uploads/${filename}`, size: content.length });
+    }
+
+    // Files without a record are never served, so a failed insert leaves nothing reachable
+    const { created, uploads } = await storage.transaction(async (tx) => {
+      const created = await tx.createChallenge({ ...parsed.data, artifacts });
+      return { created, uploads: await recordArtifacts(artifacts, created.id, creatorId, tx) };
+    });
+    scanArtifacts(uploads);
+    imported.push({ id: created.id, title: created.title });
+  }
+
+  return { imported, report };
+}
+
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ARCHIVE_BYTES, files: 1 },
+  fileFilter: (_req, file, cb) => {
+    if (file.originalname.toLowerCase().endsWith(".zip")) {
+      cb(null, true);
+    } else {
+      cb(new Error("Upload a CTFd backup .zip"));
+    }
+  },
+});
+
+export function registerCtfdRoutes(app: Express) {
+  app.get("/api/admin/export/ctfd", requireAdmin, async (_req, res) => {
+    try {
+      const { archive } = await buildCtfdExport();
+      res.attachment(`0xctf-ctfd-export-${new Date().toISOString().slice(0, 10)}.zip`);
+      res.send(archive);
+    } catch (error) {
+      console.error("Error exporting CTFd backup:", error);
+      res.status(500).json({ message: "Failed to export" });
+    }
+  });
+
+  app.post("/api/admin/import/ctfd", requireAdmin, archiveUpload.single("archive"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a CTFd backup .zip" });
+      }
+
+      res.json(await importCtfdArchive(req.file.buffer, req.user!.id));
+    } catch (error) {
+      if (error instanceof CtfdArchiveError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing CTFd backup:", error);
+      res.status(500).json({ message: "Failed to import CTFd backup" });
+    }
+  });
+}
@@ -8,5 +8,10 @@ if (!process.env.DATABASE_URL) {
   );
 }
 
-const connection = await mysql.createConnection(process.env.DATABASE_URL);
-export const db = drizzle({ client: connection, schema, mode: 'planetscale' });
+// A pool rather than one connection, so a transaction gets a connection of its own
+// instead of sweeping up queries from concurrent requests
+const pool = mysql.createPool(process.env.DATABASE_URL);
+export const db = drizzle({ client: pool, schema, mode: 'planetscale' });
+
+// What storage runs its queries on: the pool, or a transaction (see storage.transaction)
+export type Database = Pick<typeof db, "select" | "selectDistinct" | "insert" | "update" | "delete" | "transaction" | "execute">;
@@ -0,0 +1,58 @@
+import type { Event } from "@shared/schema";
+import { storage } from "./storage";
+import { broadcast } from "./live";
+
+export type EventStatus = "upcoming" | "running" | "ended";
+
+// How often due events get their challenges published
+const PUBLISH_INTERVAL_MS = 30 * 1000;
+
+export function getEventStatus(event: Event, now = new Date()): EventStatus {
+  if (now < event.startsAt) return "upcoming";
+  if (now > event.endsAt) return "ended";
+  return "running";
+}
+
+export function isRegistrationOpen(event: Event, now = new Date()): boolean {
+  const opensAt = event.registrationOpensAt;
+  const closesAt = event.registrationClosesAt ?? event.endsAt;
+  return (!opensAt || now >= opensAt) && now <= closesAt;
+}
+
+/**
+ * Reason a player may not act on an event's challenges right now, or null
+ * when the event is running and they are registered.
+ */
+export async function getEventRestriction(eventId: string | null, userId: string): Promise<string | null> {
+  if (!eventId) return null;
+
+  const event = await storage.getEvent(eventId);
+  if (!event) return null;
+
+  const status = getEventStatus(event);
+  if (status === "upcoming") return "This event has not started yet";
+  if (status === "ended") return "This event has ended and no longer accepts submissions";
+
+  if (!(await storage.isRegisteredForEvent(eventId, userId))) {
+    return "Register for this event to take part";
+  }
+  return null;
+}
+
+export function startEventScheduler() {
+  const publishDue = async () => {
+    try {
+      const published = await storage.publishDueEventChallenges(new Date());
+      if (published > 0) {
+        console.log(`Published ${published} challenge(s) for started events`);
+        broadcast({ type: "challenges" });
+      }
+    } catch (error) {
+      console.error("Error publishing event challenges:", error);
+    }
+  };
+
+  publishDue();
+  const timer = setInterval(publishDue, PUBLISH_INTERVAL_MS);
+  timer.unref();
+}
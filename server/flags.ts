@@ -0,0 +1,221 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Challenge, ChallengeFlag, FlagDefinition, FlagType } from "@shared/schema";
+import { matchesFlagDefinition } from "@shared/flags";
+import { hashPassword, comparePasswords } from "./auth";
+import { storage } from "./storage";
+
+// Who a dynamic flag is issued to: the team when the player has one, else the player
+export interface FlagSubject {
+  userId: string;
+  teamId?: string | null;
+}
+
+// Length of the HMAC part of a dynamic flag, in hex characters
+const DYNAMIC_FLAG_LENGTH = 32;
+
+// Regex and dynamic flags (and TOTP secrets) are encrypted with FLAG_ENCRYPTION_KEY, falling back to the session secret
+function getEncryptionKey(): Buffer {
+  const secret = process.env.FLAG_ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("FLAG_ENCRYPTION_KEY or SESSION_SECRET must be set to store regex or dynamic flags and 2FA secrets");
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+export function encryptFlagValue(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return `${iv.toString("hex")}.${cipher.getAuthTag().toString("hex")}.${encrypted.toString("hex")}`;
+}
+
+export function decryptFlagValue(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(".");
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), Buffer.from(iv, "hex"));
+  decipher.setAuthTag(Buffer.from(tag, "hex"));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, "hex")), decipher.final()]).toString("utf8");
+}
+
+// A dynamic flag is stored as its prefix plus the challenge secret, encrypted together
+function readDynamicFlag(flag: ChallengeFlag): { prefix: string; secret: string } {
+  return JSON.parse(decryptFlagValue(flag.value));
+}
+
+function subjectKey(subject: FlagSubject): string {
+  return subject.teamId ? `team:${subject.teamId}` : `user:${subject.userId}`;
+}
+
+function deriveDynamicFlag(flag: ChallengeFlag, subject: FlagSubject): string {
+  const { prefix, secret } = readDynamicFlag(flag);
+  const digest = createHmac("sha256", secret).update(subjectKey(subject)).digest("hex");
+  return `${prefix}{${digest.slice(0, DYNAMIC_FLAG_LENGTH)}}`;
+}
+
+// Issued flags are stored by hash so a shared flag is found without deriving everyone's
+function flagLookup(flag: string): string {
+  return createHash("sha256").update(flag).digest("hex");
+}
+
+// The subject the player's flag was first issued to; it stays theirs after they change teams
+async function issuedSubject(challenge: Challenge, subject: FlagSubject): Promise<FlagSubject | null> {
+  const issued = await storage.getIssuedFlag(challenge.id, subject.userId);
+  return issued ? { userId: issued.userId, teamId: issued.teamId } : null;
+}
+
+function sameFlag(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Turns author-written flags into the hashed/encrypted form kept in challenge_flags.
+ * A dynamic flag whose prefix is among the existing flags keeps its secret, so flags
+ * already issued to players stay valid.
+ */
+export async function prepareFlags(definitions: FlagDefinition[], existing: ChallengeFlag[] = []): Promise<Array<{ type: FlagType; value: string }>> {
+  const dynamic = existing.filter(flag => flag.type === "dynamic");
+  return Promise.all(definitions.map(async ({ type, value }) => {
+    switch (type) {
+      case "dynamic": {
+        const kept = dynamic.find(flag => readDynamicFlag(flag).prefix === value);
+        return { type, value: kept ? kept.value : encryptFlagValue(JSON.stringify({ prefix: value, secret: randomBytes(32).toString("hex") })) };
+      }
+      case "regex":
+        return { type, value: encryptFlagValue(value) };
+      case "case-insensitive":
+        return { type, value: await hashPassword(value.toLowerCase()) };
+      default:
+        return { type, value: await hashPassword(value) };
+    }
+  }));
+}
+
+async function matchesStoredFlag(flag: ChallengeFlag, candidate: string, subjects: FlagSubject[]): Promise<boolean> {
+  switch (flag.type) {
+    case "dynamic":
+      return subjects.some(subject => sameFlag(deriveDynamicFlag(flag, subject), candidate));
+    case "regex":
+      return matchesFlagDefinition({ type: "regex", value: decryptFlagValue(flag.value) }, candidate);
+    case "case-insensitive":
+      return comparePasswords(candidate.toLowerCase(), flag.value);
+    default:
+      return comparePasswords(candidate, flag.value);
+  }
+}
+
+async function storedFlagIs(flag: ChallengeFlag, { type, value }: FlagDefinition): Promise<boolean> {
+  if (flag.type !== type) return false;
+  switch (type) {
+    case "dynamic":
+      return readDynamicFlag(flag).prefix === value;
+    case "regex":
+      return decryptFlagValue(flag.value) === value;
+    case "case-insensitive":
+      return comparePasswords(value.toLowerCase(), flag.value);
+    default:
+      return comparePasswords(value, flag.value);
+  }
+}
+
+/**
+ * Whether the challenge accepts exactly these flags already. Lets imports leave
+ * unchanged flags alone instead of rewriting them.
+ */
+export async function hasSameFlags(challenge: Challenge, definitions: FlagDefinition[]): Promise<boolean> {
+  const remaining = await storage.getChallengeFlags(challenge.id);
+  if (remaining.length === 0) {
+    const [only] = definitions;
+    return definitions.length === 1 && only.type === "static" && !!challenge.flagHash && comparePasswords(only.value, challenge.flagHash);
+  }
+  if (remaining.length !== definitions.length) return false;
+
+  for (const definition of definitions) {
+    let match = -1;
+    for (let i = 0; i < remaining.length && match < 0; i++) {
+      if (await storedFlagIs(remaining[i], definition)) match = i;
+    }
+    if (match < 0) return false;
+    remaining.splice(match, 1);
+  }
+  return true;
+}
+
+/**
+ * Whether a submission by the subject matches any accepted flag of the challenge.
+ * Dynamic flags are accepted for the subject's current team and for the one the
+ * player's flag was issued to.
+ */
+export async function verifyFlag(challenge: Challenge, candidate: string, subject: FlagSubject): Promise<boolean> {
+  const flags = await storage.getChallengeFlags(challenge.id);
+
+  // Challenges from before multiple flags only have their single hashed flag
+  if (flags.length === 0) {
+    return !!challenge.flagHash && comparePasswords(candidate, challenge.flagHash);
+  }
+
+  const subjects = [subject];
+  if (flags.some(flag => flag.type === "dynamic")) {
+    const issued = await issuedSubject(challenge, subject);
+    if (issued && subjectKey(issued) !== subjectKey(subject)) subjects.push(issued);
+  }
+
+  for (const flag of flags) {
+    if (await matchesStoredFlag(flag, candidate, subjects)) return true;
+  }
+  return false;
+}
+
+/**
+ * The subject's own flag for a challenge with a dynamic flag, or null for other challenges.
+ * The first flag shown to a player is recorded and shown again from then on.
+ */
+export async function getDynamicFlag(challenge: Challenge, subject: FlagSubject): Promise<string | null> {
+  const flag = (await storage.getChallengeFlags(challenge.id)).find(f => f.type === "dynamic");
+  if (!flag) return null;
+
+  const issued = await issuedSubject(challenge, subject);
+  if (issued) return deriveDynamicFlag(flag, issued);
+
+  const dynamicFlag = deriveDynamicFlag(flag, subject);
+  const recorded = await storage.recordIssuedFlag({
+    challengeId: challenge.id,
+    userId: subject.userId,
+    teamId: subject.teamId ?? null,
+    flagLookup: flagLookup(dynamicFlag),
+  });
+  return deriveDynamicFlag(flag, { userId: recorded.userId, teamId: recorded.teamId });
+}
+
+/**
+ * Finds who a wrong submission's dynamic flag was issued to, if it belongs to
+ * anyone other than the submitter or their teammates. Used to flag answer sharing.
+ */
+export async function findDynamicFlagOwner(challenge: Challenge, candidate: string, submitter: FlagSubject): Promise<FlagSubject | null> {
+  const owners = await storage.findIssuedFlags(challenge.id, flagLookup(candidate));
+  const submitterKeys = [subjectKey(submitter)];
+  const issued = await issuedSubject(challenge, submitter);
+  if (issued) submitterKeys.push(subjectKey(issued));
+
+  for (const owner of owners) {
+    const subject = { userId: owner.userId, teamId: owner.teamId };
+    if (owner.userId === submitter.userId || submitterKeys.includes(subjectKey(subject))) continue;
+    // A teammate's flag from before they joined is shared within the team, not leaked
+    if (submitter.teamId && (await storage.getUserTeam(owner.userId))?.id === submitter.teamId) continue;
+    return subject;
+  }
+  return null;
+}
+
+/** Flags as shown to the challenge author: hashed flags stay hidden, regex patterns are decrypted. */
+export function describeFlags(flags: ChallengeFlag[]): Array<{ id: string; type: FlagType; pattern: string | null }> {
+  return flags.map(flag => ({
+    id: flag.id,
+    type: flag.type,
+    pattern: flag.type === "regex"
+      ? decryptFlagValue(flag.value)
+      : flag.type === "dynamic"
+        ? `${readDynamicFlag(flag).prefix}{unique per player}`
+        : null,
+  }));
+}
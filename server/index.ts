@@ -1,8 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { securityHeaders, getSecurityHeaderOptions, registerCspReportRoute } from "./security-headers";
 
 const app = express();
+app.disable("x-powered-by");
+app.use(securityHeaders(getSecurityHeaderOptions(app)));
+registerCspReportRoute(app);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
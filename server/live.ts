@@ -0,0 +1,86 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { Challenge, User } from "@shared/schema";
+import { LIVE_UPDATES_PATH, type LiveMessage, type LiveSolve } from "@shared/live";
+import { getScoreboardCutoff } from "./scoreboard";
+
+// Connections that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+let wss: WebSocketServer | undefined;
+const alive = new WeakSet<WebSocket>();
+
+/**
+ * Accepts live update sockets on LIVE_UPDATES_PATH. Other upgrade requests,
+ * like Vite's HMR socket in development, are left to their own handlers.
+ */
+export function attachLiveUpdates(server: Server) {
+  wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== LIVE_UPDATES_PATH) return;
+
+    wss!.handleUpgrade(req, socket, head, ws => {
+      alive.add(ws);
+      ws.on("pong", () => alive.add(ws));
+      // Clients only listen; anything they send is ignored
+      ws.on("error", error => console.error("Live update socket error:", error));
+    });
+  });
+
+  const timer = setInterval(() => {
+    wss!.clients.forEach(ws => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  timer.unref();
+}
+
+export function broadcast(message: LiveMessage) {
+  if (!wss) return;
+  const data = JSON.stringify(message);
+  wss.clients.forEach(ws => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(data);
+  });
+}
+
+/**
+ * Announces a solve to everyone. Admins aren't on the scoreboard, and while the
+ * global or event scoreboard is frozen solves stay hidden until the reveal.
+ */
+export async function broadcastSolve(
+  challenge: Challenge,
+  user: User,
+  teamName: string | null,
+  solve: Pick<LiveSolve, "points" | "firstBlood" | "solveCount" | "challengePoints">,
+) {
+  try {
+    if (user.isAdmin) return;
+    if (await getScoreboardCutoff(null)) return;
+    if (challenge.eventId && await getScoreboardCutoff(challenge.eventId)) return;
+
+    broadcast({
+      type: "solve",
+      solve: {
+        challengeId: challenge.id,
+        challengeTitle: challenge.title,
+        category: challenge.category,
+        eventId: challenge.eventId,
+        userId: user.id,
+        username: user.username,
+        teamName,
+        ...solve,
+        solvedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    // The solve itself has been recorded; a missed broadcast only delays the boards
+    console.error("Error broadcasting solve:", error);
+  }
+}
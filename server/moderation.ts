@@ -0,0 +1,106 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { insertChallengeReportSchema, resolveReportSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAuth, requireAdmin } from "./auth";
+import { rateLimit } from "./rate-limit";
+import { broadcast } from "./live";
+
+// Entries of the audit trail returned to the moderation page
+const MODERATION_LOG_LIMIT = 200;
+
+export function registerModerationRoutes(app: Express) {
+  // Players report a challenge, or request its takedown, once until the report is handled
+  app.post("/api/challenges/:id/reports", requireAuth, rateLimit("report", undefined, { account: 5 }), async (req, res) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge || !challenge.published) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      const { reason, details } = insertChallengeReportSchema.parse(req.body);
+      const pending = await storage.getChallengeReports({ open: true, challengeId: challenge.id, reporterId: req.user!.id });
+      if (pending.length > 0) {
+        return res.status(400).json({ message: "You have already reported this challenge. An admin will look at it soon." });
+      }
+
+      const report = await storage.createChallengeReport({
+        challengeId: challenge.id,
+        challengeTitle: challenge.title,
+        reporterId: req.user!.id,
+        reason,
+        details,
+      });
+      res.status(201).json({ id: report.id });
+    } catch (error) {
+      console.error("Error reporting challenge:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to report challenge" });
+    }
+  });
+
+  // The moderation queue: open reports by default, ?status=resolved for handled ones
+  app.get("/api/admin/reports", requireAdmin, async (req, res) => {
+    try {
+      const open = req.query.status !== "resolved";
+      res.json(await storage.getChallengeReports({ open }));
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  // Dismissing settles only this report; unpublishing or deleting the challenge settles every open report on it
+  app.post("/api/admin/reports/:id/resolve", requireAdmin, async (req, res) => {
+    try {
+      const report = await storage.getChallengeReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (report.resolvedAt) {
+        return res.status(400).json({ message: "This report has already been resolved" });
+      }
+
+      const { action, note } = resolveReportSchema.parse(req.body);
+      let reportIds = [report.id];
+
+      if (action !== "dismiss") {
+        const challenge = await storage.getChallenge(report.challengeId);
+        if (challenge && action === "unpublish") {
+          await storage.updateChallenge(challenge.id, { published: false });
+        }
+        if (challenge && action === "delete") {
+          if (await storage.hasChallengeActivity(challenge.id)) {
+            return res.status(409).json({ message: "Players have already submitted to this challenge, so it can only be unpublished" });
+          }
+          await storage.deleteChallenge(challenge.id);
+        }
+        if (challenge) broadcast({ type: "challenges" });
+
+        const open = await storage.getChallengeReports({ open: true, challengeId: report.challengeId });
+        reportIds = open.map(entry => entry.id);
+      }
+
+      await storage.resolveChallengeReports(reportIds, action, req.user!.id, note || null);
+      res.json({ resolved: reportIds.length });
+    } catch (error) {
+      console.error("Error resolving report:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid moderation action", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to resolve report" });
+    }
+  });
+
+  // Who decided what, newest first
+  app.get("/api/admin/moderation-log", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getModerationLog(MODERATION_LOG_LIMIT));
+    } catch (error) {
+      console.error("Error fetching moderation log:", error);
+      res.status(500).json({ message: "Failed to fetch moderation log" });
+    }
+  });
+}
@@ -0,0 +1,219 @@
+import type { Request, Response, NextFunction } from "express";
+import type { RateLimitLockout } from "@shared/schema";
+import { storage } from "./storage";
+import { sendMail } from "./mailer";
+
+/**
+ * Where the limiter keeps its hits and lockouts. The in-memory store suits a
+ * single process; the database store is shared by every instance and
+ * survives restarts. Pick one with RATE_LIMIT_STORE=memory|database.
+ */
+export interface RateLimitStore {
+  /** Counts a hit and returns the hits in the window ending at `at`, this one included, in one step. */
+  hit(key: string, at: Date, windowMs: number): Promise<number>;
+  getLockout(key: string): Promise<RateLimitLockout | undefined>;
+  saveLockout(lockout: RateLimitLockout): Promise<void>;
+  clearLockout(key: string): Promise<void>;
+  getActiveLockouts(now: Date): Promise<RateLimitLockout[]>;
+  prune(hitsBefore: Date, strikesBefore: Date): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+  private lockouts = new Map<string, RateLimitLockout>();
+
+  async hit(key: string, at: Date, windowMs: number): Promise<number> {
+    const hits = this.hits.get(key) ?? [];
+    hits.push(at.getTime());
+    this.hits.set(key, hits);
+    return hits.filter(hitAt => hitAt > at.getTime() - windowMs).length;
+  }
+
+  async getLockout(key: string): Promise<RateLimitLockout | undefined> {
+    return this.lockouts.get(key);
+  }
+
+  async saveLockout(lockout: RateLimitLockout): Promise<void> {
+    this.lockouts.set(lockout.key, lockout);
+  }
+
+  async clearLockout(key: string): Promise<void> {
+    this.lockouts.delete(key);
+  }
+
+  async getActiveLockouts(now: Date): Promise<RateLimitLockout[]> {
+    return Array.from(this.lockouts.values())
+      .filter(lockout => lockout.lockedUntil > now)
+      .sort((a, b) => b.lockedUntil.getTime() - a.lockedUntil.getTime());
+  }
+
+  async prune(hitsBefore: Date, strikesBefore: Date): Promise<void> {
+    this.hits.forEach((hits, key) => {
+      const recent = hits.filter(at => at >= hitsBefore.getTime());
+      if (recent.length > 0) this.hits.set(key, recent);
+      else this.hits.delete(key);
+    });
+    this.lockouts.forEach((lockout, key) => {
+      if (lockout.lastStrikeAt < strikesBefore) this.lockouts.delete(key);
+    });
+  }
+}
+
+/**
+ * Counts hits per fixed window with an atomic upsert. The sliding window is
+ * estimated from the current window and the overlapping part of the previous one.
+ */
+export class DatabaseRateLimitStore implements RateLimitStore {
+  async hit(key: string, at: Date, windowMs: number): Promise<number> {
+    const { current, previous } = await storage.hitRateLimit(key, at, windowMs);
+    const elapsed = (at.getTime() % windowMs) / windowMs;
+    return current + Math.floor(previous * (1 - elapsed));
+  }
+
+  getLockout(key: string) {
+    return storage.getRateLimitLockout(key);
+  }
+
+  saveLockout(lockout: RateLimitLockout) {
+    return storage.saveRateLimitLockout(lockout);
+  }
+
+  clearLockout(key: string) {
+    return storage.clearRateLimitLockout(key);
+  }
+
+  getActiveLockouts(now: Date) {
+    return storage.getActiveRateLimitLockouts(now);
+  }
+
+  prune(hitsBefore: Date, strikesBefore: Date) {
+    return storage.pruneRateLimits(hitsBefore, strikesBefore);
+  }
+}
+
+interface RateLimitTier {
+  name: "account" | "ip";
+  limit: number;
+  windowMs: number;
+}
+
+// Sliding windows: a burst may use the whole budget at once, which then frees up
+// again as each request ages out of the window
+const TIERS: RateLimitTier[] = [
+  { name: "account", limit: 10, windowMs: 60 * 1000 },
+  { name: "ip", limit: 30, windowMs: 60 * 1000 },
+];
+
+// Each time a key goes over its limit it is locked out, twice as long as the time before
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 30 * 60 * 1000;
+// Strikes are forgotten after this long without going over the limit
+const STRIKE_MEMORY_MS = 60 * 60 * 1000;
+// Going over the limit this many times in a row looks like brute forcing and is mailed to the admins
+const SUSPICIOUS_STRIKES = 3;
+
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+let store: RateLimitStore | undefined;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === "memory" ? new MemoryRateLimitStore() : new DatabaseRateLimitStore();
+
+    // The database store still reads the window before the current one
+    const maxWindowMs = Math.max(...TIERS.map(tier => tier.windowMs));
+    const timer = setInterval(() => {
+      const now = Date.now();
+      store!.prune(new Date(now - 2 * maxWindowMs), new Date(now - STRIKE_MEMORY_MS)).catch(error => {
+        console.error("Error pruning rate limits:", error);
+      });
+    }, PRUNE_INTERVAL_MS);
+    timer.unref();
+  }
+  return store;
+}
+
+function lockoutDuration(strikes: number): number {
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (strikes - 1), MAX_LOCKOUT_MS);
+}
+
+async function addStrike(store: RateLimitStore, key: string, now: Date): Promise<RateLimitLockout> {
+  const previous = await store.getLockout(key);
+  const remembered = previous && now.getTime() - previous.lastStrikeAt.getTime() < STRIKE_MEMORY_MS;
+  const strikes = remembered ? previous.strikes + 1 : 1;
+
+  const lockout = { key, strikes, lockedUntil: new Date(now.getTime() + lockoutDuration(strikes)), lastStrikeAt: now };
+  await store.saveLockout(lockout);
+
+  // Reported once per run of strikes; later lockouts of the same run are on the admin page
+  if (strikes === SUSPICIOUS_STRIKES) {
+    notifySuspiciousLockout(lockout).catch(error => console.error("Error reporting rate limit lockout:", error));
+  }
+  return lockout;
+}
+
+async function notifySuspiciousLockout(lockout: RateLimitLockout): Promise<void> {
+  const summary = `${lockout.key} locked out until ${lockout.lockedUntil.toISOString()} after ${lockout.strikes} consecutive violations`;
+  console.warn(`Rate limit: ${summary}`);
+  for (const email of await storage.getAdminEmails()) {
+    await sendMail({
+      to: email,
+      subject: "0XCTF25: repeated rate limit violations",
+      text: `The rate limiter keeps stopping the same client, which may be brute forcing:\n\n${summary}\n\nActive lockouts are listed on the admin page.`,
+    });
+  }
+}
+
+function reject(res: Response, lockedUntil: Date, now: Date) {
+  const retryAfter = Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000));
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    message: "Too many attempts. Please wait before trying again.",
+    retryAfter,
+  });
+}
+
+export type RateLimitOverrides = Partial<Record<RateLimitTier["name"], number>>;
+
+/**
+ * Limits an action per account (10/min) and per IP (30/min), or whatever
+ * `limits` overrides. `identify` names the account; it defaults to the
+ * logged-in user, and requests without an account are only limited by IP.
+ * Errors from the store let the request through.
+ */
+export function rateLimit(
+  action: string,
+  identify: (req: Request) => string | undefined = req => req.user?.id,
+  limits: RateLimitOverrides = {},
+) {
+  const tiers = TIERS.map(tier => ({ ...tier, limit: limits[tier.name] ?? tier.limit }));
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const identity = identify(req);
+    const account = typeof identity === "string" ? identity.toLowerCase().slice(0, 200) : undefined;
+    const keys = tiers
+      .map(tier => ({ tier, key: tier.name === "account" ? account && `${action}:account:${account}` : `${action}:ip:${req.ip}` }))
+      .filter((entry): entry is { tier: RateLimitTier; key: string } => !!entry.key);
+
+    try {
+      const store = getRateLimitStore();
+      const now = new Date();
+
+      for (const { key } of keys) {
+        const lockout = await store.getLockout(key);
+        if (lockout && lockout.lockedUntil > now) return reject(res, lockout.lockedUntil, now);
+      }
+
+      for (const { tier, key } of keys) {
+        const hits = await store.hit(key, now, tier.windowMs);
+        if (hits > tier.limit) {
+          const lockout = await addStrike(store, key, now);
+          return reject(res, lockout.lockedUntil, now);
+        }
+      }
+    } catch (error) {
+      console.error("Error applying rate limit:", error);
+    }
+    next();
+  };
+}
@@ -1,39 +1,78 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, requireAuth, requireAdmin, hashPassword, comparePasswords } from "./auth";
+import { setupAuth, requireAuth, requireAdmin, toPublicUser } from "./auth";
+import { requireStaffTwoFactor } from "./two-factor";
+import { allowApiToken } from "./api-tokens";
 import multer from "multer";
 import path from "path";
 import { z } from "zod";
-import { insertChallengeSchema, insertSubmissionSchema } from "@shared/schema";
-
-// Rate limiting store (in-memory)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
-function rateLimit(req: any, res: any, next: any) {
-  const key = `${req.user?.id || req.ip}:${req.path}`;
-  const now = Date.now();
-  const windowMs = 60 * 1000; // 1 minute
-  const maxAttempts = 10;
-
-  const current = rateLimitStore.get(key);
-  
-  if (!current || now > current.resetTime) {
-    rateLimitStore.set(key, { count: 1, resetTime: now + windowMs });
-    return next();
-  }
+import { insertChallengeSchema, insertSubmissionSchema, insertTeamSchema, insertEventSchema, flagDefinitionSchema, solveModes, scoringTypes, type Challenge, type Event, type FlagDefinition } from "@shared/schema";
+import { computeChallengeValue, getScoringParams } from "@shared/scoring";
+import { resolveSolveMode } from "./solve-mode";
+import { getEventStatus, getEventRestriction, isRegistrationOpen, startEventScheduler } from "./events";
+import { getScoreboardCutoff, getFreezeStatus, freezeChallengeStats, hideFrozenSolves } from "./scoreboard";
+import { verifyFlag, describeFlags, getDynamicFlag, findDynamicFlagOwner } from "./flags";
+import { DYNAMIC_FLAG_PLACEHOLDER } from "@shared/flags";
+import { readFile } from "fs/promises";
+import { buildAntiCheatReport } from "./anticheat";
+import { rateLimit, getRateLimitStore } from "./rate-limit";
+import { describeSession } from "./session-store";
+import { startMailQueue } from "./mailer";
+import { registerChallengeImportRoutes } from "./challenge-import";
+import { registerCtfdRoutes } from "./ctfd";
+import { attachLiveUpdates, broadcast, broadcastSolve } from "./live";
+import { registerAnnouncementRoutes } from "./announcements";
+import { registerClarificationRoutes } from "./clarifications";
+import { registerModerationRoutes } from "./moderation";
+import { registerArtifactRoutes, recordArtifacts, scanArtifacts, discardUnrecordedUploads, backfillArtifactUploads, getDownloadRestriction } from "./artifacts";
 
-  if (current.count >= maxAttempts) {
-    return res.status(429).json({ 
-      message: "Too many attempts. Please wait before trying again.",
-      retryAfter: Math.ceil((current.resetTime - now) / 1000)
-    });
+// Flags arrive as a JSON list from the challenge forms; a single `flag` field is still accepted
+function parseFlagDefinitions(body: any): unknown {
+  if (body.flags !== undefined) {
+    try {
+      return typeof body.flags === 'string' ? JSON.parse(body.flags) : body.flags;
+    } catch {
+      return undefined;
+    }
   }
+  return body.flag ? [{ type: "static", value: body.flag }] : undefined;
+}
+
+// Regex flags run on every submission, so only admins may write them (see findUnsafeFlagPattern)
+const REGEX_FLAG_ADMIN_ONLY = "Only admins can create regex flags";
 
-  current.count++;
-  next();
+function hasRegexFlag(flags: FlagDefinition[]): boolean {
+  return flags.some(flag => flag.type === "regex");
 }
 
+// Artifacts with these extensions get the player's dynamic flag templated in
+const TEMPLATED_ARTIFACT_TYPES = ['.txt', '.py', '.c', '.cpp', '.js', '.html', '.css', '.md'];
+
+// Players download artifacts through the tracked route, never /uploads, so every download
+// reaches the anti-cheat report and gets the player's dynamic flag
+function trackedArtifacts(challenge: Challenge): Challenge["artifacts"] {
+  return (challenge.artifacts ?? []).map((artifact, index) => ({
+    ...artifact,
+    url: `/api/challenges/${challenge.id}/artifacts/${index}`,
+  }));
+}
+
+// Artifact entries for the files multer wrote for this request
+function uploadedArtifacts(req: { files?: unknown }): Array<{ name: string; url: string; size: number }> {
+  return ((req.files as Express.Multer.File[] | undefined) ?? []).map(file => ({
+    name: file.originalname,
+    url: `/uploads/${file.filename}`,
+    size: file.size,
+  }));
+}
+
+// Maximum number of players per team
+const MAX_TEAM_SIZE = parseInt(process.env.MAX_TEAM_SIZE || '4', 10);
+
+// The CTFtime feed lists everyone rather than the top of the board
+const CTFTIME_STANDINGS_LIMIT = 10000;
+
 // File upload configuration
 const upload = multer({
   storage: multer.diskStorage({
@@ -66,28 +105,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
 
+  // Solves and hints from before the score ledger need their entries before any scoreboard is served
+  const backfilled = await storage.backfillScoreLedger();
+  if (backfilled > 0) console.log(`Backfilled ${backfilled} score ledger entries`);
+
+  // Files from before the artifact quarantine need a record, since files without one are never served
+  const recordedArtifacts = await backfillArtifactUploads();
+  if (recordedArtifacts > 0) console.log(`Recorded ${recordedArtifacts} existing artifacts as approved`);
+
+  // Publish event challenges as their events start
+  startEventScheduler();
+  startMailQueue();
+
   // Challenge routes
-  app.get("/api/challenges", async (req, res) => {
+  app.get("/api/challenges", allowApiToken("challenges:read"), async (req, res) => {
     try {
-      const { category, difficulty, search, published } = req.query;
+      const { category, difficulty, search, published, eventId } = req.query;
       const filters: any = {};
       
       if (category) filters.category = category as string;
       if (difficulty) filters.difficulty = difficulty as string;
       if (search) filters.search = search as string;
       if (published !== undefined) filters.published = published === 'true';
+      if (eventId) filters.eventId = eventId as string;
       
       // Show only published challenges to non-authenticated users
       if (!req.isAuthenticated()) {
         filters.published = true;
       }
 
-      const challenges = await storage.getChallenges(filters);
+      // Players see solve counts, first bloods and values as of a frozen scoreboard,
+      // and of the unpublished challenges only their own
+      const allChallenges = (await storage.getChallenges(filters, req.user?.id))
+        .filter(challenge => challenge.published || req.user?.isAdmin || challenge.creatorId === req.user?.id);
+      const challenges = req.user?.isAdmin ? allChallenges : await freezeChallengeStats(allChallenges);
+      const eventsById = new Map((await storage.getEvents()).map(event => [event.id, event]));
       
       // Don't expose flag hash/salt
       const sanitizedChallenges = challenges.map(challenge => {
         const { flagHash, flagSalt, ...rest } = challenge;
-        return rest;
+        const event = challenge.eventId ? eventsById.get(challenge.eventId) : null;
+        return { ...rest, artifacts: trackedArtifacts(challenge), effectiveSolveMode: resolveSolveMode(challenge, event) };
       });
       
       res.json(sanitizedChallenges);
@@ -97,12 +155,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/challenges/:id", async (req, res) => {
+  app.get("/api/challenges/:id", allowApiToken("challenges:read"), async (req, res) => {
     try {
       const challenge = await storage.getChallenge(req.params.id);
-      if (!challenge) {
+      const isStaff = !!req.user && (req.user.isAdmin || req.user.id === challenge?.creatorId);
+      if (!challenge || (!challenge.published && !isStaff)) {
         return res.status(404).json({ message: "Challenge not found" });
       }
+      const event = challenge.eventId ? await storage.getEvent(challenge.eventId) : null;
 
       // Don't expose flag hash/salt
       const { flagHash, flagSalt, ...sanitizedChallenge } = challenge;
@@ -113,37 +173,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
         hasSolved = await storage.hasSolved(req.user!.id, challenge.id);
       }
 
-      res.json({ ...sanitizedChallenge, hasSolved });
+      // Dynamic challenges show each player their own flag, issued once they can attempt it
+      const canAttempt = isStaff || (!!req.user && (!event || getEventStatus(event) !== "upcoming"));
+      const team = req.user ? await storage.getUserTeam(req.user.id) : undefined;
+      const dynamicFlag = canAttempt ? await getDynamicFlag(challenge, { userId: req.user!.id, teamId: team?.id }) : null;
+      const isDynamic = !!dynamicFlag || (await storage.getChallengeFlags(challenge.id)).some(flag => flag.type === "dynamic");
+      if (isDynamic) {
+        sanitizedChallenge.description = sanitizedChallenge.description
+          .split(DYNAMIC_FLAG_PLACEHOLDER)
+          .join(dynamicFlag ?? (req.user ? "(your flag appears once the event starts)" : "(log in to get your flag)"));
+      }
+      sanitizedChallenge.artifacts = trackedArtifacts(challenge);
+
+      const firstBlood = (await storage.getFirstBlood(challenge.id)) ?? null;
+      const [visible] = req.user?.isAdmin
+        ? [{ ...challenge, firstBlood }]
+        : await freezeChallengeStats([{ ...challenge, firstBlood }]);
+
+      res.json({
+        ...sanitizedChallenge,
+        points: visible.points,
+        firstBlood: visible.firstBlood,
+        hasSolved,
+        effectiveSolveMode: resolveSolveMode(challenge, event),
+      });
     } catch (error) {
       console.error("Error fetching challenge:", error);
       res.status(500).json({ message: "Failed to fetch challenge" });
     }
   });
 
-  app.post("/api/challenges", requireAuth, upload.array('files'), async (req, res) => {
+  app.post("/api/challenges", requireAuth, requireStaffTwoFactor, upload.array('files'), discardUnrecordedUploads, async (req, res) => {
     try {
       const challengeData = insertChallengeSchema.parse({
         ...req.body,
         creatorId: req.user!.id,
+        flags: parseFlagDefinitions(req.body),
         points: parseInt(req.body.points),
-        published: req.body.published === 'true'
+        published: req.body.published === 'true',
+        solveMode: req.body.solveMode || null,
+        eventId: req.body.eventId || null,
+        scoringType: req.body.scoringType || "static",
+        minimumPoints: req.body.minimumPoints ? parseInt(req.body.minimumPoints) : null,
+        decay: req.body.decay ? parseInt(req.body.decay) : null,
       });
+      if (!req.user!.isAdmin && hasRegexFlag(challengeData.flags)) {
+        return res.status(403).json({ message: REGEX_FLAG_ADMIN_ONLY });
+      }
+
+      // Dynamic challenges start at their initial value and decay from there
+      if (challengeData.scoringType !== "static") {
+        challengeData.initialPoints = challengeData.points;
+      } else {
+        challengeData.minimumPoints = null;
+        challengeData.decay = null;
+      }
 
-      // Process uploaded files
-      const files = req.files as Express.Multer.File[];
-      const artifacts = files?.map(file => ({
-        name: file.originalname,
-        url: `/uploads/${file.filename}`,
-        size: file.size
-      })) || [];
-
-      const challenge = await storage.createChallenge({
-        ...challengeData,
-        artifacts
+      // The challenge and the quarantine records of its files are written together
+      const artifacts = uploadedArtifacts(req);
+      const { challenge, uploads } = await storage.transaction(async (tx) => {
+        const challenge = await tx.createChallenge({ ...challengeData, artifacts });
+        return { challenge, uploads: await recordArtifacts(artifacts, challenge.id, req.user!.id, tx) };
       });
+      res.locals.artifactsRecorded = true;
+      scanArtifacts(uploads);
 
       // Don't expose flag hash/salt
       const { flagHash, flagSalt, ...sanitizedChallenge } = challenge;
+      if (challenge.published) broadcast({ type: "challenges" });
       res.status(201).json(sanitizedChallenge);
     } catch (error) {
       console.error("Error creating challenge:", error);
@@ -154,7 +251,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/challenges/:id", requireAuth, upload.array('files'), async (req, res) => {
+  app.put("/api/challenges/:id", requireAuth, requireStaffTwoFactor, upload.array('files'), discardUnrecordedUploads, async (req, res) => {
     try {
       const challenge = await storage.getChallenge(req.params.id);
       if (!challenge) {
@@ -166,14 +263,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only edit your own challenges" });
       }
 
-      const updateData: any = { ...req.body };
+      const { flag, flags, ...updateData }: any = req.body;
       
-      // If flag is provided, hash it
-      if (req.body.flag && req.body.flag.trim()) {
-        updateData.flagHash = await hashPassword(req.body.flag);
-        delete updateData.flag;
-      } else {
-        delete updateData.flag;
+      // New flags replace all existing ones; leaving them out keeps the current flags
+      const flagDefinitions = parseFlagDefinitions(req.body);
+      const newFlags = Array.isArray(flagDefinitions) && flagDefinitions.length > 0
+        ? z.array(flagDefinitionSchema).parse(flagDefinitions)
+        : null;
+      if (newFlags && !req.user!.isAdmin && hasRegexFlag(newFlags)) {
+        return res.status(403).json({ message: REGEX_FLAG_ADMIN_ONLY });
       }
 
       // Process hints if provided
@@ -191,18 +289,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData.points = parseInt(req.body.points);
       }
 
-      const updatedChallenge = await storage.updateChallenge(req.params.id, updateData);
+      // An empty solve mode falls back to the event default
+      if (req.body.solveMode !== undefined) {
+        updateData.solveMode = z.enum(solveModes).nullable().parse(req.body.solveMode || null);
+      }
+
+      if (req.body.eventId !== undefined) {
+        updateData.eventId = req.body.eventId || null;
+      }
+
+      if (req.body.scoringType !== undefined) {
+        updateData.scoringType = z.enum(scoringTypes).parse(req.body.scoringType);
+      }
+      if (req.body.minimumPoints !== undefined) {
+        updateData.minimumPoints = req.body.minimumPoints ? parseInt(req.body.minimumPoints) : null;
+      }
+      if (req.body.decay !== undefined) {
+        updateData.decay = req.body.decay ? parseInt(req.body.decay) : null;
+      }
+
+      // For dynamic challenges the submitted points are the initial value,
+      // the live value is derived from the solve count below. A static challenge
+      // (including one switched back from dynamic) takes the submitted or initial value.
+      const isDynamic = (updateData.scoringType ?? challenge.scoringType ?? "static") !== "static";
+      const staticPoints = updateData.points ?? challenge.initialPoints ?? challenge.points;
+      delete updateData.points;
+      if (isDynamic) {
+        if (req.body.points) {
+          updateData.initialPoints = staticPoints;
+        }
+        const params = getScoringParams({ ...challenge, ...updateData });
+        if (params.minimum > params.initial || params.decay <= 0) {
+          return res.status(400).json({ message: "Dynamic scoring needs a minimum below the initial points and a positive decay" });
+        }
+      } else {
+        updateData.initialPoints = null;
+        updateData.minimumPoints = null;
+        updateData.decay = null;
+      }
+
+      // New files are added to the existing ones and quarantined like on creation
+      const newArtifacts = uploadedArtifacts(req);
+      if (newArtifacts.length > 0) {
+        updateData.artifacts = [...(challenge.artifacts ?? []), ...newArtifacts];
+      } else {
+        delete updateData.artifacts;
+      }
+
+      const { updatedChallenge, uploads } = await storage.transaction(async (tx) => {
+        if (newFlags) {
+          await tx.setChallengeFlags(challenge.id, newFlags);
+        }
+        const updated = await tx.updateChallenge(req.params.id, updateData);
+
+        // Value changes go through setChallengeValue so existing solvers follow them in either direction
+        const value = isDynamic
+          ? computeChallengeValue(getScoringParams(updated), await tx.getSolveCount(updated.id))
+          : staticPoints;
+        await tx.setChallengeValue(updated.id, value);
+        return {
+          updatedChallenge: (await tx.getChallenge(updated.id))!,
+          uploads: await recordArtifacts(newArtifacts, challenge.id, req.user!.id, tx),
+        };
+      });
+      res.locals.artifactsRecorded = true;
+      scanArtifacts(uploads);
       
       // Don't expose flag hash/salt
       const { flagHash, flagSalt, ...sanitizedChallenge } = updatedChallenge;
+      broadcast({ type: "challenges" });
       res.json(sanitizedChallenge);
     } catch (error) {
       console.error("Error updating challenge:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid challenge data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update challenge" });
     }
   });
 
-  app.delete("/api/challenges/:id", requireAuth, async (req, res) => {
+  app.delete("/api/challenges/:id", requireAuth, requireStaffTwoFactor, async (req, res) => {
     try {
       const challenge = await storage.getChallenge(req.params.id);
       if (!challenge) {
@@ -213,8 +379,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (challenge.creatorId !== req.user!.id) {
         return res.status(403).json({ message: "You can only delete your own challenges" });
       }
+      if (await storage.hasChallengeActivity(challenge.id)) {
+        return res.status(409).json({ message: "Players have already submitted to this challenge, so it can only be unpublished" });
+      }
 
       await storage.deleteChallenge(req.params.id);
+      broadcast({ type: "challenges" });
       res.sendStatus(204);
     } catch (error) {
       console.error("Error deleting challenge:", error);
@@ -222,14 +392,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Accepted flags as seen by the challenge author
+  app.get("/api/challenges/:id/flags", requireAuth, async (req, res) => {
+    try {
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      if (challenge.creatorId !== req.user!.id && !req.user!.isAdmin) {
+        return res.status(403).json({ message: "You can only view flags of your own challenges" });
+      }
+
+      const flags = describeFlags(await storage.getChallengeFlags(challenge.id));
+      res.json(flags.length > 0 || !challenge.flagHash ? flags : [{ id: "legacy", type: "static", pattern: null }]);
+    } catch (error) {
+      console.error("Error fetching challenge flags:", error);
+      res.status(500).json({ message: "Failed to fetch challenge flags" });
+    }
+  });
+
+  // Lets authors try a candidate against the saved flags without recording a submission
+  app.post("/api/challenges/:id/flags/test", requireAuth, async (req, res) => {
+    try {
+      const { candidate } = req.body;
+      if (!candidate || typeof candidate !== 'string') {
+        return res.status(400).json({ message: "Candidate flag is required" });
+      }
+
+      const challenge = await storage.getChallenge(req.params.id);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      if (challenge.creatorId !== req.user!.id && !req.user!.isAdmin) {
+        return res.status(403).json({ message: "You can only test flags of your own challenges" });
+      }
+
+      const team = await storage.getUserTeam(req.user!.id);
+      res.json({ correct: await verifyFlag(challenge, candidate, { userId: req.user!.id, teamId: team?.id }) });
+    } catch (error) {
+      console.error("Error testing challenge flag:", error);
+      res.status(500).json({ message: "Failed to test flag" });
+    }
+  });
+
   // Flag submission
-  app.post("/api/challenges/:id/submit", requireAuth, rateLimit, async (req, res) => {
+  app.post("/api/challenges/:id/submit", allowApiToken("flags:submit"), requireAuth, rateLimit("submit"), async (req, res) => {
     try {
       const { flag } = req.body;
       const challengeId = req.params.id;
       const userId = req.user!.id;
 
-      if (!flag) {
+      if (!flag || typeof flag !== 'string') {
         return res.status(400).json({ message: "Flag is required" });
       }
 
@@ -242,22 +455,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Challenge is not published" });
       }
 
-      // Check if challenge has already been solved globally
-      if (challenge.globalSolved) {
-        return res.status(400).json({ message: "This challenge has already been solved by another user and is now locked" });
+      // Event challenges only accept flags from registered players while the event runs
+      const eventRestriction = await getEventRestriction(challenge.eventId, userId);
+      if (eventRestriction) {
+        return res.status(403).json({ message: eventRestriction });
       }
 
-      // Check if already solved
+      // Check if already solved (by the player or their team)
+      const team = await storage.getUserTeam(userId);
       const alreadySolved = await storage.hasSolved(userId, challengeId);
       if (alreadySolved) {
-        return res.status(400).json({ message: "You have already solved this challenge" });
+        return res.status(400).json({
+          message: team ? "Your team has already solved this challenge" : "You have already solved this challenge",
+        });
+      }
+
+      // In first-blood-lock mode the challenge closes after its first solve
+      const event = challenge.eventId ? await storage.getEvent(challenge.eventId) : null;
+      const solveMode = resolveSolveMode(challenge, event);
+      const firstBlood = await storage.getFirstBlood(challengeId);
+      if (solveMode === "first-blood-lock" && firstBlood) {
+        return res.status(400).json({ message: "This challenge has already been solved by another user and is now locked" });
       }
 
       // Check flag
-      const isCorrect = await comparePasswords(flag, challenge.flagHash);
+      const isCorrect = await verifyFlag(challenge, flag, { userId, teamId: team?.id });
 
       // Log submission
-      await storage.createSubmission({
+      const submission = await storage.createSubmission({
         userId,
         challengeId,
         flagAttempt: flag,
@@ -267,17 +492,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       if (isCorrect) {
-        // Create solve record
-        await storage.createSolve(userId, challengeId);
-        
-        // Mark challenge as globally solved
-        await storage.updateChallenge(challengeId, { globalSolved: true });
-        
-        // Update user score
-        await storage.updateUserScore(userId, challenge.points);
-
-        res.json({ correct: true, message: "Congratulations! You're the first to solve this! 🎉" });
+        // The checks above ran before the slow flag check; recording the solve repeats them atomically
+        const claim = await storage.createSolve(userId, challengeId, team?.id ?? null, solveMode);
+        if (claim.status === "locked") {
+          return res.status(400).json({ message: "This challenge has already been solved by another user and is now locked" });
+        }
+        if (claim.status === "duplicate") {
+          return res.status(400).json({
+            message: team ? "Your team has already solved this challenge" : "You have already solved this challenge",
+          });
+        }
+
+        const isFirstBlood = claim.firstBlood;
+        const awarded = claim.points;
+        await broadcastSolve(challenge, req.user!, team?.name ?? null, {
+          points: awarded,
+          firstBlood: isFirstBlood,
+          solveCount: claim.solveCount,
+          challengePoints: claim.value,
+        });
+
+        res.json({
+          correct: true,
+          firstBlood: isFirstBlood,
+          points: awarded,
+          message: isFirstBlood
+            ? "Congratulations! You're the first to solve this! 🎉"
+            : "Congratulations! Challenge solved! 🎉",
+        });
       } else {
+        // Someone else's dynamic flag is recorded for admins; the player just sees a wrong answer
+        const owner = await findDynamicFlagOwner(challenge, flag, { userId, teamId: team?.id });
+        if (owner) {
+          await storage.createFlagSharingIncident({
+            challengeId,
+            submissionId: submission.id,
+            userId,
+            teamId: team?.id ?? null,
+            ownerUserId: owner.teamId ? null : owner.userId,
+            ownerTeamId: owner.teamId ?? null,
+          });
+        }
         res.json({ correct: false, message: "Incorrect flag. Try again!" });
       }
     } catch (error) {
@@ -294,13 +549,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const { password, ...userWithoutPassword } = user;
-      const rank = await storage.getUserRank(user.id);
-      const solves = await storage.getUserSolves(user.id);
+      // While the scoreboard is frozen, other players only see standings as of the freeze
+      const cutoff = req.user?.id === user.id ? undefined : await getScoreboardCutoff(null);
+      const rank = await storage.getUserRank(user.id, cutoff);
+      const solves = (await storage.getUserSolves(user.id))
+        .filter(solve => !cutoff || (solve.solvedAt && solve.solvedAt <= cutoff));
       const achievements = await storage.getUserAchievements(user.id);
 
       res.json({
-        ...userWithoutPassword,
+        ...toPublicUser(user),
+        score: cutoff ? await storage.getUserScore(user.id, cutoff) : user.score,
         rank,
         solveCount: solves.length,
         achievements
@@ -330,8 +588,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/users/:id/solves", async (req, res) => {
     try {
+      // Others see the solves up to the scoreboard freeze, like on the leaderboard
       const solves = await storage.getUserSolves(req.params.id);
-      res.json(solves);
+      const isSelf = req.user?.id === req.params.id;
+      res.json(req.user?.isAdmin || isSelf ? solves : await hideFrozenSolves(solves));
     } catch (error) {
       console.error("Error fetching user solves:", error);
       res.status(500).json({ message: "Failed to fetch user solves" });
@@ -342,36 +602,347 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/leaderboard", async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
-      const leaderboard = await storage.getLeaderboard(limit);
-      res.json(leaderboard);
+      const leaderboard = await storage.getLeaderboard(limit, undefined, await getScoreboardCutoff(null));
+      res.json(leaderboard.map(toPublicUser));
     } catch (error) {
       console.error("Error fetching leaderboard:", error);
       res.status(500).json({ message: "Failed to fetch leaderboard" });
     }
   });
 
+  app.get("/api/leaderboard/teams", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const leaderboard = await storage.getTeamLeaderboard(limit, undefined, await getScoreboardCutoff(null));
+      // Invite codes are only shown to members
+      res.json(leaderboard.map(({ inviteCode, ...team }) => team));
+    } catch (error) {
+      console.error("Error fetching team leaderboard:", error);
+      res.status(500).json({ message: "Failed to fetch team leaderboard" });
+    }
+  });
+
+  app.get("/api/leaderboard/freeze", async (req, res) => {
+    try {
+      res.json(await getFreezeStatus(null));
+    } catch (error) {
+      console.error("Error fetching scoreboard freeze:", error);
+      res.status(500).json({ message: "Failed to fetch scoreboard freeze" });
+    }
+  });
+
+  // Final standings in the scoreboard format CTFtime accepts, for players or (?teams=true) teams.
+  // Uses the same cutoff as the public scoreboard, so a frozen board exports frozen standings.
+  app.get("/api/scoreboard/ctftime", async (req, res) => {
+    try {
+      const eventId = typeof req.query.eventId === "string" && req.query.eventId ? req.query.eventId : undefined;
+      if (eventId && !(await storage.getEvent(eventId))) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const cutoff = await getScoreboardCutoff(eventId ?? null);
+      const entries = req.query.teams === "true"
+        ? (await storage.getTeamLeaderboard(CTFTIME_STANDINGS_LIMIT, eventId, cutoff)).map(team => ({ rank: team.rank, name: team.name, score: team.score }))
+        : (await storage.getLeaderboard(CTFTIME_STANDINGS_LIMIT, eventId, cutoff)).map(user => ({ rank: user.rank, name: user.username, score: user.score }));
+
+      res.json({
+        standings: entries.map(entry => ({ pos: entry.rank, team: entry.name, score: entry.score })),
+      });
+    } catch (error) {
+      console.error("Error fetching CTFtime scoreboard:", error);
+      res.status(500).json({ message: "Failed to fetch CTFtime scoreboard" });
+    }
+  });
+
+  // Event routes
+  const serializeEvent = async (event: Event, userId?: string) => ({
+    ...event,
+    status: getEventStatus(event),
+    registrationOpen: isRegistrationOpen(event),
+    isRegistered: userId ? await storage.isRegisteredForEvent(event.id, userId) : false,
+  });
+
+  app.get("/api/events", async (req, res) => {
+    try {
+      const events = await storage.getEvents();
+      res.json(await Promise.all(events.map(event => serializeEvent(event, req.user?.id))));
+    } catch (error) {
+      console.error("Error fetching events:", error);
+      res.status(500).json({ message: "Failed to fetch events" });
+    }
+  });
+
+  app.get("/api/events/:id", async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      res.json(await serializeEvent(event, req.user?.id));
+    } catch (error) {
+      console.error("Error fetching event:", error);
+      res.status(500).json({ message: "Failed to fetch event" });
+    }
+  });
+
+  app.post("/api/events/:id/register", requireAuth, async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      if (!isRegistrationOpen(event)) {
+        return res.status(400).json({ message: "Registration for this event is closed" });
+      }
+
+      await storage.registerForEvent(event.id, req.user!.id);
+      res.json(await serializeEvent(event, req.user!.id));
+    } catch (error) {
+      console.error("Error registering for event:", error);
+      res.status(500).json({ message: "Failed to register for event" });
+    }
+  });
+
+  app.get("/api/events/:id/leaderboard", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const leaderboard = await storage.getLeaderboard(limit, req.params.id, await getScoreboardCutoff(req.params.id));
+      res.json(leaderboard.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching event leaderboard:", error);
+      res.status(500).json({ message: "Failed to fetch event leaderboard" });
+    }
+  });
+
+  app.get("/api/events/:id/leaderboard/teams", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const leaderboard = await storage.getTeamLeaderboard(limit, req.params.id, await getScoreboardCutoff(req.params.id));
+      res.json(leaderboard.map(({ inviteCode, ...team }) => team));
+    } catch (error) {
+      console.error("Error fetching event team leaderboard:", error);
+      res.status(500).json({ message: "Failed to fetch event team leaderboard" });
+    }
+  });
+
+  app.get("/api/events/:id/leaderboard/freeze", async (req, res) => {
+    try {
+      res.json(await getFreezeStatus(req.params.id));
+    } catch (error) {
+      console.error("Error fetching event scoreboard freeze:", error);
+      res.status(500).json({ message: "Failed to fetch event scoreboard freeze" });
+    }
+  });
+
+  app.post("/api/admin/events", requireAdmin, async (req, res) => {
+    try {
+      const eventData = insertEventSchema.parse(req.body);
+      const event = await storage.createEvent(eventData);
+      res.status(201).json(event);
+    } catch (error) {
+      console.error("Error creating event:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create event" });
+    }
+  });
+
+  app.put("/api/admin/events/:id", requireAdmin, async (req, res) => {
+    try {
+      const event = await storage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const eventData = insertEventSchema.parse({ ...event, ...req.body });
+      const updatedEvent = await storage.updateEvent(event.id, eventData);
+      res.json(updatedEvent);
+    } catch (error) {
+      console.error("Error updating event:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update event" });
+    }
+  });
+
+  // Team routes
+  app.get("/api/teams/mine", requireAuth, async (req, res) => {
+    try {
+      const team = await storage.getUserTeam(req.user!.id);
+      res.json(team ?? null);
+    } catch (error) {
+      console.error("Error fetching team:", error);
+      res.status(500).json({ message: "Failed to fetch team" });
+    }
+  });
+
+  app.get("/api/teams/:id", async (req, res) => {
+    try {
+      const team = await storage.getTeam(req.params.id);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+
+      // Teams are on the global scoreboard, so players see them as of its freeze
+      const cutoff = req.user?.isAdmin ? undefined : await getScoreboardCutoff(null);
+      const members = await storage.getTeamMembers(team.id, cutoff);
+      const isMember = req.isAuthenticated() && members.some(member => member.userId === req.user!.id);
+      const { inviteCode, ...publicTeam } = team;
+
+      res.json({
+        ...publicTeam,
+        ...(isMember ? { inviteCode } : {}),
+        maxSize: MAX_TEAM_SIZE,
+        // Same total as the team leaderboard, so it includes points of players who have left
+        score: await storage.getTeamScore(team.id, cutoff),
+        members: members.map(({ user, ...member }) => ({
+          ...member,
+          username: user.username,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching team:", error);
+      res.status(500).json({ message: "Failed to fetch team" });
+    }
+  });
+
+  app.post("/api/teams", requireAuth, async (req, res) => {
+    try {
+      const { name } = insertTeamSchema.parse(req.body);
+
+      if (await storage.getUserTeam(req.user!.id)) {
+        return res.status(400).json({ message: "You are already in a team" });
+      }
+      if (await storage.getTeamByName(name)) {
+        return res.status(400).json({ message: "Team name already exists" });
+      }
+
+      const team = await storage.createTeam(name, req.user!.id);
+      res.status(201).json(team);
+    } catch (error) {
+      console.error("Error creating team:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid team data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create team" });
+    }
+  });
+
+  app.post("/api/teams/join", requireAuth, async (req, res) => {
+    try {
+      const { inviteCode } = req.body;
+      if (!inviteCode) {
+        return res.status(400).json({ message: "Invite code is required" });
+      }
+
+      if (await storage.getUserTeam(req.user!.id)) {
+        return res.status(400).json({ message: "You are already in a team" });
+      }
+
+      const team = await storage.getTeamByInviteCode(String(inviteCode).trim());
+      if (!team) {
+        return res.status(404).json({ message: "Invalid invite code" });
+      }
+
+      if (!await storage.joinTeam(team.id, req.user!.id, MAX_TEAM_SIZE)) {
+        return res.status(400).json({ message: `Team is full (max ${MAX_TEAM_SIZE} players)` });
+      }
+      res.json(team);
+    } catch (error) {
+      console.error("Error joining team:", error);
+      res.status(500).json({ message: "Failed to join team" });
+    }
+  });
+
+  app.post("/api/teams/leave", requireAuth, async (req, res) => {
+    try {
+      const team = await storage.getUserTeam(req.user!.id);
+      if (!team) {
+        return res.status(400).json({ message: "You are not in a team" });
+      }
+
+      await storage.removeTeamMember(team.id, req.user!.id);
+      res.json({ ok: true });
+    } catch (error) {
+      console.error("Error leaving team:", error);
+      res.status(500).json({ message: "Failed to leave team" });
+    }
+  });
+
+  app.delete("/api/teams/members/:userId", requireAuth, async (req, res) => {
+    try {
+      const team = await storage.getUserTeam(req.user!.id);
+      if (!team || team.captainId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the team captain can remove members" });
+      }
+      if (req.params.userId === req.user!.id) {
+        return res.status(400).json({ message: "Use leave to exit your own team" });
+      }
+
+      const memberTeam = await storage.getUserTeam(req.params.userId);
+      if (memberTeam?.id !== team.id) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      await storage.removeTeamMember(team.id, req.params.userId);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error removing team member:", error);
+      res.status(500).json({ message: "Failed to remove team member" });
+    }
+  });
+
+  app.post("/api/teams/invite-code", requireAuth, async (req, res) => {
+    try {
+      const team = await storage.getUserTeam(req.user!.id);
+      if (!team || team.captainId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the team captain can reset the invite code" });
+      }
+
+      const updatedTeam = await storage.regenerateInviteCode(team.id);
+      res.json(updatedTeam);
+    } catch (error) {
+      console.error("Error regenerating invite code:", error);
+      res.status(500).json({ message: "Failed to regenerate invite code" });
+    }
+  });
+
   // Global statistics
   app.get("/api/stats", async (req, res) => {
     try {
       // Get all published challenges
-      const allChallenges = await storage.getChallenges({ published: true });
+      const allChallenges = await storage.getChallenges({ published: true }, req.user?.id);
       
       // Calculate total available points from published challenges
       const totalAvailablePoints = allChallenges.reduce((sum, challenge) => sum + (challenge.points || 0), 0);
       
-      // Calculate total solved points (from challenges marked as globalSolved)
-      const solvedChallenges = allChallenges.filter(c => c.globalSolved);
+      // Calculate total solved points (from challenges that have a first blood).
+      // While frozen, solves after the freeze don't count towards global progress.
+      const cutoff = await getScoreboardCutoff(null);
+      const solvedChallenges = allChallenges.filter(c =>
+        c.firstBlood && (!cutoff || (c.firstBlood.solvedAt && c.firstBlood.solvedAt <= cutoff))
+      );
       const totalSolvedPoints = solvedChallenges.reduce((sum, challenge) => sum + (challenge.points || 0), 0);
       
       // Calculate completion percentage
       const percentComplete = totalAvailablePoints > 0 ? Math.round((totalSolvedPoints / totalAvailablePoints) * 100) : 0;
+
+      // Per-user progress (zero for anonymous visitors)
+      const userSolvedChallenges = allChallenges.filter(c => c.hasSolved);
+      const userSolvedPoints = userSolvedChallenges.reduce((sum, challenge) => sum + (challenge.points || 0), 0);
       
       res.json({
         totalAvailablePoints,
         totalSolvedPoints,
         percentComplete,
         solvedCount: solvedChallenges.length,
-        totalCount: allChallenges.length
+        totalCount: allChallenges.length,
+        userSolvedCount: userSolvedChallenges.length,
+        userSolvedPoints,
+        firstBloodCount: req.user ? allChallenges.filter(c => c.firstBlood?.userId === req.user!.id).length : 0,
+        frozen: !!cutoff,
       });
     } catch (error) {
       console.error("Error fetching stats:", error);
@@ -391,17 +962,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Hint not found" });
       }
 
-      // Check if hint already used
-      const existingUsage = await storage.getUserHintUsage(userId, challengeId);
-      if (existingUsage.some(usage => usage.hintIndex === hintIndex)) {
-        return res.status(400).json({ message: "Hint already used" });
+      const hint = challenge.hints[hintIndex];
+
+      const eventRestriction = await getEventRestriction(challenge.eventId, userId);
+      if (eventRestriction) {
+        return res.status(403).json({ message: eventRestriction });
       }
 
-      const hint = challenge.hints[hintIndex];
+      // Check if hint already used; hints unlocked by a teammate are free
+      const existingUsage = (await storage.getUserHintUsage(userId, challengeId))
+        .find(usage => usage.hintIndex === hintIndex);
+      if (existingUsage) {
+        if (existingUsage.userId === userId) {
+          return res.status(400).json({ message: "Hint already used" });
+        }
+        return res.json({ hint: hint.text, cost: 0 });
+      }
+
+      const team = await storage.getUserTeam(userId);
       
       // Deduct points and log usage
-      await storage.updateUserScore(userId, -hint.cost);
-      await storage.useHint(userId, challengeId, hintIndex, hint.cost);
+      await storage.addScoreEvent({ userId, teamId: team?.id, eventId: challenge.eventId, challengeId, type: "hint", points: -hint.cost });
+      await storage.useHint(userId, challengeId, hintIndex, hint.cost, team?.id);
+      broadcast({ type: "scoreboard", eventId: challenge.eventId });
 
       res.json({ hint: hint.text, cost: hint.cost });
     } catch (error) {
@@ -410,10 +993,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // File downloads
-  app.get("/uploads/:filename", (req, res) => {
-    const filename = req.params.filename;
+  // Tracked artifact downloads, with the player's dynamic flag templated into text files
+  app.get("/api/challenges/:id/artifacts/:index", allowApiToken("challenges:read"), requireAuth, async (req, res) => {
+    try {
+      const artifactIndex = parseInt(req.params.index);
+      const challenge = await storage.getChallenge(req.params.id);
+      const artifact = challenge?.artifacts?.[artifactIndex];
+      if (!challenge || !artifact) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const restriction = await getDownloadRestriction(artifact.url, req.user);
+      if (restriction) {
+        return res.status(403).json({ message: restriction });
+      }
+
+      const team = await storage.getUserTeam(req.user!.id);
+      await storage.recordArtifactDownload(req.user!.id, challenge.id, artifactIndex, team?.id);
+
+      const filepath = path.join(process.cwd(), 'uploads', path.basename(artifact.url));
+      if (!TEMPLATED_ARTIFACT_TYPES.includes(path.extname(artifact.name).toLowerCase())) {
+        return res.download(filepath, artifact.name);
+      }
+
+      const dynamicFlag = await getDynamicFlag(challenge, { userId: req.user!.id, teamId: team?.id });
+      const content = await readFile(filepath, 'utf8');
+      res.attachment(artifact.name);
+      res.send(dynamicFlag ? content.split(DYNAMIC_FLAG_PLACEHOLDER).join(dynamicFlag) : content);
+    } catch (error) {
+      console.error("Error downloading artifact:", error);
+      res.status(500).json({ message: "Failed to download file" });
+    }
+  });
+
+  // File downloads, once the file has been approved
+  app.get("/uploads/:filename", async (req, res) => {
+    // An encoded ../ in the name must not reach outside ./uploads
+    const filename = path.basename(req.params.filename);
     const filepath = path.join(process.cwd(), 'uploads', filename);
+
+    try {
+      const restriction = await getDownloadRestriction(filename, req.user);
+      if (restriction) {
+        return res.status(403).json({ message: restriction });
+      }
+    } catch (error) {
+      console.error("Error checking upload review:", error);
+      return res.status(500).json({ message: "Failed to download file" });
+    }
     
     res.download(filepath, (err) => {
       if (err) {
@@ -438,6 +1065,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = req.params.id;
       await storage.updateChallenge(id, { published: true });
+      broadcast({ type: "challenges" });
       res.json({ ok: true });
     } catch (error) {
       console.error("Error publishing challenge:", error);
@@ -449,6 +1077,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = req.params.id;
       await storage.updateChallenge(id, { published: false });
+      broadcast({ type: "challenges" });
       res.json({ ok: true });
     } catch (error) {
       console.error("Error unpublishing challenge:", error);
@@ -456,13 +1085,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  registerChallengeImportRoutes(app);
+  registerCtfdRoutes(app);
+  registerAnnouncementRoutes(app);
+  registerClarificationRoutes(app);
+  registerModerationRoutes(app);
+  registerArtifactRoutes(app);
+
   app.post("/api/admin/challenges/:id/answer", requireAdmin, async (req, res) => {
     try {
       const id = req.params.id;
       const { flag } = req.body;
       if (!flag) return res.status(400).json({ message: "Flag is required" });
-      const flagHash = await hashPassword(flag);
-      await storage.updateChallenge(id, { flagHash });
+      await storage.setChallengeFlags(id, [{ type: "static", value: flag }]);
       res.json({ ok: true });
     } catch (error) {
       console.error("Error updating challenge flag:", error);
@@ -470,6 +1105,224 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/admin/flag-sharing", requireAdmin, async (req, res) => {
+    try {
+      const incidents = await storage.getFlagSharingIncidents();
+      res.json(incidents);
+    } catch (error) {
+      console.error("Error fetching flag sharing incidents:", error);
+      res.status(500).json({ message: "Failed to fetch flag sharing incidents" });
+    }
+  });
+
+  // Rate limit lockouts
+  app.get("/api/admin/rate-limits", requireAdmin, async (req, res) => {
+    try {
+      const lockouts = await getRateLimitStore().getActiveLockouts(new Date());
+      res.json(lockouts);
+    } catch (error) {
+      console.error("Error fetching rate limit lockouts:", error);
+      res.status(500).json({ message: "Failed to fetch rate limit lockouts" });
+    }
+  });
+
+  app.delete("/api/admin/rate-limits/:key", requireAdmin, async (req, res) => {
+    try {
+      await getRateLimitStore().clearLockout(req.params.key);
+      res.json({ message: "Lockout lifted" });
+    } catch (error) {
+      console.error("Error lifting rate limit lockout:", error);
+      res.status(500).json({ message: "Failed to lift rate limit lockout" });
+    }
+  });
+
+  // Anti-cheat
+  app.get("/api/admin/anticheat", requireAdmin, async (req, res) => {
+    try {
+      const report = await buildAntiCheatReport();
+      res.json(report);
+    } catch (error) {
+      console.error("Error building anti-cheat report:", error);
+      res.status(500).json({ message: "Failed to build anti-cheat report" });
+    }
+  });
+
+  app.get("/api/admin/users/:id/submissions", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const submissions = await storage.getUserSubmissions(user.id);
+      res.json({
+        user: { id: user.id, username: user.username, score: user.score, bannedAt: user.bannedAt, banReason: user.banReason },
+        submissions,
+      });
+    } catch (error) {
+      console.error("Error fetching user submissions:", error);
+      res.status(500).json({ message: "Failed to fetch user submissions" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/ban", requireAdmin, async (req, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().trim().min(1, "A reason is required") }).parse(req.body);
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.isAdmin) {
+        return res.status(400).json({ message: "Admins cannot be banned" });
+      }
+
+      const banned = await storage.setUserBan(user.id, reason);
+      res.json({ id: banned.id, username: banned.username, bannedAt: banned.bannedAt, banReason: banned.banReason });
+    } catch (error) {
+      console.error("Error banning user:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ban data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to ban user" });
+    }
+  });
+
+  app.delete("/api/admin/users/:id/ban", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const unbanned = await storage.setUserBan(user.id, null);
+      res.json({ id: unbanned.id, username: unbanned.username, bannedAt: unbanned.bannedAt, banReason: unbanned.banReason });
+    } catch (error) {
+      console.error("Error unbanning user:", error);
+      res.status(500).json({ message: "Failed to unban user" });
+    }
+  });
+
+  // Sessions
+  app.get("/api/admin/users/:id/sessions", requireAdmin, async (req, res) => {
+    try {
+      const sessions = await storage.getUserSessions(req.params.id, new Date());
+      res.json(sessions.map(row => describeSession(row, req.sessionID)));
+    } catch (error) {
+      console.error("Error fetching user sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/admin/sessions/:id", requireAdmin, async (req, res) => {
+    try {
+      const target = await storage.getSessionById(req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.destroySession(target.sid);
+      res.json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  app.get("/api/admin/users/:id/score-events", requireAdmin, async (req, res) => {
+    try {
+      const events = await storage.getUserScoreEvents(req.params.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching score events:", error);
+      res.status(500).json({ message: "Failed to fetch score events" });
+    }
+  });
+
+  // Manual awards and penalties
+  app.post("/api/admin/users/:id/score-events", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { type, points, reason } = z.object({
+        type: z.enum(["award", "penalty"]),
+        points: z.number().int().positive(),
+        reason: z.string().min(1),
+      }).parse(req.body);
+
+      await storage.addScoreEvent({
+        userId: user.id,
+        type,
+        points: type === "penalty" ? -points : points,
+        reason,
+        createdById: req.user!.id,
+      });
+      broadcast({ type: "scoreboard", eventId: null });
+      res.status(201).json({ ok: true });
+    } catch (error) {
+      console.error("Error recording score event:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid score event", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to record score event" });
+    }
+  });
+
+  // Rebuild users.score from the ledger and report any drift
+  app.post("/api/admin/scores/recompute", requireAdmin, async (req, res) => {
+    try {
+      const result = await storage.recomputeScores();
+      broadcast({ type: "scoreboard", eventId: null });
+      res.json(result);
+    } catch (error) {
+      console.error("Error recomputing scores:", error);
+      res.status(500).json({ message: "Failed to recompute scores" });
+    }
+  });
+
+  // Scoreboard freeze; a missing eventId targets the global scoreboard
+  app.post("/api/admin/scoreboard/freeze", requireAdmin, async (req, res) => {
+    try {
+      const { eventId, freezesAt } = z.object({
+        eventId: z.string().nullish(),
+        freezesAt: z.coerce.date().optional(),
+      }).parse(req.body);
+
+      if (eventId && !(await storage.getEvent(eventId))) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      await storage.freezeScoreboard(eventId ?? null, freezesAt ?? new Date(), req.user!.id);
+      broadcast({ type: "scoreboard", eventId: eventId ?? null });
+      res.json(await getFreezeStatus(eventId ?? null));
+    } catch (error) {
+      console.error("Error freezing scoreboard:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid freeze data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to freeze scoreboard" });
+    }
+  });
+
+  app.post("/api/admin/scoreboard/unfreeze", requireAdmin, async (req, res) => {
+    try {
+      const eventId = typeof req.body.eventId === "string" && req.body.eventId ? req.body.eventId : null;
+      const freeze = await storage.unfreezeScoreboard(eventId);
+      if (!freeze) {
+        return res.status(400).json({ message: "Scoreboard is not frozen" });
+      }
+      broadcast({ type: "scoreboard", eventId });
+      res.json(await getFreezeStatus(eventId));
+    } catch (error) {
+      console.error("Error unfreezing scoreboard:", error);
+      res.status(500).json({ message: "Failed to unfreeze scoreboard" });
+    }
+  });
+
   const httpServer = createServer(app);
+  attachLiveUpdates(httpServer);
   return httpServer;
 }
@@ -0,0 +1,73 @@
+import type { Challenge, FirstBlood, ScoreboardFreeze } from "@shared/schema";
+import { computeChallengeValue, getScoringParams } from "@shared/scoring";
+import { storage } from "./storage";
+
+export interface FreezeStatus {
+  frozen: boolean;
+  freezesAt: Date | null;
+  unfrozenAt: Date | null;
+}
+
+export function isFreezeActive(freeze: ScoreboardFreeze | undefined, now = new Date()): freeze is ScoreboardFreeze {
+  return !!freeze && !freeze.unfrozenAt && now >= freeze.freezesAt;
+}
+
+/**
+ * Point in time the public scoreboard of a scope is frozen at, or undefined
+ * when it shows live scores. A null eventId is the global scoreboard.
+ */
+export async function getScoreboardCutoff(eventId: string | null): Promise<Date | undefined> {
+  const freeze = await storage.getScoreboardFreeze(eventId);
+  return isFreezeActive(freeze) ? freeze.freezesAt : undefined;
+}
+
+export async function getFreezeStatus(eventId: string | null): Promise<FreezeStatus> {
+  const freeze = await storage.getScoreboardFreeze(eventId);
+  return {
+    frozen: isFreezeActive(freeze),
+    freezesAt: freeze?.freezesAt ?? null,
+    unfrozenAt: freeze?.unfrozenAt ?? null,
+  };
+}
+
+/**
+ * Rolls solve counts, first bloods and dynamic values back to the freeze of each
+ * challenge's scoreboard, so a frozen scoreboard can't be read off the challenges.
+ */
+export async function freezeChallengeStats<T extends Challenge & { solveCount?: number; firstBlood: FirstBlood | null }>(challenges: T[]): Promise<T[]> {
+  const cutoffs = new Map<string | null, Date | undefined>();
+  const frozenCounts = new Map<string, number>();
+  for (const eventId of Array.from(new Set(challenges.map(challenge => challenge.eventId ?? null)))) {
+    const cutoff = await getScoreboardCutoff(eventId);
+    cutoffs.set(eventId, cutoff);
+    if (!cutoff) continue;
+
+    const ids = challenges.filter(challenge => (challenge.eventId ?? null) === eventId).map(challenge => challenge.id);
+    (await storage.getSolveCountsAsOf(ids, cutoff)).forEach((count, id) => frozenCounts.set(id, count));
+  }
+
+  return challenges.map(challenge => {
+    const cutoff = cutoffs.get(challenge.eventId ?? null);
+    if (!cutoff) return challenge;
+
+    const solveCount = frozenCounts.get(challenge.id) ?? 0;
+    const firstBlood = challenge.firstBlood?.solvedAt && challenge.firstBlood.solvedAt <= cutoff ? challenge.firstBlood : null;
+    const points = (challenge.scoringType ?? "static") === "static"
+      ? challenge.points
+      : computeChallengeValue(getScoringParams(challenge), solveCount);
+    return { ...challenge, points, firstBlood, ...(challenge.solveCount !== undefined ? { solveCount } : {}) };
+  });
+}
+
+/** Leaves out solves made after the freeze of their challenge's scoreboard. */
+export async function hideFrozenSolves<T extends { solvedAt: Date | null; challenge: Pick<Challenge, "eventId"> }>(solves: T[]): Promise<T[]> {
+  const cutoffs = new Map<string | null, Date | undefined>();
+  for (const eventId of Array.from(new Set(solves.map(solve => solve.challenge.eventId ?? null)))) {
+    cutoffs.set(eventId, await getScoreboardCutoff(eventId));
+  }
+
+  return solves.filter(solve => {
+    const cutoff = cutoffs.get(solve.challenge.eventId ?? null);
+    return !cutoff || (!!solve.solvedAt && solve.solvedAt <= cutoff);
+  });
+}
@@ -0,0 +1,77 @@
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
+import { rateLimit } from "./rate-limit";
+
+export interface SecurityHeaderOptions {
+  // The Vite dev server injects an inline React refresh preamble and talks HMR over a websocket
+  development: boolean;
+  // Send the policy as Content-Security-Policy-Report-Only so violations are reported but not blocked
+  reportOnly: boolean;
+  // 0 disables HSTS; only sent in production, where the app is served over HTTPS
+  hstsMaxAge: number;
+}
+
+export const CSP_REPORT_PATH = "/api/csp-report";
+
+export function getSecurityHeaderOptions(app: Express): SecurityHeaderOptions {
+  return {
+    development: app.get("env") === "development",
+    reportOnly: process.env.CSP_REPORT_ONLY === "true",
+    hstsMaxAge: parseInt(process.env.HSTS_MAX_AGE || "15552000", 10),
+  };
+}
+
+function buildContentSecurityPolicy({ development }: SecurityHeaderOptions): string {
+  const directives: Record<string, string[]> = {
+    "default-src": ["'self'"],
+    "script-src": development ? ["'self'", "'unsafe-inline'"] : ["'self'"],
+    // Radix UI positions popovers with inline style attributes
+    "style-src": ["'self'", "'unsafe-inline'", "https://fonts.googleapis.com"],
+    "font-src": ["'self'", "https://fonts.gstatic.com", "data:"],
+    // data: for the 2FA QR code
+    "img-src": ["'self'", "data:", "blob:"],
+    "connect-src": development ? ["'self'", "ws:", "wss:"] : ["'self'"],
+    "object-src": ["'none'"],
+    "base-uri": ["'self'"],
+    "form-action": ["'self'"],
+    "frame-ancestors": ["'none'"],
+    "report-uri": [CSP_REPORT_PATH],
+  };
+  return Object.entries(directives)
+    .map(([directive, sources]) => `${directive} ${sources.join(" ")}`)
+    .join("; ");
+}
+
+export function securityHeaders(options: SecurityHeaderOptions) {
+  const policy = buildContentSecurityPolicy(options);
+  const policyHeader = options.reportOnly ? "Content-Security-Policy-Report-Only" : "Content-Security-Policy";
+
+  return (_req: Request, res: Response, next: NextFunction) => {
+    res.setHeader(policyHeader, policy);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("X-Frame-Options", "DENY");
+    res.setHeader("Referrer-Policy", "strict-origin-when-cross-origin");
+    res.setHeader("Cross-Origin-Opener-Policy", "same-origin");
+    res.setHeader("Permissions-Policy", "camera=(), microphone=(), geolocation=(), payment=()");
+    if (!options.development && options.hstsMaxAge > 0) {
+      res.setHeader("Strict-Transport-Security", `max-age=${options.hstsMaxAge}; includeSubDomains`);
+    }
+    next();
+  };
+}
+
+/**
+ * Logs CSP violation reports sent by browsers. Registered before setupAuth so the
+ * CSRF check doesn't reject them; browsers can't attach our token to reports.
+ */
+export function registerCspReportRoute(app: Express) {
+  app.post(
+    CSP_REPORT_PATH,
+    rateLimit("csp-report"),
+    express.json({ type: ["application/csp-report", "application/reports+json", "application/json"] }),
+    (req, res) => {
+      const report = req.body?.["csp-report"] ?? req.body;
+      console.warn("CSP violation:", JSON.stringify(report).slice(0, 1000));
+      res.sendStatus(204);
+    },
+  );
+}
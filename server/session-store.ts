@@ -0,0 +1,80 @@
+import session from "express-session";
+import type { Session } from "@shared/schema";
+import { storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    // Where the session was opened, shown in the player's list of active sessions
+    client?: { ipAddress?: string; userAgent?: string };
+  }
+}
+
+// Sessions without an explicit cookie expiry last as long as the cookie maxAge default
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+// Activity is recorded at most this often per session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+const CLEANUP_INTERVAL_MS = 15 * 60 * 1000;
+
+function expiryOf(sess: session.SessionData): Date {
+  return sess.cookie?.expires ? new Date(sess.cookie.expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+}
+
+/**
+ * express-session store persisting sessions in the `sessions` table, so
+ * players stay logged in across restarts and every instance shares them.
+ */
+export class DatabaseSessionStore extends session.Store {
+  constructor() {
+    super();
+    const timer = setInterval(() => {
+      storage.deleteExpiredSessions(new Date()).catch(error => {
+        console.error("Error deleting expired sessions:", error);
+      });
+    }, CLEANUP_INTERVAL_MS);
+    timer.unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    storage.getSession(sid, new Date())
+      .then(row => callback(null, row ? JSON.parse(row.data) : null))
+      .catch(callback);
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void) {
+    const userId = (sess as { passport?: { user?: string } }).passport?.user ?? null;
+    storage.saveSession(sid, {
+      userId,
+      data: JSON.stringify(sess),
+      ipAddress: sess.client?.ipAddress ?? null,
+      userAgent: sess.client?.userAgent ?? null,
+      expiresAt: expiryOf(sess),
+    })
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: (err?: any) => void) {
+    storage.touchSession(sid, expiryOf(sess), new Date(Date.now() - TOUCH_INTERVAL_MS))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    storage.destroySession(sid)
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+}
+
+/** A session as listed to its owner or an admin; the sid itself is never exposed. */
+export function describeSession(row: Session, currentSid?: string) {
+  return {
+    id: row.id,
+    ipAddress: row.ipAddress,
+    userAgent: row.userAgent,
+    createdAt: row.createdAt,
+    lastSeenAt: row.lastSeenAt,
+    expiresAt: row.expiresAt,
+    current: row.sid === currentSid,
+  };
+}
@@ -0,0 +1,21 @@
+import { solveModes, type Challenge, type Event, type SolveMode } from "@shared/schema";
+
+// Share of a challenge's points awarded on top to its first solver in first-blood-bonus mode
+export const FIRST_BLOOD_BONUS_RATIO = 0.1;
+
+export function getDefaultSolveMode(): SolveMode {
+  const configured = process.env.DEFAULT_SOLVE_MODE as SolveMode | undefined;
+  return configured && solveModes.includes(configured) ? configured : "open";
+}
+
+// A challenge's own mode wins over its event's default, which wins over the site default
+export function resolveSolveMode(
+  challenge: Pick<Challenge, "solveMode">,
+  event?: Pick<Event, "solveMode"> | null,
+): SolveMode {
+  return challenge.solveMode ?? event?.solveMode ?? getDefaultSolveMode();
+}
+
+export function getFirstBloodBonus(points: number): number {
+  return Math.round(points * FIRST_BLOOD_BONUS_RATIO);
+}
@@ -6,6 +6,29 @@ import {
   achievements,
   userAchievements,
   hintUsage,
+  scoreEvents,
+  teams,
+  teamMembers,
+  events,
+  eventRegistrations,
+  scoreboardFreezes,
+  challengeFlags,
+  flagSharingIncidents,
+  issuedFlags,
+  artifactDownloads,
+  rateLimitCounters,
+  rateLimitLockouts,
+  sessions,
+  mailQueue,
+  apiTokens,
+  announcements,
+  announcementReads,
+  clarificationTickets,
+  ticketMessages,
+  clarifications,
+  challengeReports,
+  moderationLog,
+  artifactUploads,
   type User,
   type InsertUser,
   type Challenge,
@@ -16,19 +39,90 @@ import {
   type Achievement,
   type UserAchievement,
   type HintUsage,
+  type FirstBlood,
+  type IssuedFlag,
+  type SolveClaim,
+  type SolveMode,
+  type ScoreEvent,
+  type InsertScoreEvent,
+  type Team,
+  type TeamMember,
+  type Event,
+  type InsertEvent,
+  type ScoreboardFreeze,
+  type ChallengeFlag,
+  type FlagDefinition,
+  type FlagSharingIncident,
+  type RateLimitLockout,
+  type Session,
+  type QueuedMail,
+  type ApiToken,
+  type Announcement,
+  type InsertAnnouncement,
+  type ClarificationTicket,
+  type TicketMessage,
+  type TicketStatus,
+  type TicketThread,
+  type Clarification,
+  type InsertClarification,
+  type ChallengeReport,
+  type InsertChallengeReport,
+  type ModerationAction,
+  type ModerationLogEntry,
+  type ArtifactUpload,
+  type ArtifactStatus,
+  type ArtifactScanResult,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, count, and, sql } from "drizzle-orm";
-import { randomBytes } from "crypto";
-import { hashPassword } from "./auth";
+import { db as defaultDb, type Database } from "./db";
+import { eq, ne, desc, asc, count, and, or, sql, inArray, isNull, lte, gt, lt } from "drizzle-orm";
+import { alias } from "drizzle-orm/mysql-core";
+import { randomBytes, randomUUID } from "crypto";
+import { prepareFlags } from "./flags";
+import { getFirstBloodBonus } from "./solve-mode";
+import { computeChallengeValue, getScoringParams } from "@shared/scoring";
 
 export interface IStorage {
+  // Runs work in one transaction: whatever it does through the storage it is given commits or rolls back together
+  transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T>;
+
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUserScore(userId: string, points: number): Promise<void>;
+  markEmailVerified(userId: string): Promise<void>;
+  updatePassword(userId: string, password: string): Promise<void>;
+  updateUserTwoFactor(userId: string, update: Partial<Pick<User, "totpSecret" | "totpEnabledAt" | "totpLastStep" | "totpRecoveryCodes">>): Promise<User>;
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
+  getAdminEmails(): Promise<string[]>;
+
+  // Score ledger operations
+  addScoreEvent(event: InsertScoreEvent): Promise<void>;
+  getUserScoreEvents(userId: string): Promise<ScoreEvent[]>;
+  backfillScoreLedger(): Promise<number>;
+  recomputeScores(): Promise<{ checked: number; drift: Array<{ userId: string; username: string; storedScore: number; ledgerScore: number }> }>;
+
+  // Team operations
+  getTeam(id: string): Promise<Team | undefined>;
+  getTeamByName(name: string): Promise<Team | undefined>;
+  getTeamByInviteCode(inviteCode: string): Promise<Team | undefined>;
+  getUserTeam(userId: string): Promise<Team | undefined>;
+  createTeam(name: string, captainId: string): Promise<Team>;
+  addTeamMember(teamId: string, userId: string): Promise<TeamMember>;
+  joinTeam(teamId: string, userId: string, maxSize: number): Promise<TeamMember | undefined>;
+  removeTeamMember(teamId: string, userId: string): Promise<void>;
+  regenerateInviteCode(teamId: string): Promise<Team>;
+  getTeamMembers(teamId: string, asOf?: Date): Promise<(TeamMember & { user: User; contribution: number })[]>;
+  getTeamScore(teamId: string, asOf?: Date): Promise<number>;
+
+  // Event operations
+  getEvents(): Promise<(Event & { challengeCount: number; registrationCount: number })[]>;
+  getEvent(id: string): Promise<Event | undefined>;
+  createEvent(event: InsertEvent): Promise<Event>;
+  updateEvent(id: string, event: Partial<InsertEvent>): Promise<Event>;
+  registerForEvent(eventId: string, userId: string): Promise<void>;
+  isRegisteredForEvent(eventId: string, userId: string): Promise<boolean>;
+  publishDueEventChallenges(now: Date): Promise<number>;
 
   // Challenge operations
   getChallenges(filters?: {
@@ -36,26 +130,138 @@ export interface IStorage {
     difficulty?: string;
     published?: boolean;
     search?: string;
-  }): Promise<(Challenge & { creator: User; solveCount: number })[]>;
+    eventId?: string;
+  }, viewerId?: string): Promise<(Challenge & { creator: User; solveCount: number; hasSolved: boolean; firstBlood: FirstBlood | null })[]>;
   getChallenge(id: string): Promise<Challenge | undefined>;
   getChallengeBySlug(slug: string): Promise<Challenge | undefined>;
+  getChallengeByExternalId(externalId: string): Promise<Challenge | undefined>;
   createChallenge(challenge: InsertChallenge): Promise<Challenge>;
   updateChallenge(id: string, challenge: Partial<Challenge>): Promise<Challenge>;
   deleteChallenge(id: string): Promise<void>;
+  // Submissions, solves and hint unlocks keep a challenge from being deleted
+  hasChallengeActivity(id: string): Promise<boolean>;
   getUserChallenges(userId: string): Promise<(Challenge & { solveCount: number })[]>;
+  setChallengeValue(id: string, points: number, exceptUserId?: string): Promise<void>;
+  getChallengeFlags(challengeId: string): Promise<ChallengeFlag[]>;
+  setChallengeFlags(challengeId: string, flags: FlagDefinition[]): Promise<void>;
+  getIssuedFlag(challengeId: string, userId: string): Promise<IssuedFlag | undefined>;
+  recordIssuedFlag(issued: { challengeId: string; userId: string; teamId: string | null; flagLookup: string }): Promise<IssuedFlag>;
+  findIssuedFlags(challengeId: string, flagLookup: string): Promise<IssuedFlag[]>;
+
+  // Flag sharing operations
+  createFlagSharingIncident(incident: Omit<FlagSharingIncident, "id" | "createdAt">): Promise<void>;
+  getFlagSharingIncidents(): Promise<Array<FlagSharingIncident & { challengeTitle: string; username: string; ownerUsername: string | null; ownerTeamName: string | null; flagAttempt: string | null }>>;
+
+  // Anti-cheat operations
+  setUserBan(userId: string, reason: string | null): Promise<User>;
+  recordArtifactDownload(userId: string, challengeId: string, artifactIndex: number, teamId?: string | null): Promise<void>;
+  getSharedIpAccounts(): Promise<Array<{ ipAddress: string; userId: string; username: string; submissionCount: number }>>;
+  getWrongSubmissions(): Promise<Array<Submission & { username: string; challengeTitle: string }>>;
+  getSolveTimeline(): Promise<Array<{ userId: string; username: string; challengeId: string; challengeTitle: string; solvedAt: Date | null }>>;
+  getSolvesWithoutDownload(): Promise<Array<{ userId: string; username: string; challengeId: string; challengeTitle: string; solvedAt: Date | null }>>;
+  getUserSubmissions(userId: string): Promise<Array<Submission & { challengeTitle: string }>>;
 
   // Submission operations
   createSubmission(submission: InsertSubmission): Promise<Submission>;
   getSubmissionCount(userId: string, challengeId: string, timeWindow: number): Promise<number>;
 
   // Solve operations
-  createSolve(userId: string, challengeId: string): Promise<Solve>;
+  createSolve(userId: string, challengeId: string, teamId: string | null, solveMode: SolveMode): Promise<SolveClaim>;
   getUserSolves(userId: string): Promise<(Solve & { challenge: Challenge })[]>;
   hasSolved(userId: string, challengeId: string): Promise<boolean>;
+  getFirstBlood(challengeId: string): Promise<FirstBlood | undefined>;
+  getSolveCount(challengeId: string): Promise<number>;
+  getSolveCountsAsOf(challengeIds: string[], asOf: Date): Promise<Map<string, number>>;
+
+  // Leaderboard operations (asOf limits scores to ledger entries up to that time)
+  getLeaderboard(limit?: number, eventId?: string, asOf?: Date): Promise<Array<User & { rank: number; solveCount: number }>>;
+  getUserScore(userId: string, asOf?: Date): Promise<number>;
+  getUserRank(userId: string, asOf?: Date): Promise<number>;
+  getTeamLeaderboard(limit?: number, eventId?: string, asOf?: Date): Promise<Array<Team & { rank: number; score: number; solveCount: number; memberCount: number }>>;
+
+  // Scoreboard freeze operations (a null eventId is the global scoreboard)
+  getScoreboardFreeze(eventId: string | null): Promise<ScoreboardFreeze | undefined>;
+  freezeScoreboard(eventId: string | null, freezesAt: Date, createdById: string): Promise<ScoreboardFreeze>;
+  unfreezeScoreboard(eventId: string | null): Promise<ScoreboardFreeze | undefined>;
+
+  // Session operations (backing the express-session store)
+  getSession(sid: string, now: Date): Promise<Session | undefined>;
+  saveSession(sid: string, session: Pick<Session, "userId" | "data" | "ipAddress" | "userAgent" | "expiresAt">): Promise<void>;
+  touchSession(sid: string, expiresAt: Date, seenBefore: Date): Promise<void>;
+  destroySession(sid: string): Promise<void>;
+  getSessionById(id: string): Promise<Session | undefined>;
+  getUserSessions(userId: string, now: Date): Promise<Session[]>;
+  deleteExpiredSessions(now: Date): Promise<void>;
+  deleteUserSessions(userId: string): Promise<void>;
+
+  // API token operations (tokens are looked up by the SHA-256 hash of their value)
+  createApiToken(token: Pick<ApiToken, "userId" | "label" | "tokenHash" | "tokenPrefix" | "scopes" | "expiresAt">): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getUserApiTokens(userId: string): Promise<ApiToken[]>;
+  deleteApiToken(id: string, userId: string): Promise<boolean>;
+  touchApiToken(id: string, seenBefore: Date): Promise<void>;
+
+  // Mail queue operations
+  enqueueMail(mail: Pick<QueuedMail, "toAddress" | "subject" | "body">): Promise<void>;
+  getDueMail(now: Date, limit: number): Promise<QueuedMail[]>;
+  claimMail(id: string, now: Date, leaseUntil: Date): Promise<boolean>;
+  markMailSent(id: string): Promise<void>;
+  markMailAttemptFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
+
+  // Rate limit operations (backing the database rate limit store)
+  hitRateLimit(key: string, at: Date, windowMs: number): Promise<{ current: number; previous: number }>;
+  getRateLimitLockout(key: string): Promise<RateLimitLockout | undefined>;
+  saveRateLimitLockout(lockout: RateLimitLockout): Promise<void>;
+  clearRateLimitLockout(key: string): Promise<void>;
+  getActiveRateLimitLockouts(now: Date): Promise<RateLimitLockout[]>;
+  pruneRateLimits(hitsBefore: Date, strikesBefore: Date): Promise<void>;
+
+  // Export operations (whole tables, for platform exports)
+  getExportData(): Promise<{
+    challenges: Challenge[];
+    challengeFlags: ChallengeFlag[];
+    users: User[];
+    teams: Team[];
+    teamMembers: TeamMember[];
+    submissions: Submission[];
+    solves: Solve[];
+  }>;
+
+  // Announcement operations (players only get the ones addressed to them)
+  getAnnouncements(): Promise<Announcement[]>;
+  getAnnouncement(id: string): Promise<Announcement | undefined>;
+  createAnnouncement(announcement: InsertAnnouncement & { createdById: string }): Promise<Announcement>;
+  updateAnnouncement(id: string, announcement: InsertAnnouncement): Promise<Announcement>;
+  deleteAnnouncement(id: string): Promise<void>;
+  getUserAnnouncements(userId: string): Promise<Array<Announcement & { read: boolean }>>;
+  markAnnouncementsRead(userId: string, announcementIds: string[]): Promise<void>;
 
-  // Leaderboard operations
-  getLeaderboard(limit?: number): Promise<Array<User & { rank: number; solveCount: number }>>;
-  getUserRank(userId: string): Promise<number>;
+  // Clarification operations (tickets are private threads, clarifications their public summaries)
+  createTicket(challengeId: string, userId: string, question: string): Promise<ClarificationTicket>;
+  getTicket(id: string): Promise<ClarificationTicket | undefined>;
+  getTicketThreads(challengeId: string, userId?: string): Promise<TicketThread[]>;
+  getStaffTickets(creatorId: string | null, status?: TicketStatus): Promise<Array<ClarificationTicket & { challengeTitle: string; username: string }>>;
+  addTicketMessage(ticketId: string, authorId: string, body: string, status: TicketStatus): Promise<TicketMessage>;
+  setTicketStatus(id: string, status: TicketStatus): Promise<void>;
+  getClarifications(challengeId: string): Promise<Clarification[]>;
+  getClarification(id: string): Promise<Clarification | undefined>;
+  createClarification(clarification: InsertClarification & { challengeId: string; ticketId: string | null; createdById: string }): Promise<Clarification>;
+  deleteClarification(id: string): Promise<void>;
+
+  // Moderation operations (reports outlive the challenges they are about)
+  createChallengeReport(report: InsertChallengeReport & { challengeId: string; challengeTitle: string; reporterId: string }): Promise<ChallengeReport>;
+  getChallengeReport(id: string): Promise<ChallengeReport | undefined>;
+  getChallengeReports(filters: { open?: boolean; challengeId?: string; reporterId?: string }): Promise<Array<ChallengeReport & { reporterName: string; challengePublished: boolean | null; creatorName: string | null }>>;
+  resolveChallengeReports(reportIds: string[], action: ModerationAction, moderatorId: string, note: string | null): Promise<void>;
+  getModerationLog(limit: number): Promise<Array<ModerationLogEntry & { moderatorName: string }>>;
+
+  // Artifact quarantine operations (uploads are looked up by their name on disk)
+  createArtifactUpload(upload: { filename: string; originalName: string; size: number; sha256: string; challengeId: string | null; uploadedById: string; status?: ArtifactStatus }): Promise<ArtifactUpload>;
+  getArtifactUpload(id: string): Promise<ArtifactUpload | undefined>;
+  getArtifactUploadByFilename(filename: string): Promise<ArtifactUpload | undefined>;
+  getArtifactUploads(status?: ArtifactStatus): Promise<Array<ArtifactUpload & { uploaderName: string; challengeTitle: string | null }>>;
+  setArtifactScanResults(id: string, results: ArtifactScanResult[]): Promise<void>;
+  reviewArtifactUpload(id: string, status: ArtifactStatus, reviewerId: string): Promise<void>;
 
   // Achievement operations
   getAchievements(): Promise<Achievement[]>;
@@ -63,39 +269,473 @@ export interface IStorage {
   unlockAchievement(userId: string, achievementId: string): Promise<UserAchievement>;
 
   // Hint operations
-  useHint(userId: string, challengeId: string, hintIndex: number, pointsDeducted: number): Promise<HintUsage>;
+  useHint(userId: string, challengeId: string, hintIndex: number, pointsDeducted: number, teamId?: string | null): Promise<HintUsage>;
   getUserHintUsage(userId: string, challengeId: string): Promise<HintUsage[]>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private db: Database = defaultDb) {}
+
+  async transaction<T>(work: (storage: IStorage) => Promise<T>): Promise<T> {
+    return await this.db.transaction(async (tx) => work(new DatabaseStorage(tx)));
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    await db
+    // New accounts start unverified (the column default only backfills existing accounts)
+    await this.db
       .insert(users)
-      .values(insertUser);
-    const [user] = await db.select().from(users).where(eq(users.email, insertUser.email));
+      .values({ ...insertUser, emailVerifiedAt: null });
+    const [user] = await this.db.select().from(users).where(eq(users.email, insertUser.email));
+    return user;
+  }
+
+  async markEmailVerified(userId: string): Promise<void> {
+    await this.db.update(users).set({ emailVerifiedAt: new Date() }).where(eq(users.id, userId));
+  }
+
+  async updatePassword(userId: string, password: string): Promise<void> {
+    await this.db.update(users).set({ password, updatedAt: new Date() }).where(eq(users.id, userId));
+  }
+
+  async updateUserTwoFactor(userId: string, update: Partial<Pick<User, "totpSecret" | "totpEnabledAt" | "totpLastStep" | "totpRecoveryCodes">>): Promise<User> {
+    await this.db.update(users).set(update).where(eq(users.id, userId));
+    const [user] = await this.db.select().from(users).where(eq(users.id, userId));
     return user;
   }
 
-  async updateUserScore(userId: string, points: number): Promise<void> {
-    await db
+  // False when this or a later step was already used, e.g. by a concurrent login with the same code
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const [result] = await this.db
       .update(users)
-      .set({ score: sql`${users.score} + ${points}` })
-      .where(eq(users.id, userId));
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))));
+    return result.affectedRows > 0;
+  }
+
+  async getAdminEmails(): Promise<string[]> {
+    const admins = await this.db.select({ email: users.email }).from(users).where(eq(users.isAdmin, true));
+    return admins.map(admin => admin.email);
+  }
+
+  // Every score change goes through the ledger; users.score is only a cached sum
+  async addScoreEvent(event: InsertScoreEvent): Promise<void> {
+    await this.db
+      .insert(scoreEvents)
+      .values(event);
+
+    await this.db
+      .update(users)
+      .set({ score: sql`${users.score} + ${event.points}` })
+      .where(eq(users.id, event.userId));
+  }
+
+  async getUserScoreEvents(userId: string): Promise<ScoreEvent[]> {
+    return await this.db
+      .select()
+      .from(scoreEvents)
+      .where(eq(scoreEvents.userId, userId))
+      .orderBy(desc(scoreEvents.createdAt));
+  }
+
+  // Players whose points appear on scoreboards: neither admins nor banned, and
+  // on an event scoreboard registered for the event
+  private scoringPlayers(eventId?: string) {
+    const conditions = [eq(users.isAdmin, false), isNull(users.bannedAt)];
+    if (eventId) {
+      conditions.push(inArray(
+        users.id,
+        this.db.select({ userId: eventRegistrations.userId }).from(eventRegistrations).where(eq(eventRegistrations.eventId, eventId))
+      ));
+    }
+    return this.db.select({ id: users.id }).from(users).where(and(...conditions));
+  }
+
+  // Team totals from the ledger, counting only scoring players
+  private teamScores(eventId?: string, asOf?: Date) {
+    const conditions = [inArray(scoreEvents.userId, this.scoringPlayers(eventId))];
+    if (eventId) conditions.push(eq(scoreEvents.eventId, eventId));
+    if (asOf) conditions.push(lte(scoreEvents.createdAt, asOf));
+
+    return this.db
+      .select({
+        teamId: scoreEvents.teamId,
+        score: sql<number>`coalesce(sum(${scoreEvents.points}), 0)`.as("team_score"),
+      })
+      .from(scoreEvents)
+      .where(and(...conditions))
+      .groupBy(scoreEvents.teamId)
+      .as("team_scores");
+  }
+
+  private ledgerScores(eventId?: string, asOf?: Date) {
+    const conditions = [];
+    if (eventId) conditions.push(eq(scoreEvents.eventId, eventId));
+    if (asOf) conditions.push(lte(scoreEvents.createdAt, asOf));
+
+    return this.db
+      .select({
+        userId: scoreEvents.userId,
+        score: sql<number>`coalesce(sum(${scoreEvents.points}), 0)`.as("ledger_score"),
+      })
+      .from(scoreEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(scoreEvents.userId)
+      .as("ledger");
+  }
+
+  // Solves and hint usage that predate the ledger get their entries reconstructed.
+  // Works per solve and per hint, so players who scored again since keep their older history.
+  async backfillScoreLedger(): Promise<number> {
+    const unrecordedSolves = await this.db
+      .select({ solve: solves, challenge: challenges })
+      .from(solves)
+      .innerJoin(challenges, eq(solves.challengeId, challenges.id))
+      .where(sql`not exists (select 1 from ${scoreEvents} where ${scoreEvents.userId} = ${solves.userId} and ${scoreEvents.challengeId} = ${solves.challengeId} and ${scoreEvents.type} = 'solve')`);
+
+    // Hints have no index in the ledger, so a player's earliest usages on a challenge are
+    // the unrecorded ones when there are fewer hint entries than usages
+    const recordedHints = new Map<string, number>();
+    const hintEntries = await this.db
+      .select({ userId: scoreEvents.userId, challengeId: scoreEvents.challengeId, recorded: count() })
+      .from(scoreEvents)
+      .where(eq(scoreEvents.type, "hint"))
+      .groupBy(scoreEvents.userId, scoreEvents.challengeId);
+    for (const entry of hintEntries) {
+      recordedHints.set(`${entry.userId}:${entry.challengeId}`, Number(entry.recorded));
+    }
+
+    const hintsBySolver = new Map<string, Array<{ hint: HintUsage; eventId: string | null }>>();
+    const hints = await this.db
+      .select({ hint: hintUsage, eventId: challenges.eventId })
+      .from(hintUsage)
+      .innerJoin(challenges, eq(hintUsage.challengeId, challenges.id))
+      .orderBy(asc(hintUsage.usedAt));
+    for (const row of hints) {
+      const key = `${row.hint.userId}:${row.hint.challengeId}`;
+      hintsBySolver.set(key, [...(hintsBySolver.get(key) ?? []), row]);
+    }
+    const unrecordedHints = Array.from(hintsBySolver.entries())
+      .flatMap(([key, rows]) => rows.slice(0, Math.max(0, rows.length - (recordedHints.get(key) ?? 0))));
+
+    const history: Array<InsertScoreEvent & { createdAt?: Date }> = [
+      ...unrecordedSolves.map(({ solve, challenge }) => ({
+        userId: solve.userId,
+        teamId: solve.teamId,
+        eventId: challenge.eventId,
+        challengeId: solve.challengeId,
+        type: "solve" as const,
+        points: challenge.points,
+        reason: "Backfilled from solves",
+        // Dated like the solve, so frozen scoreboards still count it
+        createdAt: solve.solvedAt ?? undefined,
+      })),
+      ...unrecordedHints.map(({ hint, eventId }) => ({
+        userId: hint.userId,
+        teamId: hint.teamId,
+        eventId,
+        challengeId: hint.challengeId,
+        type: "hint" as const,
+        points: -hint.pointsDeducted,
+        reason: "Backfilled from hint usage",
+        createdAt: hint.usedAt ?? undefined,
+      })),
+    ];
+
+    if (history.length > 0) {
+      await this.db.insert(scoreEvents).values(history);
+    }
+    return history.length;
+  }
+
+  async recomputeScores(): Promise<{ checked: number; drift: Array<{ userId: string; username: string; storedScore: number; ledgerScore: number }> }> {
+    const ledger = this.ledgerScores();
+    const rows = await this.db
+      .select({
+        userId: users.id,
+        username: users.username,
+        storedScore: users.score,
+        ledgerScore: ledger.score,
+      })
+      .from(users)
+      .leftJoin(ledger, eq(users.id, ledger.userId));
+
+    const drift = [];
+    for (const row of rows) {
+      const storedScore = row.storedScore ?? 0;
+      const ledgerScore = Number(row.ledgerScore ?? 0);
+      if (storedScore === ledgerScore) continue;
+
+      drift.push({ userId: row.userId, username: row.username, storedScore, ledgerScore });
+      await this.db
+        .update(users)
+        .set({ score: ledgerScore, updatedAt: new Date() })
+        .where(eq(users.id, row.userId));
+    }
+
+    return { checked: rows.length, drift };
+  }
+
+  async getTeam(id: string): Promise<Team | undefined> {
+    const [team] = await this.db.select().from(teams).where(eq(teams.id, id));
+    return team || undefined;
+  }
+
+  async getTeamByName(name: string): Promise<Team | undefined> {
+    const [team] = await this.db.select().from(teams).where(eq(teams.name, name));
+    return team || undefined;
+  }
+
+  async getTeamByInviteCode(inviteCode: string): Promise<Team | undefined> {
+    const [team] = await this.db.select().from(teams).where(eq(teams.inviteCode, inviteCode));
+    return team || undefined;
+  }
+
+  async getUserTeam(userId: string): Promise<Team | undefined> {
+    const [row] = await this.db
+      .select({ team: teams })
+      .from(teamMembers)
+      .innerJoin(teams, eq(teamMembers.teamId, teams.id))
+      .where(eq(teamMembers.userId, userId));
+    return row?.team;
+  }
+
+  private generateInviteCode(): string {
+    return randomBytes(8).toString('hex');
+  }
+
+  async createTeam(name: string, captainId: string): Promise<Team> {
+    const inviteCode = this.generateInviteCode();
+
+    await this.db
+      .insert(teams)
+      .values({ name, inviteCode, captainId });
+
+    const [team] = await this.db.select().from(teams).where(eq(teams.inviteCode, inviteCode));
+    await this.addTeamMember(team.id, captainId);
+    return team;
+  }
+
+  async addTeamMember(teamId: string, userId: string): Promise<TeamMember> {
+    await this.db
+      .insert(teamMembers)
+      .values({ teamId, userId });
+
+    const [member] = await this.db.select().from(teamMembers).where(eq(teamMembers.userId, userId));
+    return member;
+  }
+
+  // Locks the team row so concurrent joins can't take the team past maxSize; undefined when it is full
+  async joinTeam(teamId: string, userId: string, maxSize: number): Promise<TeamMember | undefined> {
+    return await this.db.transaction(async (tx) => {
+      await tx.select({ id: teams.id }).from(teams).where(eq(teams.id, teamId)).for("update");
+      const [{ memberCount }] = await tx.select({ memberCount: count() }).from(teamMembers).where(eq(teamMembers.teamId, teamId));
+      if (Number(memberCount) >= maxSize) return undefined;
+
+      await tx.insert(teamMembers).values({ teamId, userId });
+      const [member] = await tx.select().from(teamMembers).where(eq(teamMembers.userId, userId));
+      return member;
+    });
+  }
+
+  // Captaincy passes to the longest-standing member; the last one out disbands the team
+  async removeTeamMember(teamId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(teamMembers)
+      .where(and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)));
+
+    const team = await this.getTeam(teamId);
+    if (!team || team.captainId !== userId) return;
+
+    const [successor] = await this.db
+      .select()
+      .from(teamMembers)
+      .where(eq(teamMembers.teamId, teamId))
+      .orderBy(asc(teamMembers.joinedAt))
+      .limit(1);
+
+    if (successor) {
+      await this.db.update(teams).set({ captainId: successor.userId }).where(eq(teams.id, teamId));
+    } else {
+      await this.db.delete(teams).where(eq(teams.id, teamId));
+    }
+  }
+
+  async regenerateInviteCode(teamId: string): Promise<Team> {
+    await this.db
+      .update(teams)
+      .set({ inviteCode: this.generateInviteCode() })
+      .where(eq(teams.id, teamId));
+
+    const [team] = await this.db.select().from(teams).where(eq(teams.id, teamId));
+    return team;
+  }
+
+  async getTeamMembers(teamId: string, asOf?: Date): Promise<(TeamMember & { user: User; contribution: number })[]> {
+    const contributions = this.db
+      .select({
+        userId: scoreEvents.userId,
+        contribution: sql<number>`coalesce(sum(${scoreEvents.points}), 0)`.as("contribution"),
+      })
+      .from(scoreEvents)
+      .where(asOf ? and(eq(scoreEvents.teamId, teamId), lte(scoreEvents.createdAt, asOf)) : eq(scoreEvents.teamId, teamId))
+      .groupBy(scoreEvents.userId)
+      .as("contributions");
+
+    const result = await this.db
+      .select({
+        member: teamMembers,
+        user: users,
+        contribution: contributions.contribution,
+      })
+      .from(teamMembers)
+      .innerJoin(users, eq(teamMembers.userId, users.id))
+      .leftJoin(contributions, eq(teamMembers.userId, contributions.userId))
+      .where(eq(teamMembers.teamId, teamId))
+      .orderBy(asc(teamMembers.joinedAt));
+
+    return result.map(row => ({
+      ...row.member,
+      user: row.user,
+      contribution: Number(row.contribution ?? 0),
+    }));
+  }
+
+  // Everything the team's players earned while on it, including players who have since left
+  async getTeamScore(teamId: string, asOf?: Date): Promise<number> {
+    const scores = this.teamScores(undefined, asOf);
+    const [team] = await this.db.select({ score: scores.score }).from(scores).where(eq(scores.teamId, teamId));
+    return Number(team?.score ?? 0);
+  }
+
+  // Solves and hint unlocks count for the whole team the player belongs to
+  private async playerOrTeam(table: typeof solves | typeof hintUsage, userId: string) {
+    const team = await this.getUserTeam(userId);
+    return team
+      ? or(eq(table.userId, userId), eq(table.teamId, team.id))
+      : eq(table.userId, userId);
+  }
+
+  async getEvents(): Promise<(Event & { challengeCount: number; registrationCount: number })[]> {
+    const challengeCounts = this.db
+      .select({
+        eventId: challenges.eventId,
+        challengeCount: count(challenges.id).as("challenge_count"),
+      })
+      .from(challenges)
+      .groupBy(challenges.eventId)
+      .as("challenge_counts");
+    const registrationCounts = this.db
+      .select({
+        eventId: eventRegistrations.eventId,
+        registrationCount: count(eventRegistrations.id).as("registration_count"),
+      })
+      .from(eventRegistrations)
+      .groupBy(eventRegistrations.eventId)
+      .as("registration_counts");
+
+    const result = await this.db
+      .select({
+        event: events,
+        challengeCount: challengeCounts.challengeCount,
+        registrationCount: registrationCounts.registrationCount,
+      })
+      .from(events)
+      .leftJoin(challengeCounts, eq(events.id, challengeCounts.eventId))
+      .leftJoin(registrationCounts, eq(events.id, registrationCounts.eventId))
+      .orderBy(desc(events.startsAt));
+
+    return result.map(row => ({
+      ...row.event,
+      challengeCount: Number(row.challengeCount ?? 0),
+      registrationCount: Number(row.registrationCount ?? 0),
+    }));
+  }
+
+  async getEvent(id: string): Promise<Event | undefined> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event || undefined;
+  }
+
+  async createEvent(insertEvent: InsertEvent): Promise<Event> {
+    // Events have no natural unique key, so generate the id here to read the row back
+    const id = randomUUID();
+
+    await this.db
+      .insert(events)
+      .values({ ...insertEvent, id });
+
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event;
+  }
+
+  async updateEvent(id: string, eventUpdate: Partial<InsertEvent>): Promise<Event> {
+    await this.db
+      .update(events)
+      .set(eventUpdate)
+      .where(eq(events.id, id));
+
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event;
+  }
+
+  async registerForEvent(eventId: string, userId: string): Promise<void> {
+    if (await this.isRegisteredForEvent(eventId, userId)) return;
+
+    await this.db
+      .insert(eventRegistrations)
+      .values({ eventId, userId });
+  }
+
+  async isRegisteredForEvent(eventId: string, userId: string): Promise<boolean> {
+    const [registration] = await this.db
+      .select()
+      .from(eventRegistrations)
+      .where(and(eq(eventRegistrations.eventId, eventId), eq(eventRegistrations.userId, userId)));
+
+    return !!registration;
+  }
+
+  // Publishes unpublished challenges of started events, including ones added after the start
+  // or whose event was moved later. Each challenge is published automatically only once;
+  // before eventPublishedAt existed, challengesPublishedAt marked the event's first run.
+  async publishDueEventChallenges(now: Date): Promise<number> {
+    const due = await this.db
+      .select({ id: challenges.id, eventId: events.id })
+      .from(challenges)
+      .innerJoin(events, eq(challenges.eventId, events.id))
+      .where(and(
+        lte(events.startsAt, now),
+        eq(challenges.published, false),
+        isNull(challenges.eventPublishedAt),
+        or(isNull(events.challengesPublishedAt), gt(challenges.createdAt, events.challengesPublishedAt)),
+      ));
+    if (due.length === 0) return 0;
+
+    await this.db
+      .update(challenges)
+      .set({ published: true, eventPublishedAt: now, updatedAt: now })
+      .where(inArray(challenges.id, due.map(challenge => challenge.id)));
+    await this.db
+      .update(events)
+      .set({ challengesPublishedAt: now })
+      .where(and(inArray(events.id, Array.from(new Set(due.map(challenge => challenge.eventId)))), isNull(events.challengesPublishedAt)));
+
+    return due.length;
   }
 
   async getChallenges(filters?: {
@@ -103,8 +743,9 @@ export class DatabaseStorage implements IStorage {
     difficulty?: string;
     published?: boolean;
     search?: string;
-  }): Promise<(Challenge & { creator: User; solveCount: number })[]> {
-    const baseQuery = db
+    eventId?: string;
+  }, viewerId?: string): Promise<(Challenge & { creator: User; solveCount: number; hasSolved: boolean; firstBlood: FirstBlood | null })[]> {
+    const baseQuery = this.db
       .select({
         challenge: challenges,
         creator: users,
@@ -128,6 +769,10 @@ export class DatabaseStorage implements IStorage {
     if (filters?.difficulty) {
       conditions.push(eq(challenges.difficulty, filters.difficulty));
     }
+
+    if (filters?.eventId) {
+      conditions.push(eq(challenges.eventId, filters.eventId));
+    }
     
     if (filters?.search) {
       conditions.push(
@@ -138,21 +783,68 @@ export class DatabaseStorage implements IStorage {
     const result = conditions.length > 0 
       ? await baseQuery.where(and(...conditions)).orderBy(desc(challenges.createdAt))
       : await baseQuery.orderBy(desc(challenges.createdAt));
+
+    const firstBloods = await this.getFirstBloods();
+    const solvedIds = new Set(
+      viewerId
+        ? (await this.db.select({ challengeId: solves.challengeId }).from(solves).where(await this.playerOrTeam(solves, viewerId))).map(solve => solve.challengeId)
+        : []
+    );
     
     return result.map(row => ({
       ...row.challenge,
       creator: row.creator!,
       solveCount: Number(row.solveCount),
+      hasSolved: solvedIds.has(row.challenge.id),
+      firstBlood: firstBloods.get(row.challenge.id) ?? null,
     }));
   }
 
+  // Earliest solve per challenge, keyed by challenge id; solves within the same second are ordered by id
+  private async getFirstBloods(challengeId?: string): Promise<Map<string, FirstBlood>> {
+    const firstSolves = this.db
+      .select({
+        challengeId: solves.challengeId,
+        solvedAt: sql<Date>`min(${solves.solvedAt})`.as("first_solved_at"),
+      })
+      .from(solves)
+      .where(challengeId ? eq(solves.challengeId, challengeId) : undefined)
+      .groupBy(solves.challengeId)
+      .as("first_solves");
+
+    const rows = await this.db
+      .select({
+        challengeId: solves.challengeId,
+        userId: solves.userId,
+        username: users.username,
+        solvedAt: solves.solvedAt,
+      })
+      .from(solves)
+      .innerJoin(firstSolves, and(eq(solves.challengeId, firstSolves.challengeId), eq(solves.solvedAt, firstSolves.solvedAt)))
+      .innerJoin(users, eq(solves.userId, users.id))
+      .orderBy(asc(solves.id));
+
+    const firstBloods = new Map<string, FirstBlood>();
+    for (const { challengeId, ...firstBlood } of rows) {
+      if (!firstBloods.has(challengeId)) {
+        firstBloods.set(challengeId, firstBlood);
+      }
+    }
+    return firstBloods;
+  }
+
   async getChallenge(id: string): Promise<Challenge | undefined> {
-    const [challenge] = await db.select().from(challenges).where(eq(challenges.id, id));
+    const [challenge] = await this.db.select().from(challenges).where(eq(challenges.id, id));
     return challenge || undefined;
   }
 
   async getChallengeBySlug(slug: string): Promise<Challenge | undefined> {
-    const [challenge] = await db.select().from(challenges).where(eq(challenges.slug, slug));
+    const [challenge] = await this.db.select().from(challenges).where(eq(challenges.slug, slug));
+    return challenge || undefined;
+  }
+
+  async getChallengeByExternalId(externalId: string): Promise<Challenge | undefined> {
+    const [challenge] = await this.db.select().from(challenges).where(eq(challenges.externalId, externalId));
     return challenge || undefined;
   }
 
@@ -165,45 +857,254 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createChallenge(insertChallenge: InsertChallenge): Promise<Challenge> {
-    const { flag, ...challengeData } = insertChallenge;
-    
-    // Hash the flag
-    const salt = randomBytes(16).toString('hex');
-    const flagHash = await hashPassword(flag);
+    const { flags, ...challengeData } = insertChallenge;
     
     const slug = this.generateSlug(challengeData.title);
 
     const payload = {
       ...challengeData,
       slug,
-      flagHash,
-      flagSalt: salt,
     };
 
-    await db
+    await this.db
       .insert(challenges)
       .values(payload);
     
-    const [challenge] = await db.select().from(challenges).where(eq(challenges.slug, slug));
+    const [challenge] = await this.db.select().from(challenges).where(eq(challenges.slug, slug));
+    await this.setChallengeFlags(challenge.id, flags);
     return challenge;
   }
 
   async updateChallenge(id: string, challengeUpdate: Partial<Challenge>): Promise<Challenge> {
-    await db
+    await this.db
       .update(challenges)
       .set({ ...challengeUpdate, updatedAt: new Date() })
       .where(eq(challenges.id, id));
     
-    const [challenge] = await db.select().from(challenges).where(eq(challenges.id, id));
+    const [challenge] = await this.db.select().from(challenges).where(eq(challenges.id, id));
     return challenge;
   }
 
+  // All or nothing: a challenge that can't be deleted keeps its flags and threads
   async deleteChallenge(id: string): Promise<void> {
-    await db.delete(challenges).where(eq(challenges.id, id));
+    await this.db.transaction(async (tx) => {
+      const tickets = tx.select({ id: clarificationTickets.id }).from(clarificationTickets).where(eq(clarificationTickets.challengeId, id));
+      await tx.delete(clarifications).where(eq(clarifications.challengeId, id));
+      await tx.delete(ticketMessages).where(inArray(ticketMessages.ticketId, tickets));
+      await tx.delete(clarificationTickets).where(eq(clarificationTickets.challengeId, id));
+      await tx.delete(challengeFlags).where(eq(challengeFlags.challengeId, id));
+      await tx.delete(flagSharingIncidents).where(eq(flagSharingIncidents.challengeId, id));
+      await tx.delete(issuedFlags).where(eq(issuedFlags.challengeId, id));
+      await tx.delete(artifactDownloads).where(eq(artifactDownloads.challengeId, id));
+      await tx.delete(challenges).where(eq(challenges.id, id));
+    });
+  }
+
+  async hasChallengeActivity(id: string): Promise<boolean> {
+    const [submission] = await this.db.select({ id: submissions.id }).from(submissions).where(eq(submissions.challengeId, id)).limit(1);
+    const [solve] = await this.db.select({ id: solves.id }).from(solves).where(eq(solves.challengeId, id)).limit(1);
+    const [hint] = await this.db.select({ id: hintUsage.id }).from(hintUsage).where(eq(hintUsage.challengeId, id)).limit(1);
+    return !!(submission || solve || hint);
+  }
+
+  async getIssuedFlag(challengeId: string, userId: string): Promise<IssuedFlag | undefined> {
+    const [issued] = await this.db
+      .select()
+      .from(issuedFlags)
+      .where(and(eq(issuedFlags.challengeId, challengeId), eq(issuedFlags.userId, userId)));
+    return issued || undefined;
+  }
+
+  // The first record wins when a player's flag is issued by two requests at once
+  async recordIssuedFlag(issued: { challengeId: string; userId: string; teamId: string | null; flagLookup: string }): Promise<IssuedFlag> {
+    await this.db
+      .insert(issuedFlags)
+      .values(issued)
+      .onDuplicateKeyUpdate({ set: { challengeId: sql`${issuedFlags.challengeId}` } });
+    return (await this.getIssuedFlag(issued.challengeId, issued.userId))!;
+  }
+
+  async findIssuedFlags(challengeId: string, flagLookup: string): Promise<IssuedFlag[]> {
+    return await this.db
+      .select()
+      .from(issuedFlags)
+      .where(and(eq(issuedFlags.challengeId, challengeId), eq(issuedFlags.flagLookup, flagLookup)));
+  }
+
+  async setUserBan(userId: string, reason: string | null): Promise<User> {
+    await this.db
+      .update(users)
+      .set(reason === null ? { bannedAt: null, banReason: null } : { bannedAt: new Date(), banReason: reason })
+      .where(eq(users.id, userId));
+    const [user] = await this.db.select().from(users).where(eq(users.id, userId));
+    return user;
+  }
+
+  async recordArtifactDownload(userId: string, challengeId: string, artifactIndex: number, teamId?: string | null): Promise<void> {
+    await this.db.insert(artifactDownloads).values({ userId, challengeId, artifactIndex, teamId: teamId ?? null });
+  }
+
+  // Every account that submitted from an IP address also used by another account
+  async getSharedIpAccounts(): Promise<Array<{ ipAddress: string; userId: string; username: string; submissionCount: number }>> {
+    const sharedIps = this.db
+      .select({ ipAddress: submissions.ipAddress })
+      .from(submissions)
+      .where(sql`${submissions.ipAddress} is not null`)
+      .groupBy(submissions.ipAddress)
+      .having(sql`count(distinct ${submissions.userId}) > 1`);
+
+    const result = await this.db
+      .select({
+        ipAddress: submissions.ipAddress,
+        userId: users.id,
+        username: users.username,
+        submissionCount: count(submissions.id),
+      })
+      .from(submissions)
+      .innerJoin(users, eq(submissions.userId, users.id))
+      .where(inArray(submissions.ipAddress, sharedIps))
+      .groupBy(submissions.ipAddress, users.id, users.username)
+      .orderBy(asc(submissions.ipAddress));
+
+    return result.map(row => ({
+      ...row,
+      ipAddress: row.ipAddress!,
+      submissionCount: Number(row.submissionCount),
+    }));
+  }
+
+  async getWrongSubmissions(): Promise<Array<Submission & { username: string; challengeTitle: string }>> {
+    const result = await this.db
+      .select({
+        submission: submissions,
+        username: users.username,
+        challengeTitle: challenges.title,
+      })
+      .from(submissions)
+      .innerJoin(users, eq(submissions.userId, users.id))
+      .innerJoin(challenges, eq(submissions.challengeId, challenges.id))
+      .where(eq(submissions.isCorrect, false))
+      .orderBy(asc(submissions.challengeId), asc(submissions.flagAttempt), asc(submissions.submittedAt));
+
+    return result.map(row => ({ ...row.submission, username: row.username, challengeTitle: row.challengeTitle }));
+  }
+
+  async getSolveTimeline(): Promise<Array<{ userId: string; username: string; challengeId: string; challengeTitle: string; solvedAt: Date | null }>> {
+    return await this.db
+      .select({
+        userId: solves.userId,
+        username: users.username,
+        challengeId: solves.challengeId,
+        challengeTitle: challenges.title,
+        solvedAt: solves.solvedAt,
+      })
+      .from(solves)
+      .innerJoin(users, eq(solves.userId, users.id))
+      .innerJoin(challenges, eq(solves.challengeId, challenges.id))
+      .orderBy(asc(solves.userId), asc(solves.solvedAt));
+  }
+
+  // Solves of challenges with files that neither the solver nor their team ever downloaded
+  async getSolvesWithoutDownload(): Promise<Array<{ userId: string; username: string; challengeId: string; challengeTitle: string; solvedAt: Date | null }>> {
+    return await this.db
+      .select({
+        userId: solves.userId,
+        username: users.username,
+        challengeId: solves.challengeId,
+        challengeTitle: challenges.title,
+        solvedAt: solves.solvedAt,
+      })
+      .from(solves)
+      .innerJoin(users, eq(solves.userId, users.id))
+      .innerJoin(challenges, eq(solves.challengeId, challenges.id))
+      .where(and(
+        sql`json_length(${challenges.artifacts}) > 0`,
+        sql`not exists (
+          select 1 from ${artifactDownloads}
+          where ${artifactDownloads.challengeId} = ${solves.challengeId}
+            and (${artifactDownloads.userId} = ${solves.userId}
+              or (${solves.teamId} is not null and ${artifactDownloads.teamId} = ${solves.teamId}))
+        )`
+      ))
+      .orderBy(desc(solves.solvedAt));
+  }
+
+  async getUserSubmissions(userId: string): Promise<Array<Submission & { challengeTitle: string }>> {
+    const result = await this.db
+      .select({
+        submission: submissions,
+        challengeTitle: challenges.title,
+      })
+      .from(submissions)
+      .innerJoin(challenges, eq(submissions.challengeId, challenges.id))
+      .where(eq(submissions.userId, userId))
+      .orderBy(desc(submissions.submittedAt));
+
+    return result.map(row => ({ ...row.submission, challengeTitle: row.challengeTitle }));
+  }
+
+  async createFlagSharingIncident(incident: Omit<FlagSharingIncident, "id" | "createdAt">): Promise<void> {
+    await this.db.insert(flagSharingIncidents).values(incident);
+  }
+
+  async getFlagSharingIncidents(): Promise<Array<FlagSharingIncident & { challengeTitle: string; username: string; ownerUsername: string | null; ownerTeamName: string | null; flagAttempt: string | null }>> {
+    const owners = alias(users, "owners");
+    const result = await this.db
+      .select({
+        incident: flagSharingIncidents,
+        challengeTitle: challenges.title,
+        username: users.username,
+        ownerUsername: owners.username,
+        ownerTeamName: teams.name,
+        flagAttempt: submissions.flagAttempt,
+      })
+      .from(flagSharingIncidents)
+      .innerJoin(challenges, eq(flagSharingIncidents.challengeId, challenges.id))
+      .innerJoin(users, eq(flagSharingIncidents.userId, users.id))
+      .leftJoin(owners, eq(flagSharingIncidents.ownerUserId, owners.id))
+      .leftJoin(teams, eq(flagSharingIncidents.ownerTeamId, teams.id))
+      .leftJoin(submissions, eq(flagSharingIncidents.submissionId, submissions.id))
+      .orderBy(desc(flagSharingIncidents.createdAt));
+
+    return result.map(row => ({
+      ...row.incident,
+      challengeTitle: row.challengeTitle,
+      username: row.username,
+      ownerUsername: row.ownerUsername,
+      ownerTeamName: row.ownerTeamName,
+      flagAttempt: row.flagAttempt,
+    }));
+  }
+
+  async getChallengeFlags(challengeId: string): Promise<ChallengeFlag[]> {
+    return await this.db
+      .select()
+      .from(challengeFlags)
+      .where(eq(challengeFlags.challengeId, challengeId))
+      .orderBy(asc(challengeFlags.createdAt));
+  }
+
+  // Replaces every accepted flag of the challenge, including a legacy single flag hash
+  // Dynamic flags keep their secret while their prefix stays; a new secret voids the issued flags
+  async setChallengeFlags(challengeId: string, flags: FlagDefinition[]): Promise<void> {
+    const current = await this.getChallengeFlags(challengeId);
+    const prepared = await prepareFlags(flags, current);
+    const keptSecrets = prepared.filter(flag => flag.type === "dynamic").every(flag => current.some(existing => existing.value === flag.value));
+    if (!keptSecrets) {
+      await this.db.delete(issuedFlags).where(eq(issuedFlags.challengeId, challengeId));
+    }
+    await this.db.delete(challengeFlags).where(eq(challengeFlags.challengeId, challengeId));
+    if (prepared.length > 0) {
+      await this.db.insert(challengeFlags).values(prepared.map(flag => ({ ...flag, challengeId })));
+    }
+    await this.db
+      .update(challenges)
+      .set({ flagHash: null, flagSalt: null, updatedAt: new Date() })
+      .where(eq(challenges.id, challengeId));
   }
 
   async getUserChallenges(userId: string): Promise<(Challenge & { solveCount: number })[]> {
-    const result = await db
+    const result = await this.db
       .select({
         challenge: challenges,
         solveCount: count(solves.id),
@@ -220,19 +1121,57 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Changes a challenge's value and moves every existing solver's score by the difference.
+  // exceptUserId is a solver whose solve is recorded but not yet scored.
+  async setChallengeValue(id: string, points: number, exceptUserId?: string): Promise<void> {
+    const challenge = await this.getChallenge(id);
+    if (!challenge || challenge.points === points) return;
+
+    const delta = points - challenge.points;
+    const solvers = await this.db
+      .select({ userId: solves.userId, teamId: solves.teamId })
+      .from(solves)
+      .where(exceptUserId ? and(eq(solves.challengeId, id), ne(solves.userId, exceptUserId)) : eq(solves.challengeId, id));
+    const solverIds = solvers.map(row => row.userId);
+
+    if (solverIds.length > 0) {
+      await this.db
+        .insert(scoreEvents)
+        .values(solvers.map(({ userId, teamId }) => ({
+          userId,
+          teamId,
+          eventId: challenge.eventId,
+          challengeId: id,
+          type: "decay" as const,
+          points: delta,
+          reason: `Challenge value changed from ${challenge.points} to ${points}`,
+        })));
+
+      await this.db
+        .update(users)
+        .set({ score: sql`${users.score} + ${delta}` })
+        .where(inArray(users.id, solverIds));
+    }
+
+    await this.db
+      .update(challenges)
+      .set({ points, updatedAt: new Date() })
+      .where(eq(challenges.id, id));
+  }
+
   async createSubmission(submission: InsertSubmission): Promise<Submission> {
-    await db
+    await this.db
       .insert(submissions)
       .values(submission);
     
-    const [newSubmission] = await db.select().from(submissions).where(eq(submissions.userId, submission.userId)).orderBy(desc(submissions.submittedAt));
+    const [newSubmission] = await this.db.select().from(submissions).where(eq(submissions.userId, submission.userId)).orderBy(desc(submissions.submittedAt));
     return newSubmission;
   }
 
   async getSubmissionCount(userId: string, challengeId: string, timeWindow: number): Promise<number> {
     const timeThreshold = new Date(Date.now() - timeWindow);
     
-    const [result] = await db
+    const [result] = await this.db
       .select({ count: count() })
       .from(submissions)
       .where(
@@ -246,17 +1185,47 @@ export class DatabaseStorage implements IStorage {
     return Number(result.count);
   }
 
-  async createSolve(userId: string, challengeId: string): Promise<Solve> {
-    await db
-      .insert(solves)
-      .values({ userId, challengeId });
-    
-    const [solve] = await db.select().from(solves).where(and(eq(solves.userId, userId), eq(solves.challengeId, challengeId))).orderBy(desc(solves.solvedAt));
-    return solve;
+  // Locks the challenge row so concurrent correct flags are recorded one at a time:
+  // only one of them can take first blood, or the solve at all in first-blood-lock mode
+  // The solve, the decay for earlier solvers and the solver's own points are recorded
+  // while the challenge row is locked, so concurrent solves decay the value one at a time
+  async createSolve(userId: string, challengeId: string, teamId: string | null, solveMode: SolveMode): Promise<SolveClaim> {
+    return await this.db.transaction(async (tx) => new DatabaseStorage(tx).claimSolve(userId, challengeId, teamId, solveMode));
+  }
+
+  private async claimSolve(userId: string, challengeId: string, teamId: string | null, solveMode: SolveMode): Promise<SolveClaim> {
+    const tx = this.db;
+    const [challenge] = await tx.select().from(challenges).where(eq(challenges.id, challengeId)).for("update");
+
+    const [earlier] = await tx.select({ id: solves.id }).from(solves).where(eq(solves.challengeId, challengeId)).limit(1);
+    if (earlier && solveMode === "first-blood-lock") return { status: "locked" };
+
+    const solver = teamId ? or(eq(solves.userId, userId), eq(solves.teamId, teamId)) : eq(solves.userId, userId);
+    const [duplicate] = await tx.select({ id: solves.id }).from(solves).where(and(eq(solves.challengeId, challengeId), solver)).limit(1);
+    if (duplicate) return { status: "duplicate" };
+
+    const id = randomUUID();
+    await tx.insert(solves).values({ id, userId, challengeId, teamId });
+    const [solve] = await tx.select().from(solves).where(eq(solves.id, id));
+    const [{ solveCount }] = await tx.select({ solveCount: count() }).from(solves).where(eq(solves.challengeId, challengeId));
+
+    // Decay the challenge value for everyone who already solved it
+    const value = computeChallengeValue(getScoringParams(challenge), Number(solveCount));
+    await this.setChallengeValue(challengeId, value, userId);
+
+    const firstBlood = !earlier;
+    let points = value;
+    await this.addScoreEvent({ userId, teamId, eventId: challenge.eventId, challengeId, type: "solve", points: value });
+    if (firstBlood && solveMode === "first-blood-bonus") {
+      const bonus = getFirstBloodBonus(value);
+      await this.addScoreEvent({ userId, teamId, eventId: challenge.eventId, challengeId, type: "first-blood-bonus", points: bonus });
+      points += bonus;
+    }
+    return { status: "created", solve, firstBlood, solveCount: Number(solveCount), value, points };
   }
 
   async getUserSolves(userId: string): Promise<(Solve & { challenge: Challenge })[]> {
-    const result = await db
+    const result = await this.db
       .select({
         solve: solves,
         challenge: challenges,
@@ -273,52 +1242,666 @@ export class DatabaseStorage implements IStorage {
   }
 
   async hasSolved(userId: string, challengeId: string): Promise<boolean> {
-    const [solve] = await db
+    const [solve] = await this.db
       .select()
       .from(solves)
-      .where(and(eq(solves.userId, userId), eq(solves.challengeId, challengeId)));
+      .where(and(await this.playerOrTeam(solves, userId), eq(solves.challengeId, challengeId)));
     
     return !!solve;
   }
 
-  async getLeaderboard(limit = 50): Promise<Array<User & { rank: number; solveCount: number }>> {
-    const result = await db
+  async getSolveCount(challengeId: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(solves)
+      .where(eq(solves.challengeId, challengeId));
+
+    return Number(result.count);
+  }
+
+  async getSolveCountsAsOf(challengeIds: string[], asOf: Date): Promise<Map<string, number>> {
+    if (challengeIds.length === 0) return new Map();
+    const rows = await this.db
+      .select({ challengeId: solves.challengeId, solveCount: count() })
+      .from(solves)
+      .where(and(inArray(solves.challengeId, challengeIds), lte(solves.solvedAt, asOf)))
+      .groupBy(solves.challengeId);
+
+    return new Map(rows.map(row => [row.challengeId, Number(row.solveCount)]));
+  }
+
+  async getFirstBlood(challengeId: string): Promise<FirstBlood | undefined> {
+    const firstBloods = await this.getFirstBloods(challengeId);
+    return firstBloods.get(challengeId);
+  }
+
+  // Scores come from the ledger rather than the cached users.score column
+  // An event scoreboard only counts that event's challenges and its registered players
+  async getLeaderboard(limit = 50, eventId?: string, asOf?: Date): Promise<Array<User & { rank: number; solveCount: number }>> {
+    const ledger = this.ledgerScores(eventId, asOf);
+    const solveConditions = [];
+    if (eventId) solveConditions.push(eq(challenges.eventId, eventId));
+    if (asOf) solveConditions.push(lte(solves.solvedAt, asOf));
+    const solveCounts = this.db
+      .select({
+        userId: solves.userId,
+        solveCount: count(solves.id).as("solve_count"),
+      })
+      .from(solves)
+      .innerJoin(challenges, eq(solves.challengeId, challenges.id))
+      .where(solveConditions.length > 0 ? and(...solveConditions) : undefined)
+      .groupBy(solves.userId)
+      .as("solve_counts");
+
+    const result = await this.db
       .select({
         user: users,
-        solveCount: count(solves.id),
+        score: ledger.score,
+        solveCount: solveCounts.solveCount,
       })
       .from(users)
-      .leftJoin(solves, eq(users.id, solves.userId))
-      .where(eq(users.isAdmin, false))
-      .groupBy(users.id)
-      .orderBy(desc(users.score), desc(count(solves.id)))
+      .leftJoin(ledger, eq(users.id, ledger.userId))
+      .leftJoin(solveCounts, eq(users.id, solveCounts.userId))
+      .where(inArray(users.id, this.scoringPlayers(eventId)))
+      .orderBy(desc(sql`coalesce(${ledger.score}, 0)`), desc(sql`coalesce(${solveCounts.solveCount}, 0)`))
       .limit(limit);
 
     return result.map((row, index) => ({
       ...row.user,
+      score: Number(row.score ?? 0),
       rank: index + 1,
-      solveCount: Number(row.solveCount),
+      solveCount: Number(row.solveCount ?? 0),
     }));
   }
 
-  async getUserRank(userId: string): Promise<number> {
+  async getUserScore(userId: string, asOf?: Date): Promise<number> {
+    const ledger = this.ledgerScores(undefined, asOf);
+    const [own] = await this.db
+      .select({ score: ledger.score })
+      .from(ledger)
+      .where(eq(ledger.userId, userId));
+
+    return Number(own?.score ?? 0);
+  }
+
+  async getUserRank(userId: string, asOf?: Date): Promise<number> {
     const user = await this.getUser(userId);
     if (!user) return 0;
 
-    const [result] = await db
+    const ledger = this.ledgerScores(undefined, asOf);
+    const score = await this.getUserScore(userId, asOf);
+
+    const [result] = await this.db
       .select({ rank: count() })
       .from(users)
-      .where(sql`${users.score} > ${user.score}`);
+      .leftJoin(ledger, eq(users.id, ledger.userId))
+      .where(and(inArray(users.id, this.scoringPlayers()), sql`coalesce(${ledger.score}, 0) > ${score}`));
 
     return Number(result.rank) + 1;
   }
 
+  async getTeamLeaderboard(limit = 50, eventId?: string, asOf?: Date): Promise<Array<Team & { rank: number; score: number; solveCount: number; memberCount: number }>> {
+    const teamScores = this.teamScores(eventId, asOf);
+    const solveConditions = [inArray(solves.userId, this.scoringPlayers(eventId))];
+    if (eventId) solveConditions.push(eq(challenges.eventId, eventId));
+    if (asOf) solveConditions.push(lte(solves.solvedAt, asOf));
+    const teamSolves = this.db
+      .select({
+        teamId: solves.teamId,
+        solveCount: sql<number>`count(distinct ${solves.challengeId})`.as("team_solve_count"),
+      })
+      .from(solves)
+      .innerJoin(challenges, eq(solves.challengeId, challenges.id))
+      .where(and(...solveConditions))
+      .groupBy(solves.teamId)
+      .as("team_solves");
+    const memberCounts = this.db
+      .select({
+        teamId: teamMembers.teamId,
+        memberCount: count(teamMembers.id).as("member_count"),
+      })
+      .from(teamMembers)
+      .groupBy(teamMembers.teamId)
+      .as("member_counts");
+
+    const result = await this.db
+      .select({
+        team: teams,
+        score: teamScores.score,
+        solveCount: teamSolves.solveCount,
+        memberCount: memberCounts.memberCount,
+      })
+      .from(teams)
+      .leftJoin(teamScores, eq(teams.id, teamScores.teamId))
+      .leftJoin(teamSolves, eq(teams.id, teamSolves.teamId))
+      .leftJoin(memberCounts, eq(teams.id, memberCounts.teamId))
+      // Event scoreboards list only teams that scored in the event
+      .where(eventId ? sql`${teamScores.teamId} is not null` : undefined)
+      .orderBy(desc(sql`coalesce(${teamScores.score}, 0)`), desc(sql`coalesce(${teamSolves.solveCount}, 0)`))
+      .limit(limit);
+
+    return result.map((row, index) => ({
+      ...row.team,
+      rank: index + 1,
+      score: Number(row.score ?? 0),
+      solveCount: Number(row.solveCount ?? 0),
+      memberCount: Number(row.memberCount ?? 0),
+    }));
+  }
+
+  async getScoreboardFreeze(eventId: string | null): Promise<ScoreboardFreeze | undefined> {
+    const [freeze] = await this.db
+      .select()
+      .from(scoreboardFreezes)
+      .where(eventId ? eq(scoreboardFreezes.eventId, eventId) : isNull(scoreboardFreezes.eventId))
+      .orderBy(desc(scoreboardFreezes.createdAt))
+      .limit(1);
+    return freeze;
+  }
+
+  // Replaces any pending freeze for the scope; an already lifted freeze is kept as history
+  async freezeScoreboard(eventId: string | null, freezesAt: Date, createdById: string): Promise<ScoreboardFreeze> {
+    const current = await this.getScoreboardFreeze(eventId);
+    if (current && !current.unfrozenAt) {
+      await this.db
+        .update(scoreboardFreezes)
+        .set({ freezesAt, createdById })
+        .where(eq(scoreboardFreezes.id, current.id));
+      return { ...current, freezesAt, createdById };
+    }
+
+    const id = randomUUID();
+    await this.db.insert(scoreboardFreezes).values({ id, eventId, freezesAt, createdById });
+    const [freeze] = await this.db.select().from(scoreboardFreezes).where(eq(scoreboardFreezes.id, id));
+    return freeze;
+  }
+
+  async unfreezeScoreboard(eventId: string | null): Promise<ScoreboardFreeze | undefined> {
+    const current = await this.getScoreboardFreeze(eventId);
+    if (!current || current.unfrozenAt) return undefined;
+
+    const unfrozenAt = new Date();
+    await this.db
+      .update(scoreboardFreezes)
+      .set({ unfrozenAt })
+      .where(eq(scoreboardFreezes.id, current.id));
+    return { ...current, unfrozenAt };
+  }
+
+  async getSession(sid: string, now: Date): Promise<Session | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expiresAt, now)));
+    return session || undefined;
+  }
+
+  async saveSession(sid: string, session: Pick<Session, "userId" | "data" | "ipAddress" | "userAgent" | "expiresAt">): Promise<void> {
+    await this.db
+      .insert(sessions)
+      .values({ sid, id: randomUUID(), ...session })
+      .onDuplicateKeyUpdate({ set: { ...session, lastSeenAt: new Date() } });
+  }
+
+  // Only writes when the session was last seen before seenBefore, so busy sessions are not rewritten on every request
+  async touchSession(sid: string, expiresAt: Date, seenBefore: Date): Promise<void> {
+    await this.db
+      .update(sessions)
+      .set({ expiresAt, lastSeenAt: new Date() })
+      .where(and(eq(sessions.sid, sid), lt(sessions.lastSeenAt, seenBefore)));
+  }
+
+  async destroySession(sid: string): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async getSessionById(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session || undefined;
+  }
+
+  async getUserSessions(userId: string, now: Date): Promise<Session[]> {
+    return await this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expiresAt, now)))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<void> {
+    await this.db.delete(sessions).where(lte(sessions.expiresAt, now));
+  }
+
+  async deleteUserSessions(userId: string): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.userId, userId));
+  }
+
+  async createApiToken(token: Pick<ApiToken, "userId" | "label" | "tokenHash" | "tokenPrefix" | "scopes" | "expiresAt">): Promise<ApiToken> {
+    await this.db.insert(apiTokens).values(token);
+    const [created] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, token.tokenHash));
+    return created;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async getUserApiTokens(userId: string): Promise<ApiToken[]> {
+    return await this.db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async deleteApiToken(id: string, userId: string): Promise<boolean> {
+    const [result] = await this.db
+      .delete(apiTokens)
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)));
+    return result.affectedRows > 0;
+  }
+
+  // Like touchSession, only writes when the token was last used before seenBefore
+  async touchApiToken(id: string, seenBefore: Date): Promise<void> {
+    await this.db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), or(isNull(apiTokens.lastUsedAt), lt(apiTokens.lastUsedAt, seenBefore))));
+  }
+
+  async enqueueMail(mail: Pick<QueuedMail, "toAddress" | "subject" | "body">): Promise<void> {
+    await this.db.insert(mailQueue).values(mail);
+  }
+
+  async getDueMail(now: Date, limit: number): Promise<QueuedMail[]> {
+    return await this.db
+      .select()
+      .from(mailQueue)
+      .where(and(inArray(mailQueue.status, ["pending", "sending"]), lte(mailQueue.sendAfter, now)))
+      .orderBy(asc(mailQueue.sendAfter))
+      .limit(limit);
+  }
+
+  // Only one sender gets a message: the update matches for the first claim alone. A claim
+  // whose sender died runs out at leaseUntil, and the message is due again.
+  async claimMail(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const [result] = await this.db
+      .update(mailQueue)
+      .set({ status: "sending", sendAfter: leaseUntil })
+      .where(and(eq(mailQueue.id, id), inArray(mailQueue.status, ["pending", "sending"]), lte(mailQueue.sendAfter, now)));
+    return result.affectedRows > 0;
+  }
+
+  async markMailSent(id: string): Promise<void> {
+    await this.db
+      .update(mailQueue)
+      .set({ status: "sent", sentAt: new Date(), attempts: sql`${mailQueue.attempts} + 1` })
+      .where(eq(mailQueue.id, id));
+  }
+
+  // A null retryAt gives up on the message
+  async markMailAttemptFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await this.db
+      .update(mailQueue)
+      .set({
+        status: retryAt ? "pending" : "failed",
+        lastError: error,
+        attempts: sql`${mailQueue.attempts} + 1`,
+        ...(retryAt ? { sendAfter: retryAt } : {}),
+      })
+      .where(eq(mailQueue.id, id));
+  }
+
+  // Counts the hit and reads the counts back in one transaction, so concurrent requests
+  // each see the others' hits; the upsert holds the row lock until commit
+  async hitRateLimit(key: string, at: Date, windowMs: number): Promise<{ current: number; previous: number }> {
+    const windowStart = new Date(Math.floor(at.getTime() / windowMs) * windowMs);
+    const previousStart = new Date(windowStart.getTime() - windowMs);
+
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .insert(rateLimitCounters)
+        .values({ key, windowStart, hits: 1 })
+        .onDuplicateKeyUpdate({ set: { hits: sql`${rateLimitCounters.hits} + 1` } });
+
+      const windows = await tx
+        .select()
+        .from(rateLimitCounters)
+        .where(and(eq(rateLimitCounters.key, key), inArray(rateLimitCounters.windowStart, [windowStart, previousStart])));
+      return {
+        current: windows.find(window => window.windowStart.getTime() === windowStart.getTime())?.hits ?? 0,
+        previous: windows.find(window => window.windowStart.getTime() === previousStart.getTime())?.hits ?? 0,
+      };
+    });
+  }
+
+  async getRateLimitLockout(key: string): Promise<RateLimitLockout | undefined> {
+    const [lockout] = await this.db.select().from(rateLimitLockouts).where(eq(rateLimitLockouts.key, key));
+    return lockout || undefined;
+  }
+
+  async saveRateLimitLockout(lockout: RateLimitLockout): Promise<void> {
+    const { key, ...update } = lockout;
+    await this.db.insert(rateLimitLockouts).values(lockout).onDuplicateKeyUpdate({ set: update });
+  }
+
+  async clearRateLimitLockout(key: string): Promise<void> {
+    await this.db.delete(rateLimitLockouts).where(eq(rateLimitLockouts.key, key));
+  }
+
+  async getActiveRateLimitLockouts(now: Date): Promise<RateLimitLockout[]> {
+    return await this.db
+      .select()
+      .from(rateLimitLockouts)
+      .where(gt(rateLimitLockouts.lockedUntil, now))
+      .orderBy(desc(rateLimitLockouts.lockedUntil));
+  }
+
+  async pruneRateLimits(hitsBefore: Date, strikesBefore: Date): Promise<void> {
+    await this.db.delete(rateLimitCounters).where(lt(rateLimitCounters.windowStart, hitsBefore));
+    await this.db.delete(rateLimitLockouts).where(lt(rateLimitLockouts.lastStrikeAt, strikesBefore));
+  }
+
+  async getExportData() {
+    const [allChallenges, allFlags, allUsers, allTeams, allMembers, allSubmissions, allSolves] = await Promise.all([
+      this.db.select().from(challenges).orderBy(asc(challenges.createdAt)),
+      this.db.select().from(challengeFlags).orderBy(asc(challengeFlags.createdAt)),
+      this.db.select().from(users).orderBy(asc(users.createdAt)),
+      this.db.select().from(teams).orderBy(asc(teams.createdAt)),
+      this.db.select().from(teamMembers),
+      this.db.select().from(submissions).orderBy(asc(submissions.submittedAt)),
+      this.db.select().from(solves).orderBy(asc(solves.solvedAt)),
+    ]);
+    return {
+      challenges: allChallenges,
+      challengeFlags: allFlags,
+      users: allUsers,
+      teams: allTeams,
+      teamMembers: allMembers,
+      submissions: allSubmissions,
+      solves: allSolves,
+    };
+  }
+
+  async getAnnouncements(): Promise<Announcement[]> {
+    return await this.db.select().from(announcements).orderBy(desc(announcements.createdAt));
+  }
+
+  async getAnnouncement(id: string): Promise<Announcement | undefined> {
+    const [announcement] = await this.db.select().from(announcements).where(eq(announcements.id, id));
+    return announcement || undefined;
+  }
+
+  async createAnnouncement(announcement: InsertAnnouncement & { createdById: string }): Promise<Announcement> {
+    const id = randomUUID();
+    await this.db.insert(announcements).values({ ...announcement, id });
+    const [created] = await this.db.select().from(announcements).where(eq(announcements.id, id));
+    return created;
+  }
+
+  // An edited announcement counts as unread again so players see the change
+  async updateAnnouncement(id: string, announcement: InsertAnnouncement): Promise<Announcement> {
+    await this.db
+      .update(announcements)
+      .set({ ...announcement, updatedAt: new Date() })
+      .where(eq(announcements.id, id));
+    await this.db.delete(announcementReads).where(eq(announcementReads.announcementId, id));
+    const [updated] = await this.db.select().from(announcements).where(eq(announcements.id, id));
+    return updated;
+  }
+
+  async deleteAnnouncement(id: string): Promise<void> {
+    await this.db.delete(announcementReads).where(eq(announcementReads.announcementId, id));
+    await this.db.delete(announcements).where(eq(announcements.id, id));
+  }
+
+  // Challenge solvers include the whole team of whoever solved it
+  async getUserAnnouncements(userId: string): Promise<Array<Announcement & { read: boolean }>> {
+    const team = await this.getUserTeam(userId);
+    const solvedChallenges = this.db
+      .select({ challengeId: solves.challengeId })
+      .from(solves)
+      .where(await this.playerOrTeam(solves, userId));
+
+    const audiences = [
+      eq(announcements.audience, "all"),
+      and(eq(announcements.audience, "challenge-solvers"), inArray(announcements.challengeId, solvedChallenges)),
+    ];
+    if (team) audiences.push(and(eq(announcements.audience, "team"), eq(announcements.teamId, team.id)));
+
+    const result = await this.db
+      .select({ announcement: announcements, readAt: announcementReads.readAt })
+      .from(announcements)
+      .leftJoin(announcementReads, and(eq(announcementReads.announcementId, announcements.id), eq(announcementReads.userId, userId)))
+      .where(or(...audiences))
+      .orderBy(desc(announcements.createdAt));
+
+    return result.map(row => ({ ...row.announcement, read: !!row.readAt }));
+  }
+
+  async markAnnouncementsRead(userId: string, announcementIds: string[]): Promise<void> {
+    if (announcementIds.length === 0) return;
+    await this.db
+      .insert(announcementReads)
+      .values(announcementIds.map(announcementId => ({ announcementId, userId })))
+      .onDuplicateKeyUpdate({ set: { readAt: sql`${announcementReads.readAt}` } });
+  }
+
+  async createTicket(challengeId: string, userId: string, question: string): Promise<ClarificationTicket> {
+    const id = randomUUID();
+    await this.db.insert(clarificationTickets).values({ id, challengeId, userId });
+    await this.db.insert(ticketMessages).values({ ticketId: id, authorId: userId, body: question });
+    const [ticket] = await this.db.select().from(clarificationTickets).where(eq(clarificationTickets.id, id));
+    return ticket;
+  }
+
+  async getTicket(id: string): Promise<ClarificationTicket | undefined> {
+    const [ticket] = await this.db.select().from(clarificationTickets).where(eq(clarificationTickets.id, id));
+    return ticket || undefined;
+  }
+
+  // Every ticket on the challenge, or only the ones userId opened, with their messages in order
+  async getTicketThreads(challengeId: string, userId?: string): Promise<TicketThread[]> {
+    const conditions = [eq(clarificationTickets.challengeId, challengeId)];
+    if (userId) conditions.push(eq(clarificationTickets.userId, userId));
+
+    const tickets = await this.db
+      .select({ ticket: clarificationTickets, username: users.username })
+      .from(clarificationTickets)
+      .innerJoin(users, eq(clarificationTickets.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(clarificationTickets.updatedAt));
+    if (tickets.length === 0) return [];
+
+    const messages = await this.db
+      .select({ message: ticketMessages, authorName: users.username })
+      .from(ticketMessages)
+      .innerJoin(users, eq(ticketMessages.authorId, users.id))
+      .where(inArray(ticketMessages.ticketId, tickets.map(row => row.ticket.id)))
+      .orderBy(asc(ticketMessages.createdAt));
+
+    return tickets.map(row => ({
+      ...row.ticket,
+      username: row.username,
+      messages: messages
+        .filter(entry => entry.message.ticketId === row.ticket.id)
+        .map(entry => ({ ...entry.message, authorName: entry.authorName })),
+    }));
+  }
+
+  // Tickets on challenges creatorId made, or on every challenge for a null creatorId (admins)
+  async getStaffTickets(creatorId: string | null, status?: TicketStatus): Promise<Array<ClarificationTicket & { challengeTitle: string; username: string }>> {
+    const conditions = [];
+    if (creatorId) conditions.push(eq(challenges.creatorId, creatorId));
+    if (status) conditions.push(eq(clarificationTickets.status, status));
+
+    const result = await this.db
+      .select({ ticket: clarificationTickets, challengeTitle: challenges.title, username: users.username })
+      .from(clarificationTickets)
+      .innerJoin(challenges, eq(clarificationTickets.challengeId, challenges.id))
+      .innerJoin(users, eq(clarificationTickets.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(clarificationTickets.updatedAt));
+
+    return result.map(row => ({ ...row.ticket, challengeTitle: row.challengeTitle, username: row.username }));
+  }
+
+  async addTicketMessage(ticketId: string, authorId: string, body: string, status: TicketStatus): Promise<TicketMessage> {
+    const id = randomUUID();
+    await this.db.insert(ticketMessages).values({ id, ticketId, authorId, body });
+    await this.setTicketStatus(ticketId, status);
+    const [message] = await this.db.select().from(ticketMessages).where(eq(ticketMessages.id, id));
+    return message;
+  }
+
+  async setTicketStatus(id: string, status: TicketStatus): Promise<void> {
+    await this.db
+      .update(clarificationTickets)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(clarificationTickets.id, id));
+  }
+
+  async getClarifications(challengeId: string): Promise<Clarification[]> {
+    return await this.db
+      .select()
+      .from(clarifications)
+      .where(eq(clarifications.challengeId, challengeId))
+      .orderBy(asc(clarifications.createdAt));
+  }
+
+  async getClarification(id: string): Promise<Clarification | undefined> {
+    const [clarification] = await this.db.select().from(clarifications).where(eq(clarifications.id, id));
+    return clarification || undefined;
+  }
+
+  async createClarification(clarification: InsertClarification & { challengeId: string; ticketId: string | null; createdById: string }): Promise<Clarification> {
+    const id = randomUUID();
+    await this.db.insert(clarifications).values({ ...clarification, id });
+    const [created] = await this.db.select().from(clarifications).where(eq(clarifications.id, id));
+    return created;
+  }
+
+  async deleteClarification(id: string): Promise<void> {
+    await this.db.delete(clarifications).where(eq(clarifications.id, id));
+  }
+
+  async createChallengeReport(report: InsertChallengeReport & { challengeId: string; challengeTitle: string; reporterId: string }): Promise<ChallengeReport> {
+    const id = randomUUID();
+    await this.db.insert(challengeReports).values({ ...report, id });
+    const [created] = await this.db.select().from(challengeReports).where(eq(challengeReports.id, id));
+    return created;
+  }
+
+  async getChallengeReport(id: string): Promise<ChallengeReport | undefined> {
+    const [report] = await this.db.select().from(challengeReports).where(eq(challengeReports.id, id));
+    return report || undefined;
+  }
+
+  // challengePublished and creatorName are null once the challenge has been deleted
+  async getChallengeReports(filters: { open?: boolean; challengeId?: string; reporterId?: string }): Promise<Array<ChallengeReport & { reporterName: string; challengePublished: boolean | null; creatorName: string | null }>> {
+    const conditions = [];
+    if (filters.open !== undefined) conditions.push(filters.open ? isNull(challengeReports.resolvedAt) : sql`${challengeReports.resolvedAt} is not null`);
+    if (filters.challengeId) conditions.push(eq(challengeReports.challengeId, filters.challengeId));
+    if (filters.reporterId) conditions.push(eq(challengeReports.reporterId, filters.reporterId));
+
+    const creators = alias(users, "creators");
+    const result = await this.db
+      .select({
+        report: challengeReports,
+        reporterName: users.username,
+        challengePublished: challenges.published,
+        creatorName: creators.username,
+      })
+      .from(challengeReports)
+      .innerJoin(users, eq(challengeReports.reporterId, users.id))
+      .leftJoin(challenges, eq(challengeReports.challengeId, challenges.id))
+      .leftJoin(creators, eq(challenges.creatorId, creators.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(challengeReports.createdAt));
+
+    return result.map(row => ({
+      ...row.report,
+      reporterName: row.reporterName,
+      challengePublished: row.challengePublished ?? null,
+      creatorName: row.creatorName ?? null,
+    }));
+  }
+
+  // Every resolved report gets its own entry in the moderation log
+  async resolveChallengeReports(reportIds: string[], action: ModerationAction, moderatorId: string, note: string | null): Promise<void> {
+    if (reportIds.length === 0) return;
+    const reports = await this.db.select().from(challengeReports).where(inArray(challengeReports.id, reportIds));
+
+    await this.db
+      .update(challengeReports)
+      .set({ resolution: action, resolvedById: moderatorId, resolvedAt: new Date() })
+      .where(inArray(challengeReports.id, reportIds));
+    await this.db.insert(moderationLog).values(reports.map(report => ({
+      reportId: report.id,
+      challengeId: report.challengeId,
+      challengeTitle: report.challengeTitle,
+      action,
+      note,
+      moderatorId,
+    })));
+  }
+
+  async getModerationLog(limit: number): Promise<Array<ModerationLogEntry & { moderatorName: string }>> {
+    const result = await this.db
+      .select({ entry: moderationLog, moderatorName: users.username })
+      .from(moderationLog)
+      .innerJoin(users, eq(moderationLog.moderatorId, users.id))
+      .orderBy(desc(moderationLog.createdAt))
+      .limit(limit);
+
+    return result.map(row => ({ ...row.entry, moderatorName: row.moderatorName }));
+  }
+
+  async createArtifactUpload(upload: { filename: string; originalName: string; size: number; sha256: string; challengeId: string | null; uploadedById: string; status?: ArtifactStatus }): Promise<ArtifactUpload> {
+    const id = randomUUID();
+    await this.db.insert(artifactUploads).values({ ...upload, id });
+    const [created] = await this.db.select().from(artifactUploads).where(eq(artifactUploads.id, id));
+    return created;
+  }
+
+  async getArtifactUpload(id: string): Promise<ArtifactUpload | undefined> {
+    const [upload] = await this.db.select().from(artifactUploads).where(eq(artifactUploads.id, id));
+    return upload || undefined;
+  }
+
+  async getArtifactUploadByFilename(filename: string): Promise<ArtifactUpload | undefined> {
+    const [upload] = await this.db.select().from(artifactUploads).where(eq(artifactUploads.filename, filename));
+    return upload || undefined;
+  }
+
+  // challengeTitle is null for uploads whose challenge has since been deleted
+  async getArtifactUploads(status?: ArtifactStatus): Promise<Array<ArtifactUpload & { uploaderName: string; challengeTitle: string | null }>> {
+    const result = await this.db
+      .select({ upload: artifactUploads, uploaderName: users.username, challengeTitle: challenges.title })
+      .from(artifactUploads)
+      .innerJoin(users, eq(artifactUploads.uploadedById, users.id))
+      .leftJoin(challenges, eq(artifactUploads.challengeId, challenges.id))
+      .where(status ? eq(artifactUploads.status, status) : undefined)
+      .orderBy(asc(artifactUploads.createdAt));
+
+    return result.map(row => ({ ...row.upload, uploaderName: row.uploaderName, challengeTitle: row.challengeTitle ?? null }));
+  }
+
+  async setArtifactScanResults(id: string, results: ArtifactScanResult[]): Promise<void> {
+    await this.db.update(artifactUploads).set({ scanResults: results, scannedAt: new Date() }).where(eq(artifactUploads.id, id));
+  }
+
+  async reviewArtifactUpload(id: string, status: ArtifactStatus, reviewerId: string): Promise<void> {
+    await this.db.update(artifactUploads).set({ status, reviewedById: reviewerId, reviewedAt: new Date() }).where(eq(artifactUploads.id, id));
+  }
+
   async getAchievements(): Promise<Achievement[]> {
-    return await db.select().from(achievements);
+    return await this.db.select().from(achievements);
   }
 
   async getUserAchievements(userId: string): Promise<(UserAchievement & { achievement: Achievement })[]> {
-    const result = await db
+    const result = await this.db
       .select({
         userAchievement: userAchievements,
         achievement: achievements,
@@ -335,28 +1918,28 @@ export class DatabaseStorage implements IStorage {
   }
 
   async unlockAchievement(userId: string, achievementId: string): Promise<UserAchievement> {
-    await db
+    await this.db
       .insert(userAchievements)
       .values({ userId, achievementId });
     
-    const [userAchievement] = await db.select().from(userAchievements).where(and(eq(userAchievements.userId, userId), eq(userAchievements.achievementId, achievementId))).orderBy(desc(userAchievements.unlockedAt));
+    const [userAchievement] = await this.db.select().from(userAchievements).where(and(eq(userAchievements.userId, userId), eq(userAchievements.achievementId, achievementId))).orderBy(desc(userAchievements.unlockedAt));
     return userAchievement;
   }
 
-  async useHint(userId: string, challengeId: string, hintIndex: number, pointsDeducted: number): Promise<HintUsage> {
-    await db
+  async useHint(userId: string, challengeId: string, hintIndex: number, pointsDeducted: number, teamId?: string | null): Promise<HintUsage> {
+    await this.db
       .insert(hintUsage)
-      .values({ userId, challengeId, hintIndex, pointsDeducted });
+      .values({ userId, challengeId, teamId, hintIndex, pointsDeducted });
     
-    const [hint] = await db.select().from(hintUsage).where(and(eq(hintUsage.userId, userId), eq(hintUsage.challengeId, challengeId))).orderBy(desc(hintUsage.usedAt));
+    const [hint] = await this.db.select().from(hintUsage).where(and(eq(hintUsage.userId, userId), eq(hintUsage.challengeId, challengeId))).orderBy(desc(hintUsage.usedAt));
     return hint;
   }
 
   async getUserHintUsage(userId: string, challengeId: string): Promise<HintUsage[]> {
-    return await db
+    return await this.db
       .select()
       .from(hintUsage)
-      .where(and(eq(hintUsage.userId, userId), eq(hintUsage.challengeId, challengeId)));
+      .where(and(await this.playerOrTeam(hintUsage, userId), eq(hintUsage.challengeId, challengeId)));
   }
 }
 
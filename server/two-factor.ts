@@ -0,0 +1,183 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import QRCode from "qrcode";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { generateTotpSecret, getTotpUri, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from "./totp";
+import { encryptFlagValue, decryptFlagValue } from "./flags";
+
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password checked out for an account with 2FA, until the code is entered
+    pendingTwoFactor?: { userId: string; expiresAt: number };
+  }
+}
+
+// How long a player has to enter their code after the password step
+export const PENDING_LOGIN_TTL_MS = 5 * 60 * 1000;
+
+export function isTwoFactorEnabled(user: Pick<User, "totpEnabledAt">): boolean {
+  return !!user.totpEnabledAt;
+}
+
+// With REQUIRE_STAFF_2FA=true, admins and challenge authors must enroll before using their privileges
+function isStaffPolicyEnabled(): boolean {
+  return process.env.REQUIRE_STAFF_2FA === "true";
+}
+
+async function isStaff(user: User): Promise<boolean> {
+  return !!user.isAdmin || (await storage.getUserChallenges(user.id)).length > 0;
+}
+
+/** Whether the staff policy holds this account back from privileged routes until it enrolls. */
+export function needsStaffEnrollment(user: User): boolean {
+  return isStaffPolicyEnabled() && !isTwoFactorEnabled(user);
+}
+
+// Secrets are stored encrypted as iv.tag.data, like regex flags; base32 secrets saved
+// before that never contain a dot and are re-encrypted on their next use
+function isEncryptedSecret(stored: string): boolean {
+  return stored.split(".").length === 3;
+}
+
+function readTotpSecret(stored: string): string {
+  return isEncryptedSecret(stored) ? decryptFlagValue(stored) : stored;
+}
+
+export const STAFF_ENROLLMENT_MESSAGE = "Two-factor authentication is required for this account. Enable it on your profile first.";
+
+/** Blocks challenge authoring for accounts the staff 2FA policy applies to. */
+export function requireStaffTwoFactor(req: Request, res: Response, next: NextFunction) {
+  if (req.user && needsStaffEnrollment(req.user)) {
+    return res.status(403).json({ message: STAFF_ENROLLMENT_MESSAGE, twoFactorSetupRequired: true });
+  }
+  next();
+}
+
+/**
+ * Checks an authenticator code or an unused recovery code. Accepted TOTP steps
+ * are recorded and recovery codes are consumed, so neither works twice.
+ */
+export async function checkSecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret || !isTwoFactorEnabled(user)) return false;
+
+  const step = verifyTotp(readTotpSecret(user.totpSecret), code, user.totpLastStep);
+  if (step !== null) {
+    if (!(await storage.claimTotpStep(user.id, step))) return false;
+    if (!isEncryptedSecret(user.totpSecret)) {
+      await storage.updateUserTwoFactor(user.id, { totpSecret: encryptFlagValue(user.totpSecret) });
+    }
+    return true;
+  }
+
+  const hash = hashRecoveryCode(code);
+  const recoveryCodes = user.totpRecoveryCodes ?? [];
+  if (recoveryCodes.includes(hash)) {
+    await storage.updateUserTwoFactor(user.id, { totpRecoveryCodes: recoveryCodes.filter(h => h !== hash) });
+    return true;
+  }
+  return false;
+}
+
+export function registerTwoFactorRoutes(app: Express, requireAuth: (req: any, res: any, next: any) => void) {
+  app.get("/api/2fa", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      res.json({
+        enabled: isTwoFactorEnabled(user),
+        recoveryCodesLeft: user.totpRecoveryCodes?.length ?? 0,
+        required: isStaffPolicyEnabled() && (await isStaff(user)),
+      });
+    } catch (error) {
+      console.error("Error fetching 2FA status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  app.post("/api/2fa/setup", requireAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      if (isTwoFactorEnabled(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUserTwoFactor(user.id, { totpSecret: encryptFlagValue(secret), totpEnabledAt: null });
+
+      const otpauthUrl = getTotpUri(secret, user.email);
+      res.json({ secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) });
+    } catch (error) {
+      console.error("Error starting 2FA setup:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/2fa/enable", requireAuth, async (req, res) => {
+    try {
+      const user = (await storage.getUser(req.user!.id))!;
+      if (isTwoFactorEnabled(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = typeof req.body.code === "string" ? verifyTotp(readTotpSecret(user.totpSecret), req.body.code, null) : null;
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        totpEnabledAt: new Date(),
+        totpLastStep: step,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling 2FA:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/2fa/disable", requireAuth, async (req, res) => {
+    try {
+      const user = (await storage.getUser(req.user!.id))!;
+      if (!isTwoFactorEnabled(user)) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (isStaffPolicyEnabled() && (await isStaff(user))) {
+        return res.status(403).json({ message: "Two-factor authentication is required for admins and challenge authors" });
+      }
+      if (typeof req.body.code !== "string" || !(await checkSecondFactor(user, req.body.code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      await storage.updateUserTwoFactor(user.id, {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        totpRecoveryCodes: null,
+      });
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      console.error("Error disabling 2FA:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/2fa/recovery-codes", requireAuth, async (req, res) => {
+    try {
+      const user = (await storage.getUser(req.user!.id))!;
+      if (typeof req.body.code !== "string" || !(await checkSecondFactor(user, req.body.code))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, { totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+}
@@ -0,0 +1,104 @@
+import type { FlagDefinition } from "./schema";
+
+// Longer submissions are never matched against regex flags
+export const MAX_FLAG_LENGTH = 256;
+
+// Longest regex flag pattern an admin can save
+export const MAX_FLAG_PATTERN_LENGTH = 200;
+
+// Unbounded quantifiers (*, + and {n,}) allowed in one pattern; each one multiplies the worst case by the candidate length
+const MAX_UNBOUNDED_QUANTIFIERS = 3;
+
+/**
+ * Why a regex flag pattern could backtrack catastrophically, or null if it can't.
+ * Rejects repeated groups that contain a quantifier or an alternation (e.g. (a+)+ or
+ * (a|aa)*), backreferences, lookarounds and too many unbounded quantifiers, which
+ * together keep matching a capped candidate polynomial and small.
+ */
+export function findUnsafeFlagPattern(pattern: string): string | null {
+  if (pattern.length > MAX_FLAG_PATTERN_LENGTH) {
+    return `Regex flags can be at most ${MAX_FLAG_PATTERN_LENGTH} characters`;
+  }
+
+  // One entry per open group: whether it contains a quantifier or an alternation
+  const groups: Array<{ quantified: boolean; alternation: boolean }> = [];
+  let unbounded = 0;
+  let inClass = false;
+  let lastGroup: { quantified: boolean; alternation: boolean } | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atom = lastGroup;
+    lastGroup = null;
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return "Regex flags can't use backreferences";
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (char === "]") inClass = false;
+      continue;
+    }
+    if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      if (/^\(\?(=|!|<=|<!)/.test(pattern.slice(i))) return "Regex flags can't use lookarounds";
+      // Skips the ?: of non-capturing and the ?<name> of named groups
+      const prefix = pattern.slice(i).match(/^\(\?(:|<[^>]*>)/);
+      if (prefix) i += prefix[0].length - 1;
+      groups.push({ quantified: false, alternation: false });
+    } else if (char === ")") {
+      lastGroup = groups.pop() ?? null;
+      const parent = groups[groups.length - 1];
+      if (lastGroup && parent) {
+        parent.quantified ||= lastGroup.quantified;
+        parent.alternation ||= lastGroup.alternation;
+      }
+    } else if (char === "|") {
+      if (groups.length > 0) groups[groups.length - 1].alternation = true;
+    } else if (char === "*" || char === "+" || char === "?" || (char === "{" && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)))) {
+      const bound = char === "{" ? pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/)! : null;
+      const repeats = char === "*" || char === "+" || (bound !== null && (bound[2] ? bound[3] === "" || Number(bound[3]) > 1 : Number(bound[1]) > 1));
+      if (bound) i += bound[0].length - 1;
+      if (pattern[i + 1] === "?") i++;
+
+      if (char === "*" || char === "+" || (bound?.[2] && bound[3] === "")) unbounded++;
+      if (repeats && atom && (atom.quantified || atom.alternation)) {
+        return "Regex flags can't repeat a group that contains a quantifier or |";
+      }
+      if (groups.length > 0) groups[groups.length - 1].quantified = true;
+    }
+  }
+
+  if (unbounded > MAX_UNBOUNDED_QUANTIFIERS) {
+    return `Regex flags can use at most ${MAX_UNBOUNDED_QUANTIFIERS} of *, + and {n,}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a candidate matches a flag in its plain, author-written form.
+ * Regex flags have to match the whole candidate, not just a substring of it.
+ */
+export function matchesFlagDefinition(flag: FlagDefinition, candidate: string): boolean {
+  switch (flag.type) {
+    case "regex":
+      if (candidate.length > MAX_FLAG_LENGTH || findUnsafeFlagPattern(flag.value)) return false;
+      try {
+        return new RegExp(`^(?:${flag.value})$`).test(candidate);
+      } catch {
+        return false;
+      }
+    case "dynamic":
+      // Depends on the server-side secret, only the server can check it
+      return false;
+    case "case-insensitive":
+      return candidate.toLowerCase() === flag.value.toLowerCase();
+    default:
+      return candidate === flag.value;
+  }
+}
+
+// Placeholder replaced with the viewer's own flag in dynamic challenge descriptions and text artifacts
+export const DYNAMIC_FLAG_PLACEHOLDER = "{{flag}}";
@@ -0,0 +1,36 @@
+// Path of the WebSocket the server pushes live updates on
+export const LIVE_UPDATES_PATH = "/api/live";
+
+export interface LiveSolve {
+  challengeId: string;
+  challengeTitle: string;
+  category: string;
+  eventId: string | null;
+  userId: string;
+  username: string;
+  teamName: string | null;
+  // What the solver was awarded, first blood bonus included
+  points: number;
+  firstBlood: boolean;
+  solvedAt: string;
+  // The challenge after this solve, so clients update it in place instead of refetching
+  solveCount: number;
+  challengePoints: number;
+}
+
+/**
+ * Messages broadcast to every connected client. They only carry public data;
+ * clients refetch anything else they need through the regular API.
+ */
+export type LiveMessage =
+  | { type: "solve"; solve: LiveSolve }
+  // Scores moved without a public solve (hints, awards, freezes); a null eventId is the global board
+  | { type: "scoreboard"; eventId: string | null }
+  // Challenge values or visibility changed
+  | { type: "challenges" }
+  // Announcements were posted, edited or removed; each player fetches the ones addressed to them
+  | { type: "announcements" }
+  // Public clarifications of a challenge changed
+  | { type: "clarifications"; challengeId: string }
+  // Some clarification ticket changed; tickets are private, so this says nothing about which
+  | { type: "tickets" };
@@ -6,42 +6,215 @@ import {
   int, 
   boolean, 
   timestamp,
-  json
+  json,
+  index,
+  uniqueIndex
 } from "drizzle-orm/mysql-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { findUnsafeFlagPattern } from "./flags";
+
+// How correct submissions are accepted once a challenge has been solved:
+// - first-blood-lock: only the first solver scores, the challenge then locks
+// - open: every player can solve and score it
+// - first-blood-bonus: every player can solve it, the first solver earns a bonus
+export const solveModes = ["first-blood-lock", "open", "first-blood-bonus"] as const;
+export type SolveMode = typeof solveModes[number];
+
+// How a challenge's value reacts to its solve count (see shared/scoring.ts)
+export const scoringTypes = ["static", "linear", "logarithmic"] as const;
+export type ScoringType = typeof scoringTypes[number];
+
+// How an accepted flag is compared with a submission:
+// - static: exact match, stored hashed
+// - case-insensitive: match ignoring case, stored hashed in lower case
+// - regex: the whole submission must match the pattern, stored encrypted so it can be evaluated
+// - dynamic: unique per player/team, derived with an HMAC from an encrypted secret; the value is the flag prefix
+export const flagTypes = ["static", "case-insensitive", "regex", "dynamic"] as const;
+export type FlagType = typeof flagTypes[number];
+
+// What a personal API token may be used for (see server/api-tokens.ts)
+export const apiTokenScopes = ["challenges:read", "flags:submit", "profile:read"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+// Delivery state of an outbound email (see server/mailer.ts)
+export const mailStatuses = ["pending", "sending", "sent", "failed"] as const;
+export type MailStatus = typeof mailStatuses[number];
+
+// Who an announcement is shown to: every player, players whose team or who solved
+// challengeId, or the members of teamId
+export const announcementAudiences = ["all", "challenge-solvers", "team"] as const;
+export type AnnouncementAudience = typeof announcementAudiences[number];
+
+// Where a clarification ticket stands: open waits for staff, answered waits for the player
+export const ticketStatuses = ["open", "answered", "closed"] as const;
+export type TicketStatus = typeof ticketStatuses[number];
+
+// Why a player reports a challenge; copyright covers takedown requests
+export const reportReasons = ["broken", "offensive", "malicious", "plagiarism", "copyright", "other"] as const;
+export type ReportReason = typeof reportReasons[number];
+
+// What an admin decided about a reported challenge
+export const moderationActions = ["dismiss", "unpublish", "delete"] as const;
+export type ModerationAction = typeof moderationActions[number];
+
+// Review state of an uploaded artifact; only approved files can be downloaded by players
+export const artifactStatuses = ["quarantined", "approved", "rejected"] as const;
+export type ArtifactStatus = typeof artifactStatuses[number];
+
+// What an artifact scanner concluded about a file (see server/artifact-scanners.ts)
+export const scanVerdicts = ["clean", "infected", "error"] as const;
+export type ScanVerdict = typeof scanVerdicts[number];
+
+// Kinds of entries in the append-only score ledger
+export const scoreEventTypes = ["solve", "first-blood-bonus", "hint", "award", "penalty", "decay"] as const;
+export type ScoreEventType = typeof scoreEventTypes[number];
 
 export const users = mysqlTable("users", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
   username: varchar("username", { length: 255 }).notNull().unique(),
   email: varchar("email", { length: 255 }).notNull().unique(),
   password: text("password").notNull(),
+  // Accounts that existed before verification was introduced get the migration time;
+  // new accounts are created with null and must confirm their address first
+  emailVerifiedAt: timestamp("email_verified_at").defaultNow(),
   score: int("score").default(0),
   isAdmin: boolean("is_admin").default(false),
+  // Banned players can't log in and are dropped from the scoreboards
+  bannedAt: timestamp("banned_at"),
+  banReason: text("ban_reason"),
+  // TOTP two-factor auth (see server/totp.ts). The secret is set when enrollment starts
+  // and only takes effect once totpEnabledAt is set by confirming a first code.
+  totpSecret: varchar("totp_secret", { length: 255 }),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // Last time step a code was accepted for, so codes can't be replayed
+  totpLastStep: int("totp_last_step"),
+  // SHA-256 hashes of unused recovery codes
+  totpRecoveryCodes: json("totp_recovery_codes").$type<string[]>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const teams = mysqlTable("teams", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  name: varchar("name", { length: 255 }).notNull().unique(),
+  inviteCode: varchar("invite_code", { length: 32 }).notNull().unique(),
+  captainId: varchar("captain_id", { length: 36 }).notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const teamMembers = mysqlTable("team_members", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  teamId: varchar("team_id", { length: 36 }).notNull().references(() => teams.id),
+  // A player belongs to at most one team
+  userId: varchar("user_id", { length: 36 }).notNull().unique().references(() => users.id),
+  joinedAt: timestamp("joined_at").defaultNow(),
+});
+
+// A competition window grouping a set of challenges with its own scoreboard
+export const events = mysqlTable("events", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  // null opens registration immediately / keeps it open until the event ends
+  registrationOpensAt: timestamp("registration_opens_at"),
+  registrationClosesAt: timestamp("registration_closes_at"),
+  // Default for challenges of this event that don't set their own solve mode
+  solveMode: varchar("solve_mode", { length: 50 }).$type<SolveMode>(),
+  // Set when the scheduler first published challenges of the event
+  challengesPublishedAt: timestamp("challenges_published_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const eventRegistrations = mysqlTable("event_registrations", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  eventId: varchar("event_id", { length: 36 }).notNull().references(() => events.id),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  registeredAt: timestamp("registered_at").defaultNow(),
+});
+
 export const challenges = mysqlTable("challenges", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
   title: varchar("title", { length: 500 }).notNull(),
   slug: varchar("slug", { length: 500 }).notNull().unique(),
+  // Stable id from challenge.yml, so re-importing updates the challenge instead of adding another (see server/challenge-import.ts)
+  externalId: varchar("external_id", { length: 255 }).unique(),
   description: text("description").notNull(),
   category: varchar("category", { length: 255 }).notNull(),
   difficulty: varchar("difficulty", { length: 50 }).notNull(),
+  // Current value of the challenge; recomputed from the scoring parameters for dynamic challenges
   points: int("points").notNull(),
-  flagHash: text("flag_hash").notNull(),
-  flagSalt: text("flag_salt").notNull(),
+  scoringType: varchar("scoring_type", { length: 50 }).$type<ScoringType>().default("static"),
+  initialPoints: int("initial_points"),
+  minimumPoints: int("minimum_points"),
+  decay: int("decay"),
+  // Legacy single flag of challenges created before challenge_flags; new challenges leave these empty
+  flagHash: text("flag_hash"),
+  flagSalt: text("flag_salt"),
   published: boolean("published").default(false),
-  globalSolved: boolean("global_solved").default(false),
+  // null means the challenge follows the event default solve mode
+  solveMode: varchar("solve_mode", { length: 50 }).$type<SolveMode>(),
   creatorId: varchar("creator_id", { length: 36 }).notNull().references(() => users.id),
+  eventId: varchar("event_id", { length: 36 }).references(() => events.id),
+  // Set when the event scheduler published the challenge, so one an admin unpublished later stays unpublished
+  eventPublishedAt: timestamp("event_published_at"),
   artifacts: json("artifacts").$type<Array<{name: string, url: string, size: number}>>().default([]),
   hints: json("hints").$type<Array<{text: string, cost: number}>>().default([]),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Accepted flags of a challenge; a submission is correct when it matches any of them
+export const challengeFlags = mysqlTable("challenge_flags", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  challengeId: varchar("challenge_id", { length: 36 }).notNull().references(() => challenges.id),
+  type: varchar("type", { length: 50 }).$type<FlagType>().notNull(),
+  // scrypt hash for static flags, AES-GCM ciphertext for regex and dynamic flags (see server/flags.ts)
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Downloads of challenge artifacts by logged-in players, used by the anti-cheat report
+export const artifactDownloads = mysqlTable("artifact_downloads", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  teamId: varchar("team_id", { length: 36 }),
+  challengeId: varchar("challenge_id", { length: 36 }).notNull().references(() => challenges.id),
+  artifactIndex: int("artifact_index").notNull(),
+  downloadedAt: timestamp("downloaded_at").defaultNow(),
+});
+
+// The dynamic flag a player was first shown for a challenge. teamId is the team they
+// played for then, so the flag stays theirs when they change teams; flagLookup is the
+// SHA-256 of the flag, so a shared flag is traced to its owner with one query.
+export const issuedFlags = mysqlTable("issued_flags", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  challengeId: varchar("challenge_id", { length: 36 }).notNull().references(() => challenges.id),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  teamId: varchar("team_id", { length: 36 }),
+  flagLookup: varchar("flag_lookup", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  challengeUserIdx: uniqueIndex("issued_flags_challenge_user_idx").on(table.challengeId, table.userId),
+  challengeLookupIdx: index("issued_flags_challenge_lookup_idx").on(table.challengeId, table.flagLookup),
+}));
+
+// A player submitted the dynamic flag issued to someone else
+export const flagSharingIncidents = mysqlTable("flag_sharing_incidents", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  challengeId: varchar("challenge_id", { length: 36 }).notNull().references(() => challenges.id),
+  submissionId: varchar("submission_id", { length: 36 }).references(() => submissions.id),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  teamId: varchar("team_id", { length: 36 }),
+  // Whoever the submitted flag was issued to: a team, or a player without one
+  ownerUserId: varchar("owner_user_id", { length: 36 }).references(() => users.id),
+  ownerTeamId: varchar("owner_team_id", { length: 36 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const submissions = mysqlTable("submissions", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
   userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
@@ -57,8 +230,15 @@ export const solves = mysqlTable("solves", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
   userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
   challengeId: varchar("challenge_id", { length: 36 }).notNull().references(() => challenges.id),
+  // Team the solver played for at the time; not a foreign key so it outlives a disbanded team
+  teamId: varchar("team_id", { length: 36 }),
   solvedAt: timestamp("solved_at").defaultNow(),
-});
+}, (table) => ({
+  // A challenge is solved once per player and once per team (solo solves have no team)
+  challengeUserIdx: uniqueIndex("solves_challenge_user_idx").on(table.challengeId, table.userId),
+  challengeTeamIdx: uniqueIndex("solves_challenge_team_idx").on(table.challengeId, table.teamId),
+  challengeSolvedAtIdx: index("solves_challenge_solved_at_idx").on(table.challengeId, table.solvedAt),
+}));
 
 export const achievements = mysqlTable("achievements", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
@@ -79,18 +259,230 @@ export const hintUsage = mysqlTable("hint_usage", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
   userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
   challengeId: varchar("challenge_id", { length: 36 }).notNull().references(() => challenges.id),
+  teamId: varchar("team_id", { length: 36 }),
   hintIndex: int("hint_index").notNull(),
   pointsDeducted: int("points_deducted").notNull(),
   usedAt: timestamp("used_at").defaultNow(),
 });
 
+// Append-only record of every score change; users.score is a cache of its sum.
+// challengeId, teamId and eventId are deliberately not foreign keys so history survives deletions.
+export const scoreEvents = mysqlTable("score_events", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  challengeId: varchar("challenge_id", { length: 36 }),
+  teamId: varchar("team_id", { length: 36 }),
+  eventId: varchar("event_id", { length: 36 }),
+  type: varchar("type", { length: 50 }).$type<ScoreEventType>().notNull(),
+  points: int("points").notNull(),
+  reason: text("reason"),
+  createdById: varchar("created_by_id", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Public scoreboards stop moving at freezesAt until an admin unfreezes them.
+// Only the latest row without unfrozenAt for a scope is in effect.
+export const scoreboardFreezes = mysqlTable("scoreboard_freezes", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  // null freezes the global scoreboard
+  eventId: varchar("event_id", { length: 36 }).references(() => events.id),
+  freezesAt: timestamp("freezes_at").notNull(),
+  unfrozenAt: timestamp("unfrozen_at"),
+  createdById: varchar("created_by_id", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Personal access tokens for scripts; only a SHA-256 hash of the token is kept
+export const apiTokens = mysqlTable("api_tokens", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  label: varchar("label", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  // First characters of the token, so players can tell their tokens apart
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(),
+  scopes: json("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Outbound emails, sent in the background with retries
+export const mailQueue = mysqlTable("mail_queue", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  toAddress: varchar("to_address", { length: 255 }).notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  status: varchar("status", { length: 20 }).$type<MailStatus>().notNull().default("pending"),
+  attempts: int("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  sendAfter: timestamp("send_after").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+});
+
+// express-session sessions (see server/session-store.ts). sid is the secret the cookie carries;
+// id is the handle shown to players for revoking a session.
+export const sessions = mysqlTable("sessions", {
+  sid: varchar("sid", { length: 128 }).primaryKey(),
+  id: varchar("id", { length: 36 }).notNull().unique(),
+  userId: varchar("user_id", { length: 36 }).references(() => users.id),
+  data: text("data").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+});
+
+// Requests counted by the database-backed rate limiter, per key and fixed window (see server/rate-limit.ts)
+export const rateLimitCounters = mysqlTable("rate_limit_counters", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  key: varchar("key", { length: 255 }).notNull(),
+  windowStart: timestamp("window_start").notNull(),
+  hits: int("hits").notNull().default(0),
+}, (table) => ({
+  keyWindowIdx: uniqueIndex("rate_limit_counters_key_window_idx").on(table.key, table.windowStart),
+  windowStartIdx: index("rate_limit_counters_window_start_idx").on(table.windowStart),
+}));
+
+// Keys that exceeded their limit; strikes drive the exponential lockout length
+export const rateLimitLockouts = mysqlTable("rate_limit_lockouts", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  strikes: int("strikes").notNull(),
+  lockedUntil: timestamp("locked_until").notNull(),
+  lastStrikeAt: timestamp("last_strike_at").notNull(),
+});
+
+// Messages from the organisers. challengeId and teamId are not foreign keys, so an
+// announcement outlives its target (and then reaches nobody but admins).
+export const announcements = mysqlTable("announcements", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  title: varchar("title", { length: 200 }).notNull(),
+  body: text("body").notNull(),
+  audience: varchar("audience", { length: 20 }).$type<AnnouncementAudience>().notNull().default("all"),
+  challengeId: varchar("challenge_id", { length: 36 }),
+  teamId: varchar("team_id", { length: 36 }),
+  createdById: varchar("created_by_id", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// An announcement a player has seen; no row means unread
+export const announcementReads = mysqlTable("announcement_reads", {
+  announcementId: varchar("announcement_id", { length: 36 }).notNull().references(() => announcements.id),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  readAt: timestamp("read_at").defaultNow(),
+}, (table) => ({
+  announcementUserIdx: uniqueIndex("announcement_reads_announcement_user_idx").on(table.announcementId, table.userId),
+}));
+
+// Private questions about a challenge, seen by the player who asked, the challenge's creator and admins
+export const clarificationTickets = mysqlTable("clarification_tickets", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  challengeId: varchar("challenge_id", { length: 36 }).notNull().references(() => challenges.id),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  status: varchar("status", { length: 20 }).$type<TicketStatus>().notNull().default("open"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const ticketMessages = mysqlTable("ticket_messages", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  ticketId: varchar("ticket_id", { length: 36 }).notNull().references(() => clarificationTickets.id),
+  authorId: varchar("author_id", { length: 36 }).notNull().references(() => users.id),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Public questions and answers shown with a challenge, usually promoted from a ticket.
+// Staff rewrite them when publishing, so nothing from the private thread leaks by accident.
+export const clarifications = mysqlTable("clarifications", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  challengeId: varchar("challenge_id", { length: 36 }).notNull().references(() => challenges.id),
+  ticketId: varchar("ticket_id", { length: 36 }).references(() => clarificationTickets.id),
+  question: text("question").notNull(),
+  answer: text("answer").notNull(),
+  createdById: varchar("created_by_id", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Abuse reports and takedown requests. challengeId is not a foreign key and the title is
+// copied, so reports and their decisions stay readable after the challenge is deleted.
+export const challengeReports = mysqlTable("challenge_reports", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  challengeId: varchar("challenge_id", { length: 36 }).notNull(),
+  challengeTitle: varchar("challenge_title", { length: 255 }).notNull(),
+  reporterId: varchar("reporter_id", { length: 36 }).notNull().references(() => users.id),
+  reason: varchar("reason", { length: 20 }).$type<ReportReason>().notNull(),
+  details: text("details").notNull(),
+  // Open until an admin acts on it; resolution is the action taken
+  resolution: varchar("resolution", { length: 20 }).$type<ModerationAction>(),
+  resolvedById: varchar("resolved_by_id", { length: 36 }).references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Append-only audit trail of moderation decisions
+export const moderationLog = mysqlTable("moderation_log", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  reportId: varchar("report_id", { length: 36 }).notNull().references(() => challengeReports.id),
+  challengeId: varchar("challenge_id", { length: 36 }).notNull(),
+  challengeTitle: varchar("challenge_title", { length: 255 }).notNull(),
+  action: varchar("action", { length: 20 }).$type<ModerationAction>().notNull(),
+  note: text("note"),
+  moderatorId: varchar("moderator_id", { length: 36 }).notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every file written to ./uploads, held back from download until an admin approves it
+export const artifactUploads = mysqlTable("artifact_uploads", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(UUID())`),
+  // Name on disk, the last segment of the artifact's /uploads/ url
+  filename: varchar("filename", { length: 255 }).notNull().unique(),
+  originalName: varchar("original_name", { length: 255 }).notNull(),
+  size: int("size").notNull(),
+  sha256: varchar("sha256", { length: 64 }).notNull(),
+  challengeId: varchar("challenge_id", { length: 36 }),
+  uploadedById: varchar("uploaded_by_id", { length: 36 }).notNull().references(() => users.id),
+  status: varchar("status", { length: 20 }).$type<ArtifactStatus>().notNull().default("quarantined"),
+  // One entry per configured scanner, replaced on every rescan
+  scanResults: json("scan_results").$type<Array<{ scanner: string, verdict: ScanVerdict, detail: string | null }>>().default([]),
+  scannedAt: timestamp("scanned_at"),
+  reviewedById: varchar("reviewed_by_id", { length: 36 }).references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  statusIdx: index("artifact_uploads_status_idx").on(table.status),
+}));
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   challenges: many(challenges),
   submissions: many(submissions),
   solves: many(solves),
   achievements: many(userAchievements),
   hintUsage: many(hintUsage),
+  scoreEvents: many(scoreEvents),
+  teamMembership: one(teamMembers),
+}));
+
+export const teamsRelations = relations(teams, ({ one, many }) => ({
+  captain: one(users, {
+    fields: [teams.captainId],
+    references: [users.id],
+  }),
+  members: many(teamMembers),
+}));
+
+export const teamMembersRelations = relations(teamMembers, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamMembers.teamId],
+    references: [teams.id],
+  }),
+  user: one(users, {
+    fields: [teamMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 export const challengesRelations = relations(challenges, ({ one, many }) => ({
@@ -98,11 +490,49 @@ export const challengesRelations = relations(challenges, ({ one, many }) => ({
     fields: [challenges.creatorId],
     references: [users.id],
   }),
+  event: one(events, {
+    fields: [challenges.eventId],
+    references: [events.id],
+  }),
+  flags: many(challengeFlags),
   submissions: many(submissions),
   solves: many(solves),
   hintUsage: many(hintUsage),
 }));
 
+export const challengeFlagsRelations = relations(challengeFlags, ({ one }) => ({
+  challenge: one(challenges, {
+    fields: [challengeFlags.challengeId],
+    references: [challenges.id],
+  }),
+}));
+
+export const artifactDownloadsRelations = relations(artifactDownloads, ({ one }) => ({
+  user: one(users, {
+    fields: [artifactDownloads.userId],
+    references: [users.id],
+  }),
+  challenge: one(challenges, {
+    fields: [artifactDownloads.challengeId],
+    references: [challenges.id],
+  }),
+}));
+
+export const flagSharingIncidentsRelations = relations(flagSharingIncidents, ({ one }) => ({
+  challenge: one(challenges, {
+    fields: [flagSharingIncidents.challengeId],
+    references: [challenges.id],
+  }),
+  submission: one(submissions, {
+    fields: [flagSharingIncidents.submissionId],
+    references: [submissions.id],
+  }),
+  user: one(users, {
+    fields: [flagSharingIncidents.userId],
+    references: [users.id],
+  }),
+}));
+
 export const submissionsRelations = relations(submissions, ({ one }) => ({
   user: one(users, {
     fields: [submissions.userId],
@@ -140,6 +570,36 @@ export const userAchievementsRelations = relations(userAchievements, ({ one }) =
   }),
 }));
 
+export const eventsRelations = relations(events, ({ many }) => ({
+  challenges: many(challenges),
+  registrations: many(eventRegistrations),
+}));
+
+export const eventRegistrationsRelations = relations(eventRegistrations, ({ one }) => ({
+  event: one(events, {
+    fields: [eventRegistrations.eventId],
+    references: [events.id],
+  }),
+  user: one(users, {
+    fields: [eventRegistrations.userId],
+    references: [users.id],
+  }),
+}));
+
+export const scoreEventsRelations = relations(scoreEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [scoreEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const scoreboardFreezesRelations = relations(scoreboardFreezes, ({ one }) => ({
+  event: one(events, {
+    fields: [scoreboardFreezes.eventId],
+    references: [events.id],
+  }),
+}));
+
 export const hintUsageRelations = relations(hintUsage, ({ one }) => ({
   user: one(users, {
     fields: [hintUsage.userId],
@@ -158,15 +618,77 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const insertTeamSchema = createInsertSchema(teams, {
+  name: (schema) => schema.trim().min(2).max(64),
+}).pick({
+  name: true,
+});
+
+export const insertEventSchema = createInsertSchema(events).omit({
+  id: true,
+  challengesPublishedAt: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  registrationOpensAt: z.coerce.date().nullish(),
+  registrationClosesAt: z.coerce.date().nullish(),
+  solveMode: z.enum(solveModes).nullish(),
+}).refine((event) => event.endsAt > event.startsAt, {
+  message: "Event must end after it starts",
+  path: ["endsAt"],
+});
+
+// A flag as written by the author, before it is hashed or encrypted
+export const flagDefinitionSchema = z.object({
+  type: z.enum(flagTypes),
+  value: z.string().min(1, "Flag cannot be empty"),
+}).refine((flag) => flag.type !== "dynamic" || /^[A-Za-z0-9_-]+$/.test(flag.value), {
+  message: "Dynamic flag prefix may only contain letters, digits, _ and -",
+  path: ["value"],
+}).refine((flag) => {
+  if (flag.type !== "regex") return true;
+  try {
+    new RegExp(flag.value);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: "Invalid regular expression", path: ["value"] }).refine(
+  (flag) => flag.type !== "regex" || !findUnsafeFlagPattern(flag.value),
+  (flag) => ({ message: findUnsafeFlagPattern(flag.value) ?? "Unsafe regular expression", path: ["value"] }),
+);
+
 export const insertChallengeSchema = createInsertSchema(challenges).omit({
   id: true,
   slug: true,
   flagHash: true,
   flagSalt: true,
+  eventPublishedAt: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
-  flag: z.string().min(1),
+  flags: z.array(flagDefinitionSchema).min(1, "At least one flag is required"),
+  solveMode: z.enum(solveModes).nullish(),
+  scoringType: z.enum(scoringTypes).default("static"),
+  minimumPoints: z.number().int().min(0).nullish(),
+  decay: z.number().int().positive().nullish(),
+}).superRefine((challenge, ctx) => {
+  if (challenge.scoringType === "static") return;
+  if (challenge.minimumPoints == null || challenge.minimumPoints > challenge.points) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["minimumPoints"], message: "Minimum points must be between 0 and the initial points" });
+  }
+  if (challenge.decay == null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["decay"], message: "Decay is required for dynamic scoring" });
+  }
+});
+
+export const insertScoreEventSchema = createInsertSchema(scoreEvents).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(scoreEventTypes),
 });
 
 export const insertSubmissionSchema = createInsertSchema(submissions).omit({
@@ -174,6 +696,46 @@ export const insertSubmissionSchema = createInsertSchema(submissions).omit({
   submittedAt: true,
 });
 
+export const insertAnnouncementSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  body: z.string().trim().min(1, "Message is required"),
+  audience: z.enum(announcementAudiences).default("all"),
+  challengeId: z.string().nullish(),
+  teamId: z.string().nullish(),
+}).refine((announcement) => announcement.audience !== "challenge-solvers" || !!announcement.challengeId, {
+  message: "Pick the challenge whose solvers should see this",
+  path: ["challengeId"],
+}).refine((announcement) => announcement.audience !== "team" || !!announcement.teamId, {
+  message: "Pick the team that should see this",
+  path: ["teamId"],
+});
+
+export const ticketMessageSchema = z.object({
+  body: z.string().trim().min(1, "Message is required").max(5000),
+});
+
+export const insertClarificationSchema = z.object({
+  question: z.string().trim().min(1, "Question is required").max(2000),
+  answer: z.string().trim().min(1, "Answer is required").max(5000),
+});
+
+export const insertChallengeReportSchema = z.object({
+  reason: z.enum(reportReasons),
+  details: z.string().trim().min(10, "Tell us a little more (at least 10 characters)").max(5000),
+});
+
+export const resolveReportSchema = z.object({
+  action: z.enum(moderationActions),
+  note: z.string().trim().max(2000).nullish(),
+});
+
+export const createApiTokenSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Pick at least one scope"),
+  // Tokens without an expiry stay valid until revoked
+  expiresInDays: z.number().int().min(1).max(365).nullish(),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -185,3 +747,44 @@ export type Solve = typeof solves.$inferSelect;
 export type Achievement = typeof achievements.$inferSelect;
 export type UserAchievement = typeof userAchievements.$inferSelect;
 export type HintUsage = typeof hintUsage.$inferSelect;
+export type InsertEvent = z.infer<typeof insertEventSchema>;
+export type Event = typeof events.$inferSelect;
+export type EventRegistration = typeof eventRegistrations.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type Team = typeof teams.$inferSelect;
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type InsertScoreEvent = z.infer<typeof insertScoreEventSchema>;
+export type ScoreEvent = typeof scoreEvents.$inferSelect;
+export type ScoreboardFreeze = typeof scoreboardFreezes.$inferSelect;
+export type FlagDefinition = z.infer<typeof flagDefinitionSchema>;
+export type ChallengeFlag = typeof challengeFlags.$inferSelect;
+export type ArtifactDownload = typeof artifactDownloads.$inferSelect;
+export type FlagSharingIncident = typeof flagSharingIncidents.$inferSelect;
+export type IssuedFlag = typeof issuedFlags.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type QueuedMail = typeof mailQueue.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type Announcement = typeof announcements.$inferSelect;
+export type InsertAnnouncement = z.infer<typeof insertAnnouncementSchema>;
+export type ClarificationTicket = typeof clarificationTickets.$inferSelect;
+export type TicketMessage = typeof ticketMessages.$inferSelect;
+export type Clarification = typeof clarifications.$inferSelect;
+export type InsertClarification = z.infer<typeof insertClarificationSchema>;
+export type TicketThread = ClarificationTicket & {
+  username: string;
+  messages: Array<TicketMessage & { authorName: string }>;
+};
+export type ChallengeReport = typeof challengeReports.$inferSelect;
+export type InsertChallengeReport = z.infer<typeof insertChallengeReportSchema>;
+export type ModerationLogEntry = typeof moderationLog.$inferSelect;
+export type ArtifactUpload = typeof artifactUploads.$inferSelect;
+export type ArtifactScanResult = NonNullable<ArtifactUpload["scanResults"]>[number];
+export type RateLimitLockout = typeof rateLimitLockouts.$inferSelect;
+export type FirstBlood = { userId: string; username: string; solvedAt: Date | null };
+// Outcome of recording a correct flag: locked and duplicate lost a race to another solve
+export type SolveClaim =
+  // value is the challenge's new value, points what the solver was awarded (first blood bonus included)
+  | { status: "created"; solve: Solve; firstBlood: boolean; solveCount: number; value: number; points: number }
+  | { status: "locked" }
+  | { status: "duplicate" };
@@ -0,0 +1,51 @@
+import type { ScoringType } from "./schema";
+
+export interface ScoringParams {
+  scoringType: ScoringType;
+  initial: number;
+  minimum: number;
+  // linear: points lost per solve; logarithmic: solves until the minimum is reached
+  decay: number;
+}
+
+/**
+ * Value of a challenge once it has `solveCount` solves. The first solve keeps the
+ * full initial value, every later solve lowers it for all solvers.
+ */
+export function computeChallengeValue(params: ScoringParams, solveCount: number): number {
+  const { scoringType, initial, minimum, decay } = params;
+  const decayedSolves = Math.max(solveCount - 1, 0);
+
+  let value: number;
+  switch (scoringType) {
+    case "linear":
+      value = initial - decay * decayedSolves;
+      break;
+    case "logarithmic":
+      // CTFd-style curve: a parabola reaching the minimum after `decay` solves
+      value = decay > 0
+        ? Math.ceil(((minimum - initial) / (decay * decay)) * (decayedSolves * decayedSolves) + initial)
+        : initial;
+      break;
+    default:
+      return initial;
+  }
+
+  return Math.max(value, minimum);
+}
+
+export function getScoringParams(challenge: {
+  scoringType: ScoringType | null;
+  points: number;
+  initialPoints: number | null;
+  minimumPoints: number | null;
+  decay: number | null;
+}): ScoringParams {
+  const initial = challenge.initialPoints ?? challenge.points;
+  return {
+    scoringType: challenge.scoringType ?? "static",
+    initial,
+    minimum: challenge.minimumPoints ?? initial,
+    decay: challenge.decay ?? 0,
+  };
+}